@@ -1,14 +1,23 @@
-import React, { useState } from 'react'
+import React from 'react'
 import { Toaster } from 'react-hot-toast'
 import { useAuth } from './hooks/useAuth'
+import { useRoute } from './hooks/useRoute'
+import { navigate } from './lib/router'
 import { AuthForm } from './components/AuthForm'
 import { Layout } from './components/Layout'
 import { TimeTracking } from './components/TimeTracking'
 import { Projects } from './components/Projects'
+import { Clients } from './components/Clients'
+import { Analytics } from './components/Analytics'
+import { UserManagement } from './components/UserManagement'
+import { Approvals } from './components/Approvals'
+import { Invoices } from './components/Invoices'
+import { AuditLog } from './components/AuditLog'
+import { Trash } from './components/Trash'
 
 function App() {
   const { user, loading } = useAuth()
-  const [currentView, setCurrentView] = useState('timetracking')
+  const { view: currentView } = useRoute()
 
   if (loading) {
     return (
@@ -27,16 +36,28 @@ function App() {
     )
   }
 
+  const isStaff = user.role === 'supervisor' || user.role === 'manager'
+
   const renderCurrentView = () => {
     switch (currentView) {
       case 'timetracking':
         return <TimeTracking />
       case 'projects':
         return <Projects />
+      case 'clients':
+        return <Clients />
+      case 'trash':
+        return <Trash />
+      case 'approvals':
+        return isStaff ? <Approvals /> : <TimeTracking />
       case 'analytics':
-        return <div className="text-center py-12 text-gray-500">Analytics coming soon...</div>
+        return isStaff ? <Analytics /> : <TimeTracking />
+      case 'invoices':
+        return user.role === 'manager' ? <Invoices /> : <TimeTracking />
       case 'management':
-        return <div className="text-center py-12 text-gray-500">User Management coming soon...</div>
+        return user.role === 'manager' ? <UserManagement /> : <TimeTracking />
+      case 'audit':
+        return user.role === 'manager' ? <AuditLog /> : <TimeTracking />
       default:
         return <TimeTracking />
     }
@@ -44,7 +65,7 @@ function App() {
 
   return (
     <>
-      <Layout currentView={currentView} onViewChange={setCurrentView}>
+      <Layout currentView={currentView} onViewChange={(view) => navigate({ view })}>
         {renderCurrentView()}
       </Layout>
       <Toaster position="top-right" />
@@ -0,0 +1,192 @@
+import React, { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { CalendarDays, Plus, Tag, Trash2 } from 'lucide-react'
+import { createAbsenceType, createPublicHoliday, deleteAbsenceType, deletePublicHoliday } from '../lib/api'
+import type { AbsenceType, PublicHoliday } from '../lib/api'
+import { useAbsenceTypes, usePublicHolidays } from '../hooks/useData'
+import toast from 'react-hot-toast'
+
+export const HolidayCalendar: React.FC = () => {
+  const { data: holidays = [] } = usePublicHolidays()
+  const [year, setYear] = useState(new Date().getFullYear())
+  const [date, setDate] = useState('')
+  const [name, setName] = useState('')
+
+  const yearHolidays = holidays.filter(holiday => holiday.date.startsWith(`${year}-`))
+
+  const addHoliday = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (holidays.some(holiday => holiday.date === date)) {
+      toast.error('There is already a holiday on this day')
+      return
+    }
+
+    try {
+      await createPublicHoliday({ date, name: name.trim() })
+      setDate('')
+      setName('')
+    } catch (error) {
+      console.error('Error adding holiday:', error)
+      toast.error('Failed to add holiday')
+    }
+  }
+
+  const removeHoliday = async (holiday: PublicHoliday) => {
+    try {
+      await deletePublicHoliday(holiday.id)
+    } catch (error) {
+      console.error('Error removing holiday:', error)
+      toast.error('Failed to remove holiday')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between p-6 border-b border-gray-100">
+        <div className="flex items-center space-x-2">
+          <CalendarDays className="w-5 h-5 text-blue-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Public Holidays</h3>
+        </div>
+        <select
+          value={year}
+          onChange={(e) => setYear(Number(e.target.value))}
+          className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {[year - 1, year, year + 1].map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="p-6 space-y-2">
+        {yearHolidays.map(holiday => (
+          <div key={holiday.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+            <div className="text-sm">
+              <span className="font-medium text-gray-900">{holiday.name}</span>
+              <span className="text-gray-500"> · {format(parseISO(holiday.date), 'EEE, MMM d')}</span>
+            </div>
+            <button
+              onClick={() => removeHoliday(holiday)}
+              className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        {yearHolidays.length === 0 && (
+          <p className="text-sm text-gray-500 italic">No public holidays in {year}</p>
+        )}
+
+        <form onSubmit={addHoliday} className="flex items-center space-x-2 pt-2">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Holiday name"
+            className="flex-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+          <button
+            type="submit"
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export const AbsenceTypeList: React.FC = () => {
+  const { data: absenceTypes = [] } = useAbsenceTypes()
+  const [name, setName] = useState('')
+  const [color, setColor] = useState('#0ea5e9')
+  const [paid, setPaid] = useState(true)
+
+  const addType = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      await createAbsenceType({ name: name.trim(), color, paid })
+      setName('')
+    } catch (error) {
+      console.error('Error adding absence type:', error)
+      toast.error('Failed to add absence type')
+    }
+  }
+
+  const removeType = async (type: AbsenceType) => {
+    if (!confirm(`Delete "${type.name}"? Types that are already used cannot be deleted.`)) return
+
+    try {
+      await deleteAbsenceType(type.id)
+    } catch (error) {
+      console.error('Error deleting absence type:', error)
+      toast.error('Failed to delete absence type')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center space-x-2 p-6 border-b border-gray-100">
+        <Tag className="w-5 h-5 text-blue-500" />
+        <h3 className="text-lg font-semibold text-gray-900">Absence Types</h3>
+      </div>
+
+      <div className="p-6 space-y-2">
+        {absenceTypes.map(type => (
+          <div key={type.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+            <div className="flex items-center space-x-2 text-sm">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: type.color }} />
+              <span className="font-medium text-gray-900">{type.name}</span>
+              {!type.paid && <span className="text-gray-500">· unpaid</span>}
+            </div>
+            <button
+              onClick={() => removeType(type)}
+              className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        <form onSubmit={addType} className="flex items-center space-x-2 pt-2">
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            className="w-9 h-9 border border-gray-200 rounded-lg"
+          />
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New absence type"
+            className="flex-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+          <label className="flex items-center space-x-1 text-sm text-gray-600">
+            <input type="checkbox" checked={paid} onChange={(e) => setPaid(e.target.checked)} />
+            <span>Paid</span>
+          </label>
+          <button
+            type="submit"
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
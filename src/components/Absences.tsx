@@ -0,0 +1,294 @@
+import React, { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { CalendarX, CheckCircle, Clock, Plus, Trash2, X, XCircle } from 'lucide-react'
+import { requestAbsence, reviewAbsence as saveReview, withdrawAbsence } from '../lib/api'
+import type { AbsenceStatus, AbsenceWithRelations } from '../lib/api'
+import { useAuth } from '../hooks/useAuth'
+import { useAbsenceTypes, useAbsences } from '../hooks/useData'
+import toast from 'react-hot-toast'
+
+const statusConfig: Record<AbsenceStatus, { label: string; icon: React.ElementType; className: string }> = {
+  pending: { label: 'Pending', icon: Clock, className: 'bg-amber-50 text-amber-700' },
+  approved: { label: 'Approved', icon: CheckCircle, className: 'bg-green-50 text-green-700' },
+  rejected: { label: 'Rejected', icon: XCircle, className: 'bg-red-50 text-red-700' }
+}
+
+const AbsenceStatusBadge: React.FC<{ status: AbsenceStatus }> = ({ status }) => {
+  const { label, icon: Icon, className } = statusConfig[status]
+
+  return (
+    <span className={`inline-flex items-center space-x-1 rounded-full font-medium px-2.5 py-1 text-xs ${className}`}>
+      <Icon className="w-3.5 h-3.5" />
+      <span>{label}</span>
+    </span>
+  )
+}
+
+const formatPeriod = (absence: AbsenceWithRelations) => {
+  const start = parseISO(absence.start_date)
+  const period = absence.start_date === absence.end_date
+    ? format(start, 'EEE, MMM d, yyyy')
+    : `${format(start, 'MMM d')} - ${format(parseISO(absence.end_date), 'MMM d, yyyy')}`
+  return absence.hours === null ? period : `${period} · ${absence.hours}h per day`
+}
+
+interface AbsenceRequestsProps {
+  userId: string
+  onClose: () => void
+}
+
+export const AbsenceRequests: React.FC<AbsenceRequestsProps> = ({ userId, onClose }) => {
+  const { data: absenceTypes = [] } = useAbsenceTypes()
+  const { data: absences = [] } = useAbsences({ userId })
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const [formData, setFormData] = useState({
+    type_id: '',
+    start_date: today,
+    end_date: today,
+    hours: '',
+    note: ''
+  })
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (formData.end_date < formData.start_date) {
+      toast.error('The last day cannot be before the first day')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await requestAbsence({
+        user_id: userId,
+        type_id: formData.type_id,
+        start_date: formData.start_date,
+        end_date: formData.end_date,
+        hours: formData.hours ? Number(formData.hours) : null,
+        note: formData.note
+      })
+      toast.success('Time off requested')
+      setFormData({ ...formData, hours: '', note: '' })
+    } catch (error) {
+      console.error('Error requesting absence:', error)
+      toast.error('Failed to request time off')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const withdraw = async (absence: AbsenceWithRelations) => {
+    if (!confirm('Withdraw this request?')) return
+
+    try {
+      await withdrawAbsence(absence.id)
+      toast.success('Request withdrawn')
+    } catch (error) {
+      console.error('Error withdrawing absence:', error)
+      toast.error('Failed to withdraw request')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Time off</h2>
+            <p className="text-sm text-gray-500">Approved time off lowers the hours expected from you on those days</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <select
+                value={formData.type_id}
+                onChange={(e) => setFormData({ ...formData, type_id: e.target.value })}
+                className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              >
+                <option value="">Select type</option>
+                {absenceTypes.map(type => (
+                  <option key={type.id} value={type.id}>{type.name}</option>
+                ))}
+              </select>
+              <input
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  start_date: e.target.value,
+                  end_date: formData.end_date < e.target.value ? e.target.value : formData.end_date
+                })}
+                className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+              <input
+                type="date"
+                value={formData.end_date}
+                min={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="number"
+                min="0.25"
+                max="24"
+                step="0.25"
+                placeholder="Hours per day (whole day)"
+                value={formData.hours}
+                onChange={(e) => setFormData({ ...formData, hours: e.target.value })}
+                className="md:w-56 text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <input
+                type="text"
+                placeholder="Note"
+                value={formData.note}
+                onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                className="flex-1 text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex items-center justify-center space-x-2 bg-blue-600 text-white px-4 py-2 text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Request</span>
+              </button>
+            </div>
+          </form>
+
+          <div className="divide-y divide-gray-100 border-t border-gray-100">
+            {absences.map(absence => (
+              <div key={absence.id} className="flex items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: absence.type?.color }} />
+                    <span className="text-sm font-medium text-gray-900">{absence.type?.name}</span>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {formatPeriod(absence)}
+                    {absence.note && ` · ${absence.note}`}
+                  </p>
+                  {absence.status === 'rejected' && absence.review_comment && (
+                    <p className="text-xs text-red-600 mt-0.5">"{absence.review_comment}"</p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <AbsenceStatusBadge status={absence.status} />
+                  {absence.status === 'pending' && (
+                    <button
+                      onClick={() => withdraw(absence)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                      title="Withdraw"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {absences.length === 0 && (
+              <p className="py-6 text-sm text-gray-500 italic text-center">You have not requested any time off yet</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export const AbsenceReviews: React.FC = () => {
+  const { user } = useAuth()
+  const { data: pending = [] } = useAbsences({ statuses: ['pending'] })
+  const [comments, setComments] = useState<Record<string, string>>({})
+
+  const reviewAbsence = async (absence: AbsenceWithRelations, status: 'approved' | 'rejected') => {
+    if (!user) return
+
+    if (absence.user_id === user.id) {
+      toast.error('You cannot review your own time off')
+      return
+    }
+
+    const comment = (comments[absence.id] || '').trim()
+    if (status === 'rejected' && !comment) {
+      toast.error('Please add a comment explaining the rejection')
+      return
+    }
+
+    try {
+      await saveReview(absence.id, user.id, status, comment)
+      toast.success(status === 'approved' ? 'Time off approved' : 'Time off rejected')
+    } catch (error) {
+      console.error('Error reviewing absence:', error)
+      toast.error('Failed to review time off')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="flex items-center space-x-2 p-6 border-b border-gray-100">
+        <CalendarX className="w-5 h-5 text-blue-500" />
+        <h3 className="text-lg font-semibold text-gray-900">Time off requests</h3>
+        <span className="text-sm text-gray-500">({pending.length})</span>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {pending.map(absence => (
+          <div key={absence.id} className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 px-6 py-4">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900">{absence.user?.name}</p>
+              <p className="text-sm text-gray-500">
+                <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: absence.type?.color }} />
+                {absence.type?.name} · {formatPeriod(absence)}
+                {absence.note && ` · "${absence.note}"`}
+              </p>
+            </div>
+
+            {absence.user_id === user?.id ? (
+              <p className="text-sm text-gray-500 italic">You cannot review your own time off.</p>
+            ) : (
+              <div className="flex flex-col md:flex-row gap-3">
+                <input
+                  type="text"
+                  value={comments[absence.id] || ''}
+                  onChange={(e) => setComments({ ...comments, [absence.id]: e.target.value })}
+                  placeholder="Comment (required when rejecting)"
+                  className="px-3 py-2 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={() => reviewAbsence(absence, 'rejected')}
+                  className="flex items-center justify-center space-x-2 px-4 py-2 text-sm text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+                >
+                  <XCircle className="w-4 h-4" />
+                  <span>Reject</span>
+                </button>
+                <button
+                  onClick={() => reviewAbsence(absence, 'approved')}
+                  className="flex items-center justify-center space-x-2 px-4 py-2 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Approve</span>
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {pending.length === 0 && (
+          <p className="px-6 py-8 text-sm text-gray-500 italic text-center">No time off waiting for review</p>
+        )}
+      </div>
+    </div>
+  )
+}
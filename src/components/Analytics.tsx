@@ -0,0 +1,287 @@
+import React, { useState } from 'react'
+import { format, startOfWeek, endOfWeek, startOfMonth, subWeeks, subMonths, parseISO } from 'date-fns'
+import { BarChart3, Clock, Users, FolderOpen, TrendingUp, TrendingDown, Minus, Briefcase, ListChecks } from 'lucide-react'
+import { useTimeEntries } from '../hooks/useData'
+import { HoursGroup, WeekTotal, groupHours, byProject, byClient, byTask, byUser, weeklyTotals, percentChange } from '../lib/analytics'
+import { exportTimeEntries, ExportFormat } from '../lib/export'
+import { ExportMenu } from './ExportMenu'
+import toast from 'react-hot-toast'
+
+const presets = [
+  {
+    id: 'this-week',
+    name: 'This week',
+    range: () => ({
+      from: startOfWeek(new Date(), { weekStartsOn: 1 }),
+      to: endOfWeek(new Date(), { weekStartsOn: 1 })
+    })
+  },
+  {
+    id: 'last-4-weeks',
+    name: 'Last 4 weeks',
+    range: () => ({
+      from: startOfWeek(subWeeks(new Date(), 3), { weekStartsOn: 1 }),
+      to: endOfWeek(new Date(), { weekStartsOn: 1 })
+    })
+  },
+  {
+    id: 'this-month',
+    name: 'This month',
+    range: () => ({ from: startOfMonth(new Date()), to: new Date() })
+  },
+  {
+    id: 'last-3-months',
+    name: 'Last 3 months',
+    range: () => ({ from: startOfMonth(subMonths(new Date(), 2)), to: new Date() })
+  }
+]
+
+export const Analytics: React.FC = () => {
+  const defaultRange = presets[1].range()
+  const [from, setFrom] = useState(format(defaultRange.from, 'yyyy-MM-dd'))
+  const [to, setTo] = useState(format(defaultRange.to, 'yyyy-MM-dd'))
+  const { data: entries = [], loading } = useTimeEntries(from && to && from <= to ? { from, to } : null)
+
+  const applyPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId)
+    if (!preset) return
+    const range = preset.range()
+    setFrom(format(range.from, 'yyyy-MM-dd'))
+    setTo(format(range.to, 'yyyy-MM-dd'))
+  }
+
+  const exportRange = (fileFormat: ExportFormat) => {
+    if (entries.length === 0) {
+      toast.error('No time entries to export in this period')
+      return
+    }
+
+    exportTimeEntries(entries, {
+      filename: `team-timesheets-${from}-to-${to}`,
+      format: fileFormat,
+      includeUser: true
+    })
+  }
+
+  const totalHours = entries.reduce((total, entry) => total + entry.hours, 0)
+  const activeUsers = new Set(entries.map(entry => entry.user_id)).size
+  const activeProjects = new Set(entries.map(entry => entry.project_id)).size
+  const weeks = from && to && from <= to ? weeklyTotals(entries, from, to) : []
+  const lastWeek = weeks[weeks.length - 1]
+  const previousWeek = weeks[weeks.length - 2]
+  const weekChange = lastWeek && previousWeek ? percentChange(lastWeek.hours, previousWeek.hours) : null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
+          <p className="text-gray-600">Team hours across projects, clients, tasks and people</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {presets.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => applyPreset(preset.id)}
+              className="px-3 py-1.5 text-sm rounded-lg text-gray-600 hover:text-gray-900 hover:bg-white border border-transparent hover:border-gray-200 transition-colors"
+            >
+              {preset.name}
+            </button>
+          ))}
+          <div className="flex items-center space-x-2 bg-white border border-gray-200 rounded-lg px-3 py-1.5">
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+              className="text-sm text-gray-700 focus:outline-none"
+            />
+            <span className="text-gray-400">–</span>
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              className="text-sm text-gray-700 focus:outline-none"
+            />
+          </div>
+          <ExportMenu onExport={exportRange} disabled={loading || entries.length === 0} />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard icon={Clock} label="Total hours" value={`${totalHours.toFixed(1)}h`} />
+            <StatCard icon={Users} label="Active people" value={activeUsers.toString()} />
+            <StatCard icon={FolderOpen} label="Active projects" value={activeProjects.toString()} />
+            <StatCard
+              icon={BarChart3}
+              label="Avg. per person"
+              value={`${(activeUsers ? totalHours / activeUsers : 0).toFixed(1)}h`}
+            />
+          </div>
+
+          <WeeklyTrend weeks={weeks} change={weekChange} />
+
+          {entries.length === 0 ? (
+            <div className="text-center py-12 bg-white rounded-xl border border-gray-200">
+              <BarChart3 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No time logged in this period</h3>
+              <p className="text-gray-600">Pick a different date range to see team totals</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Breakdown title="By project" icon={FolderOpen} groups={groupHours(entries, byProject)} total={totalHours} />
+              <Breakdown title="By client" icon={Briefcase} groups={groupHours(entries, byClient)} total={totalHours} />
+              <Breakdown title="By task" icon={ListChecks} groups={groupHours(entries, byTask)} total={totalHours} />
+              <Breakdown title="By person" icon={Users} groups={groupHours(entries, byUser)} total={totalHours} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+interface StatCardProps {
+  icon: React.ElementType
+  label: string
+  value: string
+}
+
+const StatCard: React.FC<StatCardProps> = ({ icon: Icon, label, value }) => (
+  <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-5 flex items-center space-x-4">
+    <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-teal-500 rounded-lg flex items-center justify-center">
+      <Icon className="w-5 h-5 text-white" />
+    </div>
+    <div>
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="text-2xl font-semibold text-gray-900">{value}</p>
+    </div>
+  </div>
+)
+
+interface WeeklyTrendProps {
+  weeks: WeekTotal[]
+  change: number | null
+}
+
+const WeeklyTrend: React.FC<WeeklyTrendProps> = ({ weeks, change }) => {
+  const maxHours = Math.max(...weeks.map(week => week.hours), 1)
+  const TrendIcon = change === null || change === 0 ? Minus : change > 0 ? TrendingUp : TrendingDown
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Weekly trend</h3>
+          <p className="text-sm text-gray-500">Hours logged per week</p>
+        </div>
+        {weeks.length > 1 && (
+          <div
+            className={`flex items-center space-x-1 text-sm font-medium px-3 py-1 rounded-full ${
+              change === null || change === 0
+                ? 'bg-gray-100 text-gray-600'
+                : change > 0
+                  ? 'bg-green-50 text-green-700'
+                  : 'bg-red-50 text-red-700'
+            }`}
+          >
+            <TrendIcon className="w-4 h-4" />
+            <span>
+              {change === null ? 'New this week' : `${change > 0 ? '+' : ''}${change.toFixed(0)}% week over week`}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-end space-x-2 h-48">
+        {weeks.map((week, index) => {
+          const previous = weeks[index - 1]
+          const weekChange = previous ? percentChange(week.hours, previous.hours) : null
+
+          return (
+            <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full group">
+              <span className="text-xs font-medium text-gray-700 mb-1">{week.hours.toFixed(1)}h</span>
+              <div
+                className="w-full max-w-[48px] bg-gradient-to-t from-blue-500 to-teal-400 rounded-t-md transition-all duration-300 group-hover:from-blue-600 group-hover:to-teal-500"
+                style={{ height: `${(week.hours / maxHours) * 100}%`, minHeight: week.hours > 0 ? '4px' : '0' }}
+                title={weekChange === null ? undefined : `${weekChange > 0 ? '+' : ''}${weekChange.toFixed(0)}% vs previous week`}
+              />
+            </div>
+          )
+        })}
+      </div>
+      <div className="flex space-x-2 mt-2 border-t border-gray-100 pt-2">
+        {weeks.map(week => (
+          <div key={week.weekStart} className="flex-1 text-center text-xs text-gray-500">
+            {format(parseISO(week.weekStart), 'MMM d')}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface BreakdownProps {
+  title: string
+  icon: React.ElementType
+  groups: HoursGroup[]
+  total: number
+}
+
+const Breakdown: React.FC<BreakdownProps> = ({ title, icon: Icon, groups, total }) => {
+  const [showAll, setShowAll] = useState(false)
+  const visibleGroups = showAll ? groups : groups.slice(0, 8)
+  const maxHours = groups[0]?.hours || 1
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Icon className="w-5 h-5 text-blue-500" />
+          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        </div>
+        <span className="text-sm text-gray-500">{groups.length} total</span>
+      </div>
+
+      <div className="space-y-3">
+        {visibleGroups.map(group => (
+          <div key={group.key}>
+            <div className="flex items-baseline justify-between text-sm mb-1">
+              <div className="min-w-0 truncate">
+                <span className="font-medium text-gray-900">{group.label}</span>
+                {group.sublabel && <span className="text-gray-400 ml-2">{group.sublabel}</span>}
+              </div>
+              <div className="flex-shrink-0 ml-4 text-gray-600">
+                <span className="font-medium text-gray-900">{group.hours.toFixed(1)}h</span>
+                <span className="text-gray-400 ml-2">{total ? ((group.hours / total) * 100).toFixed(0) : 0}%</span>
+              </div>
+            </div>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-blue-500 to-teal-500 rounded-full"
+                style={{ width: `${(group.hours / maxHours) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {groups.length > 8 && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-4 text-sm text-blue-600 hover:text-blue-700"
+        >
+          {showAll ? 'Show less' : `Show all ${groups.length}`}
+        </button>
+      )}
+    </div>
+  )
+}
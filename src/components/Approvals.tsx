@@ -0,0 +1,236 @@
+import React, { useState } from 'react'
+import { format, addDays, parseISO, eachDayOfInterval } from 'date-fns'
+import { CheckCircle, XCircle, ChevronDown, ChevronRight, ClipboardCheck, Clock } from 'lucide-react'
+import { reviewTimesheet as saveReview } from '../lib/api'
+import type { TimeEntryWithRelations, TimesheetWithUsers } from '../lib/api'
+import { useAuth } from '../hooks/useAuth'
+import { useTimeEntries, useTimesheetsByStatus } from '../hooks/useData'
+import { TimesheetStatusBadge } from './TimesheetStatusBadge'
+import { AbsenceReviews } from './Absences'
+import toast from 'react-hot-toast'
+
+const weekEndOf = (weekStart: string) => format(addDays(parseISO(weekStart), 6), 'yyyy-MM-dd')
+
+export const Approvals: React.FC = () => {
+  const { user } = useAuth()
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const { data: queue = [], loading: queueLoading } = useTimesheetsByStatus(['submitted'])
+  const { data: reviewed = [] } = useTimesheetsByStatus(['approved', 'rejected'], 20)
+
+  const weekStarts = queue.map(sheet => sheet.week_start).sort()
+  const { data: entries = [], loading: entriesLoading } = useTimeEntries(queue.length > 0 ? {
+    userIds: [...new Set(queue.map(sheet => sheet.user_id))].sort(),
+    from: weekStarts[0],
+    to: weekEndOf(weekStarts[weekStarts.length - 1])
+  } : null)
+  const loading = queueLoading || entriesLoading
+
+  const reviewTimesheet = async (sheet: TimesheetWithUsers, status: 'approved' | 'rejected', comment: string) => {
+    if (!user) return
+
+    if (sheet.user_id === user.id) {
+      toast.error('You cannot review your own timesheet')
+      return
+    }
+
+    if (status === 'rejected' && !comment.trim()) {
+      toast.error('Please add a comment explaining the rejection')
+      return
+    }
+
+    try {
+      await saveReview(sheet.id, user.id, status, comment.trim())
+      toast.success(status === 'approved' ? 'Timesheet approved' : 'Timesheet rejected')
+      setExpanded(null)
+    } catch (error) {
+      console.error('Error reviewing timesheet:', error)
+      toast.error((error as Error).message || 'Failed to review timesheet')
+    }
+  }
+
+  const getSheetEntries = (sheet: TimesheetWithUsers) => {
+    const weekEnd = weekEndOf(sheet.week_start)
+    return entries.filter(entry =>
+      entry.user_id === sheet.user_id && entry.date >= sheet.week_start && entry.date <= weekEnd
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Approvals</h1>
+        <p className="text-gray-600">Review submitted timesheets and time off requests from your team</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="flex items-center space-x-2 p-6 border-b border-gray-100">
+          <ClipboardCheck className="w-5 h-5 text-blue-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Waiting for review</h3>
+          <span className="text-sm text-gray-500">({queue.length})</span>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {queue.map(sheet => (
+            <QueueItem
+              key={sheet.id}
+              sheet={sheet}
+              entries={getSheetEntries(sheet)}
+              isOwn={sheet.user_id === user?.id}
+              isExpanded={expanded === sheet.id}
+              onToggle={() => setExpanded(expanded === sheet.id ? null : sheet.id)}
+              onReview={(status, comment) => reviewTimesheet(sheet, status, comment)}
+            />
+          ))}
+
+          {queue.length === 0 && (
+            <div className="text-center py-12">
+              <CheckCircle className="w-12 h-12 text-green-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">All caught up</h3>
+              <p className="text-gray-600">There are no timesheets waiting for review</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AbsenceReviews />
+
+      {reviewed.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="flex items-center space-x-2 p-6 border-b border-gray-100">
+            <Clock className="w-5 h-5 text-gray-400" />
+            <h3 className="text-lg font-semibold text-gray-900">Recently reviewed</h3>
+          </div>
+
+          <div className="divide-y divide-gray-100">
+            {reviewed.map(sheet => (
+              <div key={sheet.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 px-6 py-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{sheet.user?.name}</p>
+                  <p className="text-xs text-gray-500">
+                    Week of {format(parseISO(sheet.week_start), 'MMM d, yyyy')}
+                    {sheet.reviewer && ` · reviewed by ${sheet.reviewer.name}`}
+                    {sheet.review_comment && ` · "${sheet.review_comment}"`}
+                  </p>
+                </div>
+                <TimesheetStatusBadge status={sheet.status} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface QueueItemProps {
+  sheet: TimesheetWithUsers
+  entries: TimeEntryWithRelations[]
+  isOwn: boolean
+  isExpanded: boolean
+  onToggle: () => void
+  onReview: (status: 'approved' | 'rejected', comment: string) => void
+}
+
+const QueueItem: React.FC<QueueItemProps> = ({ sheet, entries, isOwn, isExpanded, onToggle, onReview }) => {
+  const [comment, setComment] = useState('')
+  const totalHours = entries.reduce((total, entry) => total + entry.hours, 0)
+  const days = eachDayOfInterval({ start: parseISO(sheet.week_start), end: parseISO(weekEndOf(sheet.week_start)) })
+  const Chevron = isExpanded ? ChevronDown : ChevronRight
+
+  return (
+    <div>
+      <button
+        onClick={onToggle}
+        className="w-full flex items-center justify-between px-6 py-4 hover:bg-gray-50 transition-colors text-left"
+      >
+        <div className="flex items-center space-x-3">
+          <Chevron className="w-4 h-4 text-gray-400" />
+          <div className="w-9 h-9 bg-gradient-to-r from-blue-500 to-teal-500 rounded-full flex items-center justify-center">
+            <span className="text-white text-sm font-medium">{sheet.user?.name?.charAt(0).toUpperCase()}</span>
+          </div>
+          <div>
+            <p className="font-medium text-gray-900">{sheet.user?.name}</p>
+            <p className="text-sm text-gray-500">
+              {format(parseISO(sheet.week_start), 'MMM d')} - {format(parseISO(weekEndOf(sheet.week_start)), 'MMM d, yyyy')}
+            </p>
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="text-lg font-semibold text-gray-900">{totalHours.toFixed(1)}h</p>
+          {sheet.submitted_at && (
+            <p className="text-xs text-gray-500">Submitted {format(parseISO(sheet.submitted_at), 'MMM d, HH:mm')}</p>
+          )}
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="px-6 pb-6 space-y-4">
+          <div className="grid grid-cols-7 gap-2">
+            {days.map(day => {
+              const dateStr = format(day, 'yyyy-MM-dd')
+              const dayEntries = entries.filter(entry => entry.date === dateStr)
+
+              return (
+                <div key={dateStr} className="bg-gray-50 rounded-lg p-2 min-h-[80px]">
+                  <div className="flex items-baseline justify-between mb-2">
+                    <span className="text-xs font-medium text-gray-700">{format(day, 'EEE d')}</span>
+                    <span className="text-xs text-blue-600">
+                      {dayEntries.reduce((total, entry) => total + entry.hours, 0).toFixed(1)}h
+                    </span>
+                  </div>
+                  <div className="space-y-1">
+                    {dayEntries.map(entry => (
+                      <div key={entry.id} className="bg-white rounded p-1.5 text-xs" title={entry.description}>
+                        <div className="font-medium text-gray-900 truncate">{entry.project?.name}</div>
+                        {entry.task && <div className="text-gray-500 truncate">{entry.task.name}</div>}
+                        <div className="text-gray-500">
+                          {entry.start_time.slice(0, 5)} - {entry.end_time.slice(0, 5)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          {isOwn ? (
+            <p className="text-sm text-gray-500 italic">You cannot review your own timesheet.</p>
+          ) : (
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="text"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Comment (required when rejecting)"
+                className="flex-1 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={() => onReview('rejected', comment)}
+                className="flex items-center justify-center space-x-2 px-4 py-2 text-sm text-red-600 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+              >
+                <XCircle className="w-4 h-4" />
+                <span>Reject</span>
+              </button>
+              <button
+                onClick={() => onReview('approved', comment)}
+                className="flex items-center justify-center space-x-2 px-4 py-2 text-sm text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors"
+              >
+                <CheckCircle className="w-4 h-4" />
+                <span>Approve</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
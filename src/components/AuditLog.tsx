@@ -0,0 +1,251 @@
+import React, { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { History, X } from 'lucide-react'
+import { AUDIT_LOG_LIMIT } from '../lib/api'
+import type { AuditAction, AuditEntry, AuditTable } from '../lib/api'
+import { useAuditLog, useClients, useProjects, useRecordHistory, useTasks, useUsers } from '../hooks/useData'
+import { useRoute } from '../hooks/useRoute'
+import { updateQuery } from '../lib/router'
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TABLES,
+  AuditLookups,
+  auditActionLabel,
+  auditActorName,
+  auditChanges,
+  auditRecordLabel
+} from '../lib/audit'
+
+const actionClasses: Record<AuditAction, string> = {
+  insert: 'bg-green-50 text-green-700',
+  update: 'bg-blue-50 text-blue-700',
+  delete: 'bg-red-50 text-red-700'
+}
+
+const useAuditLookups = (): AuditLookups => {
+  const { data: users = [] } = useUsers()
+  const { data: projects = [] } = useProjects()
+  const { data: tasks = [] } = useTasks()
+  const { data: clients = [] } = useClients()
+  return { users, projects, tasks, clients }
+}
+
+const AuditChanges: React.FC<{ entry: AuditEntry; lookups: AuditLookups }> = ({ entry, lookups }) => {
+  const changes = auditChanges(entry, lookups)
+
+  if (changes.length === 0) {
+    return <p className="text-xs text-gray-400 italic">No visible fields changed</p>
+  }
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+      {changes.map(change => (
+        <React.Fragment key={change.field}>
+          <dt className="text-gray-500">{change.label}</dt>
+          <dd className="text-gray-900 break-words">
+            {entry.action === 'update' ? (
+              <>
+                <span className="text-red-600 line-through">{change.before}</span>
+                <span className="text-gray-400"> → </span>
+                <span className="text-green-700">{change.after}</span>
+              </>
+            ) : entry.action === 'delete' ? change.before : change.after}
+          </dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  )
+}
+
+interface RecordHistoryProps {
+  table: AuditTable
+  recordId: string
+  title: string
+  onClose: () => void
+}
+
+export const RecordHistory: React.FC<RecordHistoryProps> = ({ table, recordId, title, onClose }) => {
+  const { data: history = [], loading } = useRecordHistory(table, recordId)
+  const lookups = useAuditLookups()
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-900">History</h2>
+            <p className="text-sm text-gray-500 truncate">{title}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-gray-500 italic text-center">No changes recorded</p>
+          ) : (
+            <ol className="space-y-4">
+              {history.map(entry => (
+                <li key={entry.id} className="border-l-2 border-gray-200 pl-4">
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">{auditActorName(entry, lookups.users)}</span>
+                    <span className="text-gray-500"> · {auditActionLabel(entry.action).toLowerCase()} · </span>
+                    <span className="text-gray-500">{format(parseISO(entry.changed_at), 'MMM d, yyyy HH:mm')}</span>
+                  </p>
+                  <div className="mt-1">
+                    <AuditChanges entry={entry} lookups={lookups} />
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export const AuditLog: React.FC = () => {
+  const { query } = useRoute()
+  const lookups = useAuditLookups()
+  const filters = {
+    table: AUDIT_TABLES.find(option => option.value === query.table)?.value,
+    action: AUDIT_ACTIONS.find(option => option.value === query.action)?.value,
+    actorId: query.user,
+    from: query.from,
+    to: query.to
+  }
+  const { data: entries = [], loading } = useAuditLog(filters)
+  const [selected, setSelected] = useState<AuditEntry | null>(null)
+
+  const hasFilters = Object.values(filters).some(Boolean)
+  const filterClassName = 'text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-600">Who changed which time entries, projects and tasks, and what they changed</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={filters.table || ''}
+          onChange={(e) => updateQuery({ table: e.target.value })}
+          className={filterClassName}
+        >
+          <option value="">All records</option>
+          {AUDIT_TABLES.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={filters.action || ''}
+          onChange={(e) => updateQuery({ action: e.target.value })}
+          className={filterClassName}
+        >
+          <option value="">All changes</option>
+          {AUDIT_ACTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          value={filters.actorId || ''}
+          onChange={(e) => updateQuery({ user: e.target.value })}
+          className={filterClassName}
+        >
+          <option value="">Everyone</option>
+          {lookups.users.map(user => (
+            <option key={user.id} value={user.id}>{user.name}</option>
+          ))}
+        </select>
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>From</span>
+          <input
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => updateQuery({ from: e.target.value })}
+            className={filterClassName}
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={filters.to || ''}
+            min={filters.from}
+            onChange={(e) => updateQuery({ to: e.target.value })}
+            className={filterClassName}
+          />
+        </div>
+        {hasFilters && (
+          <button
+            onClick={() => updateQuery({ table: undefined, action: undefined, user: undefined, from: undefined, to: undefined })}
+            className="text-sm text-blue-600 hover:text-blue-700"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {entries.map(entry => (
+              <div key={entry.id} className="flex flex-col lg:flex-row gap-3 px-6 py-4">
+                <div className="lg:w-64 flex-shrink-0">
+                  <p className="text-sm font-medium text-gray-900">{auditActorName(entry, lookups.users)}</p>
+                  <p className="text-xs text-gray-500">{format(parseISO(entry.changed_at), 'MMM d, yyyy HH:mm:ss')}</p>
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${actionClasses[entry.action]}`}>
+                      {auditActionLabel(entry.action)}
+                    </span>
+                    <span className="text-gray-500">
+                      {AUDIT_TABLES.find(option => option.value === entry.table_name)?.label}
+                    </span>
+                    <button
+                      onClick={() => setSelected(entry)}
+                      className="flex items-center space-x-1 text-gray-900 hover:text-blue-600 truncate"
+                      title="Show the full history of this record"
+                    >
+                      <span className="truncate">{auditRecordLabel(entry, lookups)}</span>
+                      <History className="w-3.5 h-3.5 flex-shrink-0" />
+                    </button>
+                  </div>
+                  <AuditChanges entry={entry} lookups={lookups} />
+                </div>
+              </div>
+            ))}
+
+            {entries.length === 0 && (
+              <p className="px-6 py-8 text-sm text-gray-500 italic text-center">No changes match these filters</p>
+            )}
+            {entries.length === AUDIT_LOG_LIMIT && (
+              <p className="px-6 py-3 text-xs text-gray-500 text-center">
+                Showing the latest {AUDIT_LOG_LIMIT} changes. Narrow the filters to see older ones.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <RecordHistory
+          table={selected.table_name}
+          recordId={selected.record_id}
+          title={auditRecordLabel(selected, lookups)}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  )
+}
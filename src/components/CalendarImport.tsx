@@ -0,0 +1,263 @@
+import React, { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { CalendarDays, Plus, Trash2, Upload, X } from 'lucide-react'
+import { createCalendarRule, deleteCalendarRule, importCalendarSuggestions } from '../lib/api'
+import type { Project, Task } from '../lib/api'
+import { useCalendarRules } from '../hooks/useData'
+import { CalendarEvent, matchKeywordRule, parseCalendar } from '../lib/ical'
+import { projectOptionLabel, projectsForEntry } from '../lib/projects'
+import toast from 'react-hot-toast'
+
+interface CalendarImportProps {
+  userId: string
+  projects: Project[]
+  tasks: Task[]
+  from: string
+  to: string
+  onClose: () => void
+}
+
+export const CalendarImport: React.FC<CalendarImportProps> = ({ userId, projects, tasks, from, to, onClose }) => {
+  const { data: rules = [] } = useCalendarRules(userId)
+  const [range, setRange] = useState({ from, to })
+  const [calendarText, setCalendarText] = useState('')
+  const [fileName, setFileName] = useState('')
+  const [importing, setImporting] = useState(false)
+  const [rule, setRule] = useState({ keyword: '', project_id: '', task_id: '', billable: true })
+
+  const events: CalendarEvent[] = calendarText ? parseCalendar(calendarText, range.from, range.to) : []
+  const projectName = (id: string) => projects.find(p => p.id === id)?.name || 'Unknown project'
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const text = await file.text()
+    if (!text.includes('BEGIN:VCALENDAR')) {
+      toast.error('This is not an iCalendar (.ics) file')
+      return
+    }
+
+    setFileName(file.name)
+    setCalendarText(text)
+  }
+
+  const importEvents = async () => {
+    if (events.length === 0) return
+
+    setImporting(true)
+    try {
+      const added = await importCalendarSuggestions(events.map(event => ({ ...event, user_id: userId })))
+      toast.success(
+        added === events.length
+          ? `Added ${added} ${added === 1 ? 'suggestion' : 'suggestions'}`
+          : `Added ${added} new ${added === 1 ? 'suggestion' : 'suggestions'}, ${events.length - added} were imported before`
+      )
+      onClose()
+    } catch (error) {
+      console.error('Error importing calendar:', error)
+      toast.error('Failed to import calendar')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const addRule = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      await createCalendarRule({
+        user_id: userId,
+        keyword: rule.keyword.trim(),
+        project_id: rule.project_id,
+        task_id: rule.task_id || null,
+        billable: rule.billable
+      })
+      setRule({ keyword: '', project_id: '', task_id: '', billable: true })
+    } catch (error) {
+      console.error('Error adding calendar rule:', error)
+      toast.error('Failed to add rule')
+    }
+  }
+
+  const removeRule = async (id: string) => {
+    try {
+      await deleteCalendarRule(id)
+    } catch (error) {
+      console.error('Error removing calendar rule:', error)
+      toast.error('Failed to remove rule')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Import calendar</h2>
+            <p className="text-sm text-gray-500">Events become draft entries in your week for you to confirm</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-600 bg-white border border-gray-200 rounded-lg hover:border-gray-300 cursor-pointer transition-colors">
+              <Upload className="w-4 h-4" />
+              <span>{fileName || 'Choose .ics file'}</span>
+              <input type="file" accept=".ics,text/calendar" onChange={handleFile} className="hidden" />
+            </label>
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <span>Events from</span>
+              <input
+                type="date"
+                value={range.from}
+                onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+                className="border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+                className="border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {calendarText && (
+            events.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">No timed events in this period</p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Date</th>
+                      <th className="px-3 py-2 text-left font-medium">Time</th>
+                      <th className="px-3 py-2 text-left font-medium">Event</th>
+                      <th className="px-3 py-2 text-left font-medium">Project</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {events.map(event => {
+                      const match = matchKeywordRule(event, rules)
+
+                      return (
+                        <tr key={`${event.uid}|${event.date}`}>
+                          <td className="px-3 py-2 whitespace-nowrap">{format(parseISO(event.date), 'EEE, MMM d')}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">{event.start_time} - {event.end_time}</td>
+                          <td className="px-3 py-2 max-w-[260px] truncate">{event.summary}</td>
+                          <td className="px-3 py-2">
+                            {match ? projectName(match.project_id) : <span className="text-gray-400">No matching rule</span>}
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )
+          )}
+
+          <div className="border-t border-gray-100 pt-6 space-y-3">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900">Keyword rules</h3>
+              <p className="text-xs text-gray-500">
+                Events whose title or description contains the keyword are booked on the project. The first matching rule wins.
+              </p>
+            </div>
+
+            {rules.map(existing => (
+              <div key={existing.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <CalendarDays className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                  <span className="font-medium text-gray-900">"{existing.keyword}"</span>
+                  <span className="text-gray-500 truncate">
+                    → {projectName(existing.project_id)}
+                    {existing.task_id && ` · ${tasks.find(t => t.id === existing.task_id)?.name || ''}`}
+                    {!existing.billable && ' · non-billable'}
+                  </span>
+                </div>
+                <button
+                  onClick={() => removeRule(existing.id)}
+                  className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+
+            <form onSubmit={addRule} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto_auto] gap-2 items-center">
+              <input
+                type="text"
+                value={rule.keyword}
+                onChange={(e) => setRule({ ...rule, keyword: e.target.value })}
+                placeholder="Keyword, e.g. Acme"
+                className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+              <select
+                value={rule.project_id}
+                onChange={(e) => setRule({ ...rule, project_id: e.target.value, task_id: '' })}
+                className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              >
+                <option value="">Select project</option>
+                {projectsForEntry(projects).map(project => (
+                  <option key={project.id} value={project.id}>{projectOptionLabel(project)}</option>
+                ))}
+              </select>
+              <select
+                value={rule.task_id}
+                onChange={(e) => setRule({ ...rule, task_id: e.target.value })}
+                className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">No task</option>
+                {tasks.filter(task => task.project_id === rule.project_id).map(task => (
+                  <option key={task.id} value={task.id}>{task.name}</option>
+                ))}
+              </select>
+              <label className="flex items-center space-x-1 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={rule.billable}
+                  onChange={(e) => setRule({ ...rule, billable: e.target.checked })}
+                />
+                <span>Billable</span>
+              </label>
+              <button
+                type="submit"
+                className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </form>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={importEvents}
+            disabled={importing || events.length === 0}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CalendarDays className="w-4 h-4" />
+            <span>
+              {importing ? 'Importing...' : `Suggest ${events.length} ${events.length === 1 ? 'entry' : 'entries'}`}
+            </span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
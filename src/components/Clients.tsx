@@ -0,0 +1,436 @@
+import React, { useState } from 'react'
+import { format } from 'date-fns'
+import { Plus, Edit, Trash2, Save, X, Building2, ArrowLeft, Mail, Phone, MapPin, User, FolderOpen, Clock } from 'lucide-react'
+import { createClient, deleteClient as removeClient, updateClient } from '../lib/api'
+import type { Client } from '../lib/api'
+import { useAuth } from '../hooks/useAuth'
+import { useClients, useProjectHours, useProjects } from '../hooks/useData'
+import { useRoute } from '../hooks/useRoute'
+import { navigate } from '../lib/router'
+import toast from 'react-hot-toast'
+
+export const Clients: React.FC = () => {
+  const { user } = useAuth()
+  // Everyone can look clients up, only supervisors and managers change them
+  const canManage = user?.role === 'supervisor' || user?.role === 'manager'
+  const { data: clients = [], loading } = useClients()
+  const { data: projects = [] } = useProjects()
+  const [showNewClient, setShowNewClient] = useState(false)
+  const { id: selectedClient } = useRoute()
+  const setSelectedClient = (id: string | null) => navigate({ view: 'clients', id })
+
+  const saveClient = async (clientData: Partial<Client>) => {
+    const name = clientData.name!.trim()
+    if (clients.some(client => client.id !== clientData.id && client.name.toLowerCase() === name.toLowerCase())) {
+      toast.error('A client with this name already exists')
+      return false
+    }
+
+    try {
+      if (clientData.id) {
+        await updateClient(clientData.id, { ...clientData, name })
+        toast.success('Client updated successfully')
+      } else {
+        await createClient({ ...clientData, name })
+        toast.success('Client created successfully')
+      }
+
+      setShowNewClient(false)
+      return true
+    } catch (error) {
+      console.error('Error saving client:', error)
+      toast.error('Failed to save client')
+      return false
+    }
+  }
+
+  const deleteClient = async (client: Client) => {
+    if (projects.some(project => project.client_id === client.id)) {
+      toast.error('Move or delete this client\'s projects first')
+      return
+    }
+
+    if (!confirm(`Are you sure you want to delete ${client.name}?`)) {
+      return
+    }
+
+    try {
+      await removeClient(client.id)
+      toast.success('Client deleted successfully')
+      setSelectedClient(null)
+    } catch (error) {
+      console.error('Error deleting client:', error)
+      toast.error('Failed to delete client')
+    }
+  }
+
+  const client = clients.find(c => c.id === selectedClient)
+  if (client) {
+    return (
+      <ClientDetail
+        client={client}
+        canManage={canManage}
+        onSave={saveClient}
+        onDelete={() => deleteClient(client)}
+        onBack={() => setSelectedClient(null)}
+      />
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Clients</h1>
+          <p className="text-gray-600">The companies you work for and bill</p>
+        </div>
+
+        {canManage && (
+          <button
+            onClick={() => setShowNewClient(true)}
+            className="flex items-center space-x-2 bg-gradient-to-r from-blue-500 to-teal-500 text-white px-4 py-2 rounded-lg hover:from-blue-600 hover:to-teal-600 transition-all duration-200"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Client</span>
+          </button>
+        )}
+      </div>
+
+      {showNewClient && canManage && (
+        <ClientForm
+          onSave={saveClient}
+          onCancel={() => setShowNewClient(false)}
+        />
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="divide-y divide-gray-100">
+          {clients.map(c => {
+            const projectCount = projects.filter(project => project.client_id === c.id).length
+
+            return (
+              <button
+                key={c.id}
+                onClick={() => setSelectedClient(c.id)}
+                className="w-full flex items-center justify-between px-6 py-4 hover:bg-gray-50 transition-colors text-left"
+              >
+                <div className="flex items-center space-x-3">
+                  <div className="w-9 h-9 bg-gradient-to-r from-blue-500 to-teal-500 rounded-lg flex items-center justify-center">
+                    <Building2 className="w-4 h-4 text-white" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">{c.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {c.contact_name || 'No contact'} · {c.currency}
+                    </p>
+                  </div>
+                </div>
+                <span className="text-sm text-gray-500">
+                  {projectCount} {projectCount === 1 ? 'project' : 'projects'}
+                </span>
+              </button>
+            )
+          })}
+
+          {clients.length === 0 && (
+            <div className="text-center py-12">
+              <Building2 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No clients yet</h3>
+              <p className="text-gray-600">Add a client before creating its projects</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface ClientDetailProps {
+  client: Client
+  canManage: boolean
+  onSave: (client: Partial<Client>) => Promise<boolean>
+  onDelete: () => void
+  onBack: () => void
+}
+
+const ClientDetail: React.FC<ClientDetailProps> = ({ client, canManage, onSave, onDelete, onBack }) => {
+  const { data: projects = [] } = useProjects()
+  const [editing, setEditing] = useState(false)
+
+  const clientProjects = projects
+    .filter(project => project.client_id === client.id)
+    .sort((a, b) => a.name.localeCompare(b.name))
+  const { data: hours = {}, loading } = useProjectHours(clientProjects.map(project => project.id))
+  const totalHours = Object.values(hours).reduce((total, projectHours) => total + projectHours, 0)
+
+  const contactDetails = [
+    { icon: User, value: client.contact_name },
+    { icon: Mail, value: client.email },
+    { icon: Phone, value: client.phone },
+    { icon: MapPin, value: client.address }
+  ].filter(detail => detail.value)
+
+  return (
+    <div className="space-y-6">
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>Back to clients</span>
+      </button>
+
+      {editing ? (
+        <ClientForm
+          client={client}
+          onSave={async (clientData) => {
+            if (await onSave(clientData)) setEditing(false)
+          }}
+          onCancel={() => setEditing(false)}
+        />
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start space-x-4">
+              <div className="w-12 h-12 bg-gradient-to-r from-blue-500 to-teal-500 rounded-lg flex items-center justify-center">
+                <Building2 className="w-6 h-6 text-white" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">{client.name}</h1>
+                <p className="text-sm text-gray-500">Billed in {client.currency}</p>
+                <div className="mt-3 space-y-1">
+                  {contactDetails.map(({ icon: Icon, value }) => (
+                    <div key={value} className="flex items-center space-x-2 text-sm text-gray-600">
+                      <Icon className="w-4 h-4 text-gray-400" />
+                      <span className="whitespace-pre-line">{value}</span>
+                    </div>
+                  ))}
+                </div>
+                {client.notes && <p className="text-gray-600 mt-3 whitespace-pre-line">{client.notes}</p>}
+              </div>
+            </div>
+
+            {canManage && (
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setEditing(true)}
+                  className="p-2 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded-lg transition-colors"
+                >
+                  <Edit className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={onDelete}
+                  className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div className="flex items-center space-x-2">
+            <FolderOpen className="w-5 h-5 text-blue-500" />
+            <h3 className="text-lg font-semibold text-gray-900">Projects</h3>
+            <span className="text-sm text-gray-500">({clientProjects.length})</span>
+          </div>
+          <div className="flex items-center space-x-2 text-gray-900">
+            <Clock className="w-4 h-4 text-gray-400" />
+            <span className="text-lg font-semibold">{loading ? '...' : `${totalHours.toFixed(1)}h`}</span>
+            <span className="text-sm text-gray-500">total</span>
+          </div>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {clientProjects.map(project => (
+            <div key={project.id} className="flex items-center justify-between px-6 py-4">
+              <div>
+                <button
+                  onClick={() => navigate({ view: 'projects', id: project.id })}
+                  className="font-medium text-gray-900 hover:text-blue-600"
+                >
+                  {project.name}
+                </button>
+                <p className="text-sm text-gray-500">Started {format(new Date(project.start_date), 'MMM d, yyyy')}</p>
+              </div>
+              <span className="text-sm font-medium text-blue-600">{(hours[project.id] || 0).toFixed(1)}h</span>
+            </div>
+          ))}
+
+          {clientProjects.length === 0 && (
+            <p className="px-6 py-8 text-sm text-gray-500 italic text-center">No projects for this client yet</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface ClientFormProps {
+  client?: Client
+  onSave: (client: Partial<Client>) => void
+  onCancel: () => void
+}
+
+const ClientForm: React.FC<ClientFormProps> = ({ client, onSave, onCancel }) => {
+  const [formData, setFormData] = useState({
+    name: client?.name || '',
+    contact_name: client?.contact_name || '',
+    email: client?.email || '',
+    phone: client?.phone || '',
+    address: client?.address || '',
+    currency: client?.currency || 'EUR',
+    notes: client?.notes || ''
+  })
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim()) {
+      toast.error('Please enter a client name')
+      return
+    }
+
+    const currency = formData.currency.trim().toUpperCase()
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      toast.error('Currency must be a three-letter code such as EUR or USD')
+      return
+    }
+
+    onSave({
+      ...(client ? { id: client.id } : {}),
+      ...formData,
+      currency
+    })
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  return (
+    <div className="bg-blue-50 border-2 border-blue-200 rounded-xl p-6">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Client Name *
+            </label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className={inputClass}
+              placeholder="Company name"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Billing Currency
+            </label>
+            <input
+              type="text"
+              value={formData.currency}
+              onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+              className={`${inputClass} uppercase`}
+              maxLength={3}
+              placeholder="EUR"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Contact Person
+            </label>
+            <input
+              type="text"
+              value={formData.contact_name}
+              onChange={(e) => setFormData({ ...formData, contact_name: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Email
+            </label>
+            <input
+              type="email"
+              value={formData.email}
+              onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Phone
+            </label>
+            <input
+              type="tel"
+              value={formData.phone}
+              onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Address
+            </label>
+            <textarea
+              value={formData.address}
+              onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Notes
+            </label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center space-x-1 px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            <span>Cancel</span>
+          </button>
+          <button
+            type="submit"
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>{client ? 'Update' : 'Create'} Client</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
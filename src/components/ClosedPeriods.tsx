@@ -0,0 +1,159 @@
+import React, { useState } from 'react'
+import { endOfMonth, format, parseISO, startOfMonth, subMonths } from 'date-fns'
+import { Lock, Unlock } from 'lucide-react'
+import { closePeriod, reopenPeriod } from '../lib/api'
+import type { ClosedPeriod } from '../lib/api'
+import { useAuth } from '../hooks/useAuth'
+import { useClosedPeriods, useUsers } from '../hooks/useData'
+import { formatClosedPeriod, periodsOverlap } from '../lib/periods'
+import toast from 'react-hot-toast'
+
+export const ClosedPeriods: React.FC = () => {
+  const { user } = useAuth()
+  const { data: periods = [] } = useClosedPeriods()
+  const { data: users = [] } = useUsers()
+  const lastMonth = subMonths(new Date(), 1)
+  const [range, setRange] = useState({
+    start_date: format(startOfMonth(lastMonth), 'yyyy-MM-dd'),
+    end_date: format(endOfMonth(lastMonth), 'yyyy-MM-dd')
+  })
+  const [reasons, setReasons] = useState<Record<string, string>>({})
+
+  const userName = (id: string | null) => users.find(u => u.id === id)?.name || 'a former user'
+
+  const close = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    if (range.end_date < range.start_date) {
+      toast.error('The last day cannot be before the first day')
+      return
+    }
+
+    const overlapping = periods.find(period => !period.reopened_at && periodsOverlap(period, range.start_date, range.end_date))
+    if (overlapping) {
+      toast.error(`Overlaps the closed period ${formatClosedPeriod(overlapping)}`)
+      return
+    }
+
+    if (!confirm(`Close ${formatClosedPeriod(range)}? Time entries in it can no longer be added, changed or deleted.`)) return
+
+    try {
+      await closePeriod(range.start_date, range.end_date, user.id)
+      toast.success('Period closed')
+    } catch (error) {
+      console.error('Error closing period:', error)
+      toast.error('Failed to close period')
+    }
+  }
+
+  const reopen = async (period: ClosedPeriod) => {
+    if (!user) return
+
+    const reason = (reasons[period.id] || '').trim()
+    if (!reason) {
+      toast.error('Please give a reason for reopening')
+      return
+    }
+
+    try {
+      await reopenPeriod(period.id, user.id, reason)
+      setReasons({ ...reasons, [period.id]: '' })
+      toast.success('Period reopened')
+    } catch (error) {
+      console.error('Error reopening period:', error)
+      toast.error('Failed to reopen period')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-6 border-b border-gray-100">
+        <div className="flex items-center space-x-2">
+          <Lock className="w-5 h-5 text-blue-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Closed Periods</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">Close a period once payroll has run so its time entries can no longer change</p>
+      </div>
+
+      <div className="p-6 space-y-2">
+        <form onSubmit={close} className="flex flex-wrap items-center gap-2 pb-2">
+          <input
+            type="date"
+            value={range.start_date}
+            onChange={(e) => setRange({ ...range, start_date: e.target.value })}
+            className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={range.end_date}
+            min={range.start_date}
+            onChange={(e) => setRange({ ...range, end_date: e.target.value })}
+            className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+          <button
+            type="submit"
+            className="flex items-center space-x-2 bg-blue-600 text-white px-3 py-1.5 text-sm rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Lock className="w-4 h-4" />
+            <span>Close period</span>
+          </button>
+        </form>
+
+        {periods.map(period => (
+          <div key={period.id} className="p-3 bg-gray-50 rounded-lg space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="text-sm min-w-0">
+                <span className="font-medium text-gray-900">{formatClosedPeriod(period)}</span>
+                <span className="text-gray-500">
+                  {' · '}closed by {userName(period.closed_by)} on {format(parseISO(period.closed_at), 'MMM d, yyyy')}
+                </span>
+              </div>
+              {period.reopened_at ? (
+                <span className="flex items-center space-x-1 text-xs font-medium text-amber-700 bg-amber-50 rounded-full px-2.5 py-1">
+                  <Unlock className="w-3.5 h-3.5" />
+                  <span>Reopened</span>
+                </span>
+              ) : (
+                <span className="flex items-center space-x-1 text-xs font-medium text-gray-700 bg-gray-200 rounded-full px-2.5 py-1">
+                  <Lock className="w-3.5 h-3.5" />
+                  <span>Closed</span>
+                </span>
+              )}
+            </div>
+
+            {period.reopened_at ? (
+              <p className="text-xs text-gray-500">
+                Reopened by {userName(period.reopened_by)} on {format(parseISO(period.reopened_at), 'MMM d, yyyy HH:mm')}: "{period.reopen_reason}"
+              </p>
+            ) : (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={reasons[period.id] || ''}
+                  onChange={(e) => setReasons({ ...reasons, [period.id]: e.target.value })}
+                  placeholder="Reason for reopening"
+                  className="flex-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={() => reopen(period)}
+                  className="flex items-center space-x-1 px-3 py-1.5 text-sm text-amber-700 bg-amber-50 rounded-lg hover:bg-amber-100 transition-colors"
+                >
+                  <Unlock className="w-4 h-4" />
+                  <span>Reopen</span>
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {periods.length === 0 && (
+          <p className="text-sm text-gray-500 italic">No periods have been closed yet</p>
+        )}
+      </div>
+    </div>
+  )
+}
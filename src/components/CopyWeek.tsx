@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react'
+import { Copy, X } from 'lucide-react'
+import { format, parseISO, subWeeks } from 'date-fns'
+import { createTimeEntries, fetchTimeEntries } from '../lib/api'
+import type { Project, TimeEntryWithRelations } from '../lib/api'
+import type { DayLock } from '../lib/periods'
+import { buildWeekCopy } from '../lib/templates'
+import { nextDate, previousDate } from '../lib/time'
+import toast from 'react-hot-toast'
+
+interface CopyWeekProps {
+  userId: string
+  weekStart: string
+  weekEnd: string
+  projects: Project[]
+  dayLock: (date: string) => DayLock | null
+  onClose: () => void
+}
+
+export const CopyWeek: React.FC<CopyWeekProps> = ({ userId, weekStart, weekEnd, projects, dayLock, onClose }) => {
+  const [weeks, setWeeks] = useState<{ source: TimeEntryWithRelations[]; target: TimeEntryWithRelations[] } | null>(null)
+  const [deselected, setDeselected] = useState<Set<string>>(new Set())
+  const [copying, setCopying] = useState(false)
+
+  useEffect(() => {
+    const sourceStart = format(subWeeks(parseISO(weekStart), 1), 'yyyy-MM-dd')
+
+    Promise.all([
+      fetchTimeEntries({ userId, from: sourceStart, to: previousDate(weekStart) }),
+      fetchTimeEntries({ userId, from: previousDate(weekStart), to: nextDate(weekEnd) })
+    ])
+      .then(([source, target]) => setWeeks({ source, target }))
+      .catch(error => {
+        console.error('Error loading last week:', error)
+        toast.error('Failed to load last week')
+      })
+  }, [userId, weekStart, weekEnd])
+
+  // Rows that cannot be copied as they are stay unticked
+  const rows = weeks ? buildWeekCopy(weeks.source, weeks.target, projects, dayLock) : null
+  const chosen = (rows || []).filter(row => !row.problem && !deselected.has(row.key))
+  const selected = new Set(chosen.map(row => row.key))
+
+  const toggle = (key: string) => {
+    const next = new Set(deselected)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    setDeselected(next)
+  }
+
+  const copyEntries = async () => {
+    if (chosen.length === 0) return
+
+    setCopying(true)
+    try {
+      const queued = await createTimeEntries(chosen.map(row => row.entry))
+      toast.success(
+        queued
+          ? 'Saved offline, will sync when you are back online'
+          : `Copied ${chosen.length} time ${chosen.length === 1 ? 'entry' : 'entries'}`
+      )
+      onClose()
+    } catch (error) {
+      console.error('Error copying time entries:', error)
+      toast.error('Failed to copy time entries')
+    } finally {
+      setCopying(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Copy last week</h2>
+            <p className="text-sm text-gray-500">Untick the entries you do not want in this week</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {rows === null ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+            </div>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-gray-500 italic text-center py-8">There are no entries in last week to copy</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg overflow-x-auto">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="px-3 py-2 w-8"></th>
+                    <th className="px-3 py-2 text-left font-medium">Date</th>
+                    <th className="px-3 py-2 text-left font-medium">Time</th>
+                    <th className="px-3 py-2 text-left font-medium">Project</th>
+                    <th className="px-3 py-2 text-left font-medium">Description</th>
+                    <th className="px-3 py-2 text-left font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.map(row => (
+                    <tr key={row.key} className={selected.has(row.key) ? '' : 'bg-gray-50 text-gray-400'}>
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(row.key)}
+                          disabled={!!row.problem}
+                          onChange={() => toggle(row.key)}
+                        />
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">{format(parseISO(row.entry.date), 'EEE, MMM d')}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {row.entry.start_time.slice(0, 5)} - {row.entry.end_time.slice(0, 5)}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.source.project?.name}
+                        {row.source.task && <span className="text-gray-500"> · {row.source.task.name}</span>}
+                      </td>
+                      <td className="px-3 py-2 max-w-[200px] truncate">{row.source.description}</td>
+                      <td className="px-3 py-2">
+                        {row.problem ? <span className="text-amber-600">{row.problem}</span> : <span className="text-green-600">Ready</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-100">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={copyEntries}
+            disabled={copying || selected.size === 0}
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Copy className="w-4 h-4" />
+            <span>{copying ? 'Copying...' : `Copy ${selected.size} ${selected.size === 1 ? 'entry' : 'entries'}`}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
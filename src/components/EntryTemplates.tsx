@@ -0,0 +1,260 @@
+import React, { useState } from 'react'
+import { format } from 'date-fns'
+import { Plus, Repeat, Trash2, X } from 'lucide-react'
+import { createEntryTemplate, deleteEntryTemplate, updateEntryTemplate } from '../lib/api'
+import type { EntryTemplate, Project, Task } from '../lib/api'
+import { useEntryTemplates } from '../hooks/useData'
+import { WEEKDAYS, weekdaysLabel } from '../lib/templates'
+import { projectOptionLabel, projectsForEntry } from '../lib/projects'
+import toast from 'react-hot-toast'
+
+interface EntryTemplatesProps {
+  userId: string
+  projects: Project[]
+  tasks: Task[]
+  onClose: () => void
+}
+
+const emptyTemplate = () => ({
+  project_id: '',
+  task_id: '',
+  start_time: '09:00',
+  end_time: '09:15',
+  weekdays: [1, 2, 3, 4, 5],
+  description: '',
+  billable: true,
+  starts_on: format(new Date(), 'yyyy-MM-dd')
+})
+
+export const EntryTemplates: React.FC<EntryTemplatesProps> = ({ userId, projects, tasks, onClose }) => {
+  const { data: templates = [] } = useEntryTemplates(userId)
+  const [formData, setFormData] = useState(emptyTemplate)
+  const [saving, setSaving] = useState(false)
+
+  const projectTasks = tasks.filter(task => task.project_id === formData.project_id)
+
+  const toggleWeekday = (day: number) => {
+    setFormData({
+      ...formData,
+      weekdays: formData.weekdays.includes(day)
+        ? formData.weekdays.filter(value => value !== day)
+        : [...formData.weekdays, day].sort()
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (formData.weekdays.length === 0) {
+      toast.error('Pick at least one weekday')
+      return
+    }
+    if (formData.start_time === formData.end_time) {
+      toast.error('End time must be different from start time')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await createEntryTemplate({
+        user_id: userId,
+        project_id: formData.project_id,
+        task_id: formData.task_id || null,
+        start_time: formData.start_time,
+        end_time: formData.end_time,
+        weekdays: formData.weekdays,
+        description: formData.description,
+        billable: formData.billable,
+        starts_on: formData.starts_on
+      })
+      toast.success('Recurring entry added')
+      setFormData(emptyTemplate())
+    } catch (error) {
+      console.error('Error creating entry template:', error)
+      toast.error('Failed to add recurring entry')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleActive = async (template: EntryTemplate) => {
+    try {
+      await updateEntryTemplate(template.id, { active: !template.active })
+    } catch (error) {
+      console.error('Error updating entry template:', error)
+      toast.error('Failed to update recurring entry')
+    }
+  }
+
+  const removeTemplate = async (template: EntryTemplate) => {
+    if (!confirm('Delete this recurring entry? Entries already confirmed from it are kept.')) return
+
+    try {
+      await deleteEntryTemplate(template.id)
+      toast.success('Recurring entry deleted')
+    } catch (error) {
+      console.error('Error deleting entry template:', error)
+      toast.error('Failed to delete recurring entry')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Recurring entries</h2>
+            <p className="text-sm text-gray-500">They show up as drafts in your week until you confirm or dismiss them</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <div className="space-y-2">
+            {templates.map(template => {
+              const project = projects.find(p => p.id === template.project_id)
+              const task = tasks.find(t => t.id === template.task_id)
+
+              return (
+                <div
+                  key={template.id}
+                  className={`flex items-center justify-between border border-gray-200 rounded-lg px-3 py-2 ${template.active ? '' : 'opacity-60'}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+                      <Repeat className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      <span className="truncate">
+                        {project?.name || 'Unknown project'}
+                        {task && <span className="font-normal text-gray-500"> · {task.name}</span>}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      {weekdaysLabel(template.weekdays)} · {template.start_time.slice(0, 5)} - {template.end_time.slice(0, 5)}
+                      {template.description && ` · ${template.description}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3 ml-3">
+                    <label className="flex items-center space-x-1 text-xs text-gray-600">
+                      <input type="checkbox" checked={template.active} onChange={() => toggleActive(template)} />
+                      <span>Active</span>
+                    </label>
+                    <button
+                      onClick={() => removeTemplate(template)}
+                      className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+
+            {templates.length === 0 && (
+              <p className="text-sm text-gray-500 italic">No recurring entries yet</p>
+            )}
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-3 border-t border-gray-100 pt-6">
+            <h3 className="text-sm font-medium text-gray-900">New recurring entry</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                value={formData.project_id}
+                onChange={(e) => setFormData({ ...formData, project_id: e.target.value, task_id: '' })}
+                className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              >
+                <option value="">Select project</option>
+                {projectsForEntry(projects).map(project => (
+                  <option key={project.id} value={project.id}>{projectOptionLabel(project)}</option>
+                ))}
+              </select>
+              <select
+                value={formData.task_id}
+                onChange={(e) => setFormData({ ...formData, task_id: e.target.value })}
+                className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">No task</option>
+                {projectTasks.map(task => (
+                  <option key={task.id} value={task.id}>{task.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="time"
+                value={formData.start_time}
+                onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                className="text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="time"
+                value={formData.end_time}
+                onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+                className="text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+              <div className="flex rounded-lg border border-gray-200 p-0.5">
+                {WEEKDAYS.map(day => (
+                  <button
+                    key={day.value}
+                    type="button"
+                    onClick={() => toggleWeekday(day.value)}
+                    className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                      formData.weekdays.includes(day.value) ? 'bg-blue-50 text-blue-600 font-medium' : 'text-gray-500 hover:text-gray-900'
+                    }`}
+                  >
+                    {day.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <input
+              type="text"
+              placeholder="Description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="w-full text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center space-x-4 text-sm text-gray-600">
+                <label className="flex items-center space-x-2">
+                  <span>Starting</span>
+                  <input
+                    type="date"
+                    value={formData.starts_on}
+                    onChange={(e) => setFormData({ ...formData, starts_on: e.target.value })}
+                    className="border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.billable}
+                    onChange={(e) => setFormData({ ...formData, billable: e.target.checked })}
+                  />
+                  <span>Billable</span>
+                </label>
+              </div>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import React, { useState } from 'react'
+import { CalendarDays, Download, FileSpreadsheet, FileText } from 'lucide-react'
+import type { ExportFormat } from '../lib/export'
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void
+  disabled?: boolean
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled }) => {
+  const [open, setOpen] = useState(false)
+
+  const handleExport = (format: ExportFormat) => {
+    setOpen(false)
+    onExport(format)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 bg-white border border-gray-200 rounded-lg hover:text-gray-900 hover:border-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="w-4 h-4" />
+        <span>Export</span>
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-20">
+            <button
+              onClick={() => handleExport('xlsx')}
+              className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <FileSpreadsheet className="w-4 h-4 text-green-600" />
+              <span>Excel (.xlsx)</span>
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <FileText className="w-4 h-4 text-blue-600" />
+              <span>CSV (.csv)</span>
+            </button>
+            <button
+              onClick={() => handleExport('ics')}
+              className="w-full flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <CalendarDays className="w-4 h-4 text-purple-600" />
+              <span>Calendar (.ics)</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
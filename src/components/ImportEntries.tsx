@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react'
+import { Upload, X, FileSpreadsheet, CheckCircle, AlertCircle, Copy } from 'lucide-react'
+import { format, parseISO, startOfWeek } from 'date-fns'
+import { createTimeEntries, fetchTimeEntries, fetchUserTimesheets } from '../lib/api'
+import { useAuth } from '../hooks/useAuth'
+import { useClosedPeriods } from '../hooks/useData'
+import { previousDate } from '../lib/time'
+import { dayLockOn } from '../lib/periods'
+import {
+  ColumnMapping,
+  ExistingEntry,
+  ImportProject,
+  ImportRow,
+  ImportTask,
+  SheetRow,
+  getRowDates,
+  guessMapping,
+  importFields,
+  readSpreadsheet,
+  validateRows
+} from '../lib/import'
+import toast from 'react-hot-toast'
+
+interface ImportEntriesProps {
+  projects: ImportProject[]
+  tasks: ImportTask[]
+  onClose: () => void
+  onImported: () => void
+}
+
+export const ImportEntries: React.FC<ImportEntriesProps> = ({ projects, tasks, onClose, onImported }) => {
+  const { user } = useAuth()
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [rows, setRows] = useState<SheetRow[]>([])
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [existingEntries, setExistingEntries] = useState<ExistingEntry[]>([])
+  const [approvedWeeks, setApprovedWeeks] = useState<Set<string>>(new Set())
+  const [importing, setImporting] = useState(false)
+  const { data: closedPeriods = [] } = useClosedPeriods()
+
+  const userId = user?.id
+  const dates = mapping ? getRowDates(rows, mapping).sort() : []
+  const firstDate = dates[0]
+  const lastDate = dates[dates.length - 1]
+
+  // Entries and approved weeks around the file's dates, so the preview can flag rows the database would refuse
+  useEffect(() => {
+    if (!userId || !firstDate || !lastDate) {
+      setExistingEntries([])
+      setApprovedWeeks(new Set())
+      return
+    }
+
+    Promise.all([
+      fetchTimeEntries({ userId, from: previousDate(firstDate), to: lastDate }),
+      fetchUserTimesheets(userId, format(startOfWeek(parseISO(firstDate), { weekStartsOn: 1 }), 'yyyy-MM-dd'), lastDate)
+    ])
+      .then(([entries, timesheets]) => {
+        setExistingEntries(entries)
+        setApprovedWeeks(new Set(timesheets.filter(t => t.status === 'approved').map(t => t.week_start)))
+      })
+      .catch(error => {
+        console.error('Error fetching existing entries:', error)
+        toast.error('Failed to check for existing entries')
+      })
+  }, [userId, firstDate, lastDate])
+
+  const preview: ImportRow[] = mapping
+    ? validateRows(rows, mapping, projects, tasks, existingEntries, date => dayLockOn(closedPeriods, approvedWeeks, date))
+    : []
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      const sheet = await readSpreadsheet(file)
+      if (sheet.rows.length === 0) {
+        toast.error('The file does not contain any rows')
+        return
+      }
+
+      setFileName(file.name)
+      setHeaders(sheet.headers)
+      setRows(sheet.rows)
+      setMapping(guessMapping(sheet.headers))
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error)
+      toast.error('Could not read this file')
+    }
+  }
+
+  const importEntries = async () => {
+    if (!user) return
+
+    const validRows = preview.filter(row => row.entry && row.errors.length === 0 && !row.duplicate)
+    if (validRows.length === 0) return
+
+    setImporting(true)
+    try {
+      await createTimeEntries(validRows.map(row => ({ ...row.entry!, user_id: user.id })))
+      toast.success(`Imported ${validRows.length} time ${validRows.length === 1 ? 'entry' : 'entries'}`)
+      onImported()
+    } catch (error) {
+      console.error('Error importing time entries:', error)
+      toast.error('Failed to import time entries')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const validCount = preview.filter(row => row.errors.length === 0 && !row.duplicate).length
+  const errorCount = preview.filter(row => row.errors.length > 0).length
+  const duplicateCount = preview.filter(row => row.duplicate).length
+  const missingRequired = mapping ? importFields.filter(field => field.required && !mapping[field.id]) : []
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-100">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Import time entries</h2>
+            <p className="text-sm text-gray-500">
+              Upload an .xlsx or .csv file. Dates as YYYY-MM-DD, DD.MM.YYYY or DD/MM/YYYY, times as HH:MM.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <label className="flex items-center justify-center space-x-3 p-6 border-2 border-dashed border-gray-300 rounded-lg text-gray-500 hover:border-blue-300 hover:text-blue-500 cursor-pointer transition-colors">
+            {fileName ? <FileSpreadsheet className="w-6 h-6" /> : <Upload className="w-6 h-6" />}
+            <span className="text-sm font-medium">{fileName || 'Choose a spreadsheet'}</span>
+            <input type="file" accept=".xlsx,.xls,.csv" onChange={handleFile} className="hidden" />
+          </label>
+
+          {mapping && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-3">Column mapping</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {importFields.map(field => (
+                  <div key={field.id}>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">
+                      {field.name}{field.required && ' *'}
+                    </label>
+                    <select
+                      value={mapping[field.id]}
+                      onChange={(e) => setMapping({ ...mapping, [field.id]: e.target.value })}
+                      className="w-full text-sm border border-gray-200 rounded-lg px-2 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Not mapped</option>
+                      {headers.map(header => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {mapping && (
+            <div>
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                <h3 className="text-sm font-medium text-gray-900">Preview</h3>
+                <span className="flex items-center space-x-1 text-xs text-green-700 bg-green-50 px-2 py-1 rounded-full">
+                  <CheckCircle className="w-3 h-3" />
+                  <span>{validCount} ready</span>
+                </span>
+                <span className="flex items-center space-x-1 text-xs text-red-700 bg-red-50 px-2 py-1 rounded-full">
+                  <AlertCircle className="w-3 h-3" />
+                  <span>{errorCount} with errors</span>
+                </span>
+                <span className="flex items-center space-x-1 text-xs text-gray-600 bg-gray-100 px-2 py-1 rounded-full">
+                  <Copy className="w-3 h-3" />
+                  <span>{duplicateCount} already imported</span>
+                </span>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-x-auto">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Row</th>
+                      {importFields.map(field => (
+                        <th key={field.id} className="px-3 py-2 text-left font-medium">{field.name}</th>
+                      ))}
+                      <th className="px-3 py-2 text-left font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.map(row => (
+                      <tr
+                        key={row.rowNumber}
+                        className={row.errors.length > 0 ? 'bg-red-50/50' : row.duplicate ? 'bg-gray-50 text-gray-400' : ''}
+                      >
+                        <td className="px-3 py-2 text-gray-400">{row.rowNumber}</td>
+                        <td className="px-3 py-2">{row.entry?.date || row.raw.date}</td>
+                        <td className="px-3 py-2">{row.raw.project}</td>
+                        <td className="px-3 py-2">{row.raw.task}</td>
+                        <td className="px-3 py-2">{row.entry?.start_time || row.raw.start_time}</td>
+                        <td className="px-3 py-2">{row.entry?.end_time || row.raw.end_time}</td>
+                        <td className="px-3 py-2 max-w-[200px] truncate">{row.raw.description}</td>
+                        <td className="px-3 py-2">
+                          {row.errors.length > 0 ? (
+                            <ul className="text-red-600 space-y-0.5">
+                              {row.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          ) : row.duplicate ? (
+                            <span>Already imported, will be skipped</span>
+                          ) : (
+                            <span className="text-green-600">
+                              {row.entry?.hours.toFixed(2)}h{row.overnight && ' (overnight)'}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between p-6 border-t border-gray-100">
+          <p className="text-sm text-gray-500">
+            {missingRequired.length > 0
+              ? `Map ${missingRequired.map(field => field.name).join(', ')} to continue`
+              : errorCount > 0
+                ? 'Rows with errors will not be imported'
+                : ''}
+          </p>
+          <div className="flex space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={importEntries}
+              disabled={importing || validCount === 0 || missingRequired.length > 0}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Upload className="w-4 h-4" />
+              <span>{importing ? 'Importing...' : `Import ${validCount} ${validCount === 1 ? 'entry' : 'entries'}`}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,348 @@
+import React, { useState } from 'react'
+import { format, parseISO, startOfMonth, endOfMonth, subMonths } from 'date-fns'
+import { Plus, FileText, Printer, ArrowLeft, Save, X, Receipt } from 'lucide-react'
+import { createInvoice } from '../lib/api'
+import { buildInvoiceLines, formatMoney, invoiceTotal } from '../lib/billing'
+import { useClients, useInvoice, useInvoices, useProjects, useTasks, useTimeEntries, useUserRates } from '../hooks/useData'
+import { useRoute } from '../hooks/useRoute'
+import { navigate } from '../lib/router'
+import toast from 'react-hot-toast'
+
+export const Invoices: React.FC = () => {
+  const { data: invoices = [], loading } = useInvoices()
+  const [creating, setCreating] = useState(false)
+  const { id: selectedInvoice } = useRoute()
+  const setSelectedInvoice = (id: string | null) => navigate({ view: 'invoices', id })
+
+  if (selectedInvoice) {
+    return <InvoiceDocument invoiceId={selectedInvoice} onBack={() => setSelectedInvoice(null)} />
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Invoices</h1>
+          <p className="text-gray-600">Bill clients for uninvoiced billable time</p>
+        </div>
+
+        <button
+          onClick={() => setCreating(true)}
+          className="flex items-center space-x-2 bg-gradient-to-r from-blue-500 to-teal-500 text-white px-4 py-2 rounded-lg hover:from-blue-600 hover:to-teal-600 transition-all duration-200"
+        >
+          <Plus className="w-4 h-4" />
+          <span>New Invoice</span>
+        </button>
+      </div>
+
+      {creating && (
+        <InvoiceForm
+          onCreated={(id) => {
+            setCreating(false)
+            setSelectedInvoice(id)
+          }}
+          onCancel={() => setCreating(false)}
+        />
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="divide-y divide-gray-100">
+          {invoices.map(invoice => (
+            <button
+              key={invoice.id}
+              onClick={() => setSelectedInvoice(invoice.id)}
+              className="w-full flex items-center justify-between px-6 py-4 hover:bg-gray-50 transition-colors text-left"
+            >
+              <div className="flex items-center space-x-3">
+                <div className="w-9 h-9 bg-gray-100 rounded-lg flex items-center justify-center">
+                  <FileText className="w-4 h-4 text-gray-500" />
+                </div>
+                <div>
+                  <p className="font-medium text-gray-900">{invoice.number} · {invoice.client}</p>
+                  <p className="text-sm text-gray-500">
+                    {format(parseISO(invoice.period_start), 'MMM d')} - {format(parseISO(invoice.period_end), 'MMM d, yyyy')}
+                    {' · '}issued {format(parseISO(invoice.issue_date), 'MMM d, yyyy')}
+                  </p>
+                </div>
+              </div>
+              <p className="text-lg font-semibold text-gray-900">{formatMoney(invoice.total, invoice.currency)}</p>
+            </button>
+          ))}
+
+          {invoices.length === 0 && (
+            <div className="text-center py-12">
+              <Receipt className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No invoices yet</h3>
+              <p className="text-gray-600">Create an invoice to bill a client for logged time</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface InvoiceFormProps {
+  onCreated: (id: string) => void
+  onCancel: () => void
+}
+
+const InvoiceForm: React.FC<InvoiceFormProps> = ({ onCreated, onCancel }) => {
+  const lastMonth = subMonths(new Date(), 1)
+  const [clientId, setClientId] = useState('')
+  const [from, setFrom] = useState(format(startOfMonth(lastMonth), 'yyyy-MM-dd'))
+  const [to, setTo] = useState(format(endOfMonth(lastMonth), 'yyyy-MM-dd'))
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const { data: clients = [] } = useClients()
+  const { data: projects = [] } = useProjects()
+  const { data: tasks = [] } = useTasks()
+  const { data: userRates = [] } = useUserRates()
+  const client = clients.find(c => c.id === clientId)
+  const clientProjectIds = projects.filter(project => project.client_id === clientId).map(project => project.id)
+
+  const { data: entries = [], loading } = useTimeEntries(
+    client && clientProjectIds.length > 0 && from && to && from <= to
+      ? { projectIds: clientProjectIds, uninvoiced: true, from, to }
+      : null
+  )
+  const lines = buildInvoiceLines(entries, projects, tasks, userRates)
+  const total = invoiceTotal(lines)
+
+  const handleCreate = async () => {
+    if (entries.length === 0) {
+      toast.error('There is no uninvoiced billable time for this client and period')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const id = await createInvoice({
+        clientId,
+        periodStart: from,
+        periodEnd: to,
+        notes,
+        lines,
+        entryIds: entries.map(entry => entry.id)
+      })
+      toast.success('Invoice created')
+      onCreated(id)
+    } catch (error) {
+      console.error('Error creating invoice:', error)
+      toast.error('Failed to create invoice')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-blue-50 border-2 border-blue-200 rounded-xl p-6 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Client *</label>
+          <select
+            value={clientId}
+            onChange={(e) => setClientId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Select Client</option>
+            {clients.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {client && (
+        <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+          {loading ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            </div>
+          ) : lines.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 italic text-center">
+              No uninvoiced billable time for {client.name} in this period
+            </p>
+          ) : (
+            <InvoiceLinesTable lines={lines} total={total} currency={client.currency} />
+          )}
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          placeholder="Payment terms, purchase order number..."
+        />
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-1 px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+        <button
+          onClick={handleCreate}
+          disabled={saving || !clientId || lines.length === 0}
+          className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>Create Invoice</span>
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface InvoiceLinesTableProps {
+  lines: { key?: string; id?: string; description: string; hours: number; rate: number; amount: number }[]
+  total: number
+  currency: string
+}
+
+const InvoiceLinesTable: React.FC<InvoiceLinesTableProps> = ({ lines, total, currency }) => (
+  <table className="min-w-full text-sm">
+    <thead className="text-gray-500 border-b border-gray-200">
+      <tr>
+        <th className="px-4 py-2 text-left font-medium">Description</th>
+        <th className="px-4 py-2 text-right font-medium">Hours</th>
+        <th className="px-4 py-2 text-right font-medium">Rate</th>
+        <th className="px-4 py-2 text-right font-medium">Amount</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-gray-100">
+      {lines.map(line => (
+        <tr key={line.id || line.key}>
+          <td className="px-4 py-2 text-gray-900">{line.description}</td>
+          <td className="px-4 py-2 text-right text-gray-700">{line.hours.toFixed(2)}</td>
+          <td className="px-4 py-2 text-right text-gray-700">{formatMoney(line.rate, currency)}</td>
+          <td className="px-4 py-2 text-right text-gray-900">{formatMoney(line.amount, currency)}</td>
+        </tr>
+      ))}
+    </tbody>
+    <tfoot className="border-t border-gray-200">
+      <tr>
+        <td colSpan={3} className="px-4 py-3 text-right font-medium text-gray-700">Total</td>
+        <td className="px-4 py-3 text-right text-lg font-semibold text-gray-900">{formatMoney(total, currency)}</td>
+      </tr>
+    </tfoot>
+  </table>
+)
+
+interface InvoiceDocumentProps {
+  invoiceId: string
+  onBack: () => void
+}
+
+const InvoiceDocument: React.FC<InvoiceDocumentProps> = ({ invoiceId, onBack }) => {
+  const { data: invoice, loading } = useInvoice(invoiceId)
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  if (!invoice) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 mb-4">This invoice could not be found</p>
+        <button onClick={onBack} className="text-blue-600 hover:text-blue-700">Back to invoices</button>
+      </div>
+    )
+  }
+
+  const lines = [...invoice.lines].sort((a, b) => a.description.localeCompare(b.description))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between print:hidden">
+        <button
+          onClick={onBack}
+          className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back to invoices</span>
+        </button>
+        <button
+          onClick={() => window.print()}
+          className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 bg-white border border-gray-200 rounded-lg hover:text-gray-900 hover:border-gray-300 transition-colors"
+        >
+          <Printer className="w-4 h-4" />
+          <span>Print</span>
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-10 space-y-8 print:shadow-none print:border-0 print:p-0">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Invoice</h1>
+            <p className="text-gray-500 mt-1">{invoice.number}</p>
+          </div>
+          <div className="text-right text-sm text-gray-600 space-y-1">
+            <p><span className="text-gray-400">Issued</span> {format(parseISO(invoice.issue_date), 'MMMM d, yyyy')}</p>
+            <p>
+              <span className="text-gray-400">Period</span>{' '}
+              {format(parseISO(invoice.period_start), 'MMM d')} - {format(parseISO(invoice.period_end), 'MMM d, yyyy')}
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-400">Bill to</p>
+          <p className="text-lg font-medium text-gray-900">{invoice.client}</p>
+        </div>
+
+        <InvoiceLinesTable lines={lines} total={invoice.total} currency={invoice.currency} />
+
+        {invoice.notes && (
+          <div>
+            <p className="text-xs uppercase tracking-wide text-gray-400 mb-1">Notes</p>
+            <p className="text-sm text-gray-700 whitespace-pre-line">{invoice.notes}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
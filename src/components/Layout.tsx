@@ -1,6 +1,8 @@
 import React from 'react'
-import { Clock, LogOut, Settings, BarChart3, FolderOpen, Users } from 'lucide-react'
+import { Clock, LogOut, Settings, BarChart3, FolderOpen, Users, ClipboardCheck, Receipt, Building2, History, Trash2 } from 'lucide-react'
 import { useAuth } from '../hooks/useAuth'
+import { TimerIndicator } from './Timer'
+import { SyncIndicator } from './Sync'
 
 interface LayoutProps {
   children: React.ReactNode
@@ -14,19 +16,28 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentView, onViewCha
   const navigation = [
     { id: 'timetracking', name: 'Time Tracking', icon: Clock },
     { id: 'projects', name: 'Projects', icon: FolderOpen },
+    { id: 'clients', name: 'Clients', icon: Building2 },
+    { id: 'trash', name: 'Trash', icon: Trash2 },
     ...(user?.role === 'supervisor' || user?.role === 'manager' 
-      ? [{ id: 'analytics', name: 'Analytics', icon: BarChart3 }]
+      ? [
+          { id: 'approvals', name: 'Approvals', icon: ClipboardCheck },
+          { id: 'analytics', name: 'Analytics', icon: BarChart3 }
+        ]
       : []
     ),
     ...(user?.role === 'manager' 
-      ? [{ id: 'management', name: 'User Management', icon: Users }]
+      ? [
+          { id: 'invoices', name: 'Invoices', icon: Receipt },
+          { id: 'management', name: 'User Management', icon: Users },
+          { id: 'audit', name: 'Audit Log', icon: History }
+        ]
       : []
     ),
   ]
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <nav className="bg-white shadow-sm border-b border-gray-200">
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <nav className="bg-white shadow-sm border-b border-gray-200 print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-16">
             <div className="flex items-center space-x-8">
@@ -59,6 +70,9 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentView, onViewCha
             </div>
 
             <div className="flex items-center space-x-4">
+              <SyncIndicator />
+              {user && <TimerIndicator userId={user.id} />}
+
               <div className="flex items-center space-x-3">
                 <div className="text-right">
                   <p className="text-sm font-medium text-gray-900">{user?.name}</p>
@@ -0,0 +1,117 @@
+import React, { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { removeProjectMember, setProjectMember } from '../lib/api'
+import type { ProjectRole } from '../lib/api'
+import { useProjectMembers, useUsers } from '../hooks/useData'
+import toast from 'react-hot-toast'
+
+interface ProjectMembersProps {
+  projectId: string
+}
+
+export const ProjectMembers: React.FC<ProjectMembersProps> = ({ projectId }) => {
+  const { data: members = [] } = useProjectMembers()
+  const { data: users = [] } = useUsers()
+  const [userId, setUserId] = useState('')
+  const [role, setRole] = useState<ProjectRole>('member')
+
+  const projectMembers = members
+    .filter(member => member.project_id === projectId)
+    .map(member => ({ ...member, name: users.find(u => u.id === member.user_id)?.name || 'Unknown user' }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+  const availableUsers = users.filter(u => !projectMembers.some(member => member.user_id === u.id))
+
+  const saveMember = async (memberUserId: string, memberRole: ProjectRole) => {
+    try {
+      await setProjectMember({ project_id: projectId, user_id: memberUserId, role: memberRole })
+    } catch (error) {
+      console.error('Error saving project member:', error)
+      toast.error('Failed to save project member')
+    }
+  }
+
+  const addMember = async () => {
+    if (!userId) {
+      toast.error('Please pick a person')
+      return
+    }
+
+    await saveMember(userId, role)
+    setUserId('')
+    setRole('member')
+  }
+
+  const removeMember = async (memberUserId: string) => {
+    try {
+      await removeProjectMember(projectId, memberUserId)
+    } catch (error) {
+      console.error('Error removing project member:', error)
+      toast.error('Failed to remove project member')
+    }
+  }
+
+  return (
+    <div className="border-t border-gray-100 p-6">
+      <h4 className="text-sm font-medium text-gray-900 mb-1">Team</h4>
+      <p className="text-xs text-gray-500 mb-4">Only members can see this project and log time to it; leads can also edit it</p>
+
+      <div className="space-y-2">
+        {projectMembers.map(member => (
+          <div key={member.user_id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+            <span className="text-sm text-gray-900">{member.name}</span>
+            <div className="flex items-center space-x-3">
+              <select
+                value={member.role}
+                onChange={(e) => saveMember(member.user_id, e.target.value as ProjectRole)}
+                className="text-sm border border-gray-200 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="member">Member</option>
+                <option value="lead">Lead</option>
+              </select>
+              <button
+                onClick={() => removeMember(member.user_id)}
+                className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {projectMembers.length === 0 && (
+          <p className="text-sm text-gray-500 italic">No members yet</p>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <select
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            className="flex-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Select Person</option>
+            {availableUsers.map(u => (
+              <option key={u.id} value={u.id}>
+                {u.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as ProjectRole)}
+            className="text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="member">Member</option>
+            <option value="lead">Lead</option>
+          </select>
+          <button
+            onClick={addMember}
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            title="Add member"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import React, { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { deleteUserRate, setUserRate } from '../lib/api'
+import { formatMoney } from '../lib/billing'
+import { useUserRates, useUsers } from '../hooks/useData'
+import toast from 'react-hot-toast'
+
+interface ProjectRatesProps {
+  projectId: string
+}
+
+export const ProjectRates: React.FC<ProjectRatesProps> = ({ projectId }) => {
+  const { data: userRates = [] } = useUserRates()
+  const { data: users = [] } = useUsers()
+  const [userId, setUserId] = useState('')
+  const [rate, setRate] = useState('')
+
+  const projectRates = userRates.filter(userRate => userRate.project_id === projectId)
+  const availableUsers = users.filter(u => !projectRates.some(userRate => userRate.user_id === u.id))
+
+  const addRate = async () => {
+    if (!userId || rate === '') {
+      toast.error('Please pick a person and a rate')
+      return
+    }
+
+    try {
+      await setUserRate({ project_id: projectId, user_id: userId, hourly_rate: Number(rate) })
+      setUserId('')
+      setRate('')
+    } catch (error) {
+      console.error('Error saving rate:', error)
+      toast.error('Failed to save rate')
+    }
+  }
+
+  const removeRate = async (rateUserId: string) => {
+    try {
+      await deleteUserRate(projectId, rateUserId)
+    } catch (error) {
+      console.error('Error removing rate:', error)
+      toast.error('Failed to remove rate')
+    }
+  }
+
+  return (
+    <div className="border-t border-gray-100 p-6">
+      <h4 className="text-sm font-medium text-gray-900 mb-1">Rates per person</h4>
+      <p className="text-xs text-gray-500 mb-4">Override the project and task rates for individual people</p>
+
+      <div className="space-y-2">
+        {projectRates.map(userRate => (
+          <div key={userRate.user_id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+            <span className="text-sm text-gray-900">
+              {users.find(u => u.id === userRate.user_id)?.name || 'Unknown user'}
+            </span>
+            <div className="flex items-center space-x-3">
+              <span className="text-sm text-gray-700">{formatMoney(userRate.hourly_rate)}/h</span>
+              <button
+                onClick={() => removeRate(userRate.user_id)}
+                className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center space-x-2">
+          <select
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            className="flex-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Select Person</option>
+            {availableUsers.map(u => (
+              <option key={u.id} value={u.id}>
+                {u.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            placeholder="Rate"
+            className="w-28 text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={addRate}
+            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+            title="Add rate"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,126 +1,114 @@
-import React, { useState, useEffect } from 'react'
-import { Plus, Edit, Trash2, Save, X, FolderOpen, Calendar, User } from 'lucide-react'
-import { supabase } from '../lib/supabase'
+import React, { useState } from 'react'
+import { Plus, Edit, Trash2, Save, X, FolderOpen, Calendar, User, Banknote, Gauge, Archive, ArchiveRestore, ArrowLeft, History } from 'lucide-react'
+import {
+  createProject,
+  updateProject,
+  deleteProject as removeProject,
+  createTask,
+  updateTask,
+  deleteTask as removeTask
+} from '../lib/api'
+import type { AuditTable, BudgetUsage, Project, ProjectStatus, Task, TaskField } from '../lib/api'
+import { useAuth } from '../hooks/useAuth'
+import { useRoute } from '../hooks/useRoute'
+import { navigate, updateQuery } from '../lib/router'
+import { useBudgetUsage, useClients, useProjectMembers, useProjects, useTasks } from '../hooks/useData'
+import { formatMoney } from '../lib/billing'
+import { PROJECT_STATUSES, canEditProject, projectStatusLabel } from '../lib/projects'
+import { BudgetLevel, budgetLevel, projectUsage, summarizeBudget, taskUsage, usedHours } from '../lib/budget'
+import { ProjectMembers } from './ProjectMembers'
+import { ProjectRates } from './ProjectRates'
+import { RecordHistory } from './AuditLog'
+import { UndoToast } from './UndoToast'
+import { TaskFieldFilterBar, TaskFieldInputs, TaskFieldValues, TaskFieldsEditor } from './TaskFields'
+import { TaskFieldFilter, matchesTaskFieldFilter, parseTaskFieldValue, validateTaskField } from '../lib/taskFields'
 import toast from 'react-hot-toast'
 import { format } from 'date-fns'
 
-interface Project {
-  id: string
-  name: string
-  client: string
-  description: string
-  start_date: string
-  created_at: string
-}
-
-interface Task {
-  id: string
-  project_id: string
-  name: string
-  description: string
-  metadata: Record<string, any>
-}
+const newestFirst = <T extends { created_at: string }>(rows: T[]) =>
+  [...rows].sort((a, b) => b.created_at.localeCompare(a.created_at))
 
 export const Projects: React.FC = () => {
-  const [projects, setProjects] = useState<Project[]>([])
-  const [tasks, setTasks] = useState<Task[]>([])
-  const [loading, setLoading] = useState(true)
+  const { user } = useAuth()
+  const canManageBilling = user?.role === 'manager'
+  const canCreateProjects = user?.role === 'supervisor' || user?.role === 'manager'
+  const { data: projectRows = [], loading } = useProjects()
+  const { data: taskRows = [] } = useTasks()
+  const { data: budgetUsage = [] } = useBudgetUsage()
+  const { data: members = [] } = useProjectMembers()
+  const { id: focusedProjectId, query } = useRoute()
+  const statusFilter = PROJECT_STATUSES.find(option => option.value === query.status)?.value || 'open'
+  const setStatusFilter = (status: ProjectStatus | 'open') =>
+    updateQuery({ status: status === 'open' ? undefined : status })
+  // A linked project is shown on its own, whatever its status
+  const projects = focusedProjectId
+    ? projectRows.filter(project => project.id === focusedProjectId)
+    : newestFirst(projectRows).filter(project =>
+        statusFilter === 'open' ? project.status !== 'archived' : project.status === statusFilter
+      )
+  const tasks = newestFirst(taskRows)
   const [editingProject, setEditingProject] = useState<string | null>(null)
   const [showNewProject, setShowNewProject] = useState(false)
   const [selectedProject, setSelectedProject] = useState<string | null>(null)
   const [showNewTask, setShowNewTask] = useState(false)
-
-  useEffect(() => {
-    fetchProjects()
-    fetchTasks()
-  }, [])
-
-  const fetchProjects = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('projects')
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (error) throw error
-      setProjects(data || [])
-    } catch (error) {
-      console.error('Error fetching projects:', error)
-      toast.error('Failed to load projects')
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  const fetchTasks = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (error) throw error
-      setTasks(data || [])
-    } catch (error) {
-      console.error('Error fetching tasks:', error)
-    }
-  }
+  const [editingTask, setEditingTask] = useState<string | null>(null)
+  const [history, setHistory] = useState<{ table: AuditTable; id: string; title: string } | null>(null)
+  const [taskFilters, setTaskFilters] = useState<Record<string, TaskFieldFilter>>({})
 
   const saveProject = async (projectData: Partial<Project>) => {
     try {
       if (projectData.id) {
         // Update existing project
-        const { error } = await supabase
-          .from('projects')
-          .update({
-            name: projectData.name,
-            client: projectData.client,
-            description: projectData.description,
-            start_date: projectData.start_date,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', projectData.id)
-
-        if (error) throw error
+        await updateProject(projectData.id, {
+          name: projectData.name,
+          client_id: projectData.client_id,
+          description: projectData.description,
+          start_date: projectData.start_date,
+          end_date: projectData.end_date,
+          status: projectData.status,
+          hourly_rate: projectData.hourly_rate,
+          budget_hours: projectData.budget_hours,
+          task_fields: projectData.task_fields
+        })
         toast.success('Project updated successfully')
       } else {
         // Create new project
-        const { error } = await supabase
-          .from('projects')
-          .insert({
-            name: projectData.name!,
-            client: projectData.client!,
-            description: projectData.description!,
-            start_date: projectData.start_date!
-          })
-
-        if (error) throw error
+        await createProject({
+          name: projectData.name!,
+          client_id: projectData.client_id!,
+          description: projectData.description!,
+          start_date: projectData.start_date!,
+          end_date: projectData.end_date,
+          status: projectData.status,
+          hourly_rate: projectData.hourly_rate,
+          budget_hours: projectData.budget_hours,
+          task_fields: projectData.task_fields
+        })
         toast.success('Project created successfully')
       }
 
       setEditingProject(null)
       setShowNewProject(false)
-      fetchProjects()
     } catch (error) {
       console.error('Error saving project:', error)
       toast.error('Failed to save project')
     }
   }
 
-  const deleteProject = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this project? This will also delete all associated tasks and time entries.')) {
-      return
+  const setProjectStatus = async (project: Project, status: ProjectStatus) => {
+    try {
+      await updateProject(project.id, { status })
+      toast.success(status === 'archived' ? 'Project archived' : 'Project restored')
+    } catch (error) {
+      console.error('Error updating project status:', error)
+      toast.error('Failed to update project')
     }
+  }
 
+  const deleteProject = async (id: string) => {
     try {
-      const { error } = await supabase
-        .from('projects')
-        .delete()
-        .eq('id', id)
-
-      if (error) throw error
-      toast.success('Project deleted successfully')
-      fetchProjects()
+      await removeProject(id)
+      toast((t) => <UndoToast t={t} message="Project and its tasks and time entries moved to trash" table="projects" recordId={id} />, { duration: 6000 })
     } catch (error) {
       console.error('Error deleting project:', error)
       toast.error('Failed to delete project')
@@ -131,35 +119,29 @@ export const Projects: React.FC = () => {
     try {
       if (taskData.id) {
         // Update existing task
-        const { error } = await supabase
-          .from('tasks')
-          .update({
-            name: taskData.name,
-            description: taskData.description,
-            metadata: taskData.metadata,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', taskData.id)
-
-        if (error) throw error
+        await updateTask(taskData.id, {
+          name: taskData.name,
+          description: taskData.description,
+          metadata: taskData.metadata,
+          hourly_rate: taskData.hourly_rate,
+          budget_hours: taskData.budget_hours
+        })
         toast.success('Task updated successfully')
       } else {
         // Create new task
-        const { error } = await supabase
-          .from('tasks')
-          .insert({
-            project_id: taskData.project_id!,
-            name: taskData.name!,
-            description: taskData.description || '',
-            metadata: taskData.metadata || {}
-          })
-
-        if (error) throw error
+        await createTask({
+          project_id: taskData.project_id!,
+          name: taskData.name!,
+          description: taskData.description || '',
+          metadata: taskData.metadata || {},
+          hourly_rate: taskData.hourly_rate,
+          budget_hours: taskData.budget_hours
+        })
         toast.success('Task created successfully')
       }
 
       setShowNewTask(false)
-      fetchTasks()
+      setEditingTask(null)
     } catch (error) {
       console.error('Error saving task:', error)
       toast.error('Failed to save task')
@@ -167,27 +149,21 @@ export const Projects: React.FC = () => {
   }
 
   const deleteTask = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this task? This will also delete all associated time entries.')) {
-      return
-    }
-
     try {
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', id)
-
-      if (error) throw error
-      toast.success('Task deleted successfully')
-      fetchTasks()
+      await removeTask(id)
+      toast((t) => <UndoToast t={t} message="Task and its time entries moved to trash" table="tasks" recordId={id} />, { duration: 6000 })
     } catch (error) {
       console.error('Error deleting task:', error)
       toast.error('Failed to delete task')
     }
   }
 
-  const getProjectTasks = (projectId: string) => {
-    return tasks.filter(task => task.project_id === projectId)
+  const canEdit = (projectId: string) => canEditProject(user, projectId, members)
+
+  const getProjectTasks = (project: Project) => {
+    return tasks.filter(task =>
+      task.project_id === project.id && matchesTaskFieldFilter(task, project.task_fields, taskFilters[project.id])
+    )
   }
 
   if (loading) {
@@ -206,17 +182,45 @@ export const Projects: React.FC = () => {
           <p className="text-gray-600">Manage your projects and organize tasks</p>
         </div>
 
-        <button
-          onClick={() => setShowNewProject(true)}
-          className="flex items-center space-x-2 bg-gradient-to-r from-blue-500 to-teal-500 text-white px-4 py-2 rounded-lg hover:from-blue-600 hover:to-teal-600 transition-all duration-200"
-        >
-          <Plus className="w-4 h-4" />
-          <span>New Project</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          {focusedProjectId ? (
+            <button
+              onClick={() => navigate({ view: 'projects' })}
+              className="flex items-center space-x-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>All projects</span>
+            </button>
+          ) : (
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ProjectStatus | 'open')}
+              className="text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="open">All but archived</option>
+              {PROJECT_STATUSES.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {canCreateProjects && (
+            <button
+              onClick={() => setShowNewProject(true)}
+              className="flex items-center space-x-2 bg-gradient-to-r from-blue-500 to-teal-500 text-white px-4 py-2 rounded-lg hover:from-blue-600 hover:to-teal-600 transition-all duration-200"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Project</span>
+            </button>
+          )}
+        </div>
       </div>
 
       {showNewProject && (
         <ProjectForm
+          showBilling={canManageBilling}
           onSave={saveProject}
           onCancel={() => setShowNewProject(false)}
         />
@@ -228,6 +232,7 @@ export const Projects: React.FC = () => {
             {editingProject === project.id ? (
               <ProjectForm
                 project={project}
+                showBilling={canManageBilling}
                 onSave={saveProject}
                 onCancel={() => setEditingProject(null)}
               />
@@ -240,56 +245,110 @@ export const Projects: React.FC = () => {
                         <FolderOpen className="w-6 h-6 text-white" />
                       </div>
                       <div className="flex-1">
-                        <h3 className="text-lg font-semibold text-gray-900">{project.name}</h3>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => navigate({ view: 'projects', id: project.id })}
+                            className="text-lg font-semibold text-gray-900 hover:text-blue-600"
+                          >
+                            {project.name}
+                          </button>
+                          {project.status !== 'active' && (
+                            <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${statusStyles[project.status]}`}>
+                              {projectStatusLabel(project.status)}
+                            </span>
+                          )}
+                        </div>
                         <div className="flex items-center space-x-4 text-sm text-gray-500 mt-1">
                           <div className="flex items-center space-x-1">
                             <User className="w-4 h-4" />
-                            <span>{project.client}</span>
+                            <span>{project.client?.name}</span>
                           </div>
                           <div className="flex items-center space-x-1">
                             <Calendar className="w-4 h-4" />
-                            <span>{format(new Date(project.start_date), 'MMM d, yyyy')}</span>
+                            <span>
+                              {format(new Date(project.start_date), 'MMM d, yyyy')}
+                              {project.end_date && ` – ${format(new Date(project.end_date), 'MMM d, yyyy')}`}
+                            </span>
                           </div>
+                          {canManageBilling && (
+                            <div className="flex items-center space-x-1">
+                              <Banknote className="w-4 h-4" />
+                              <span>{formatMoney(project.hourly_rate)}/h</span>
+                            </div>
+                          )}
                         </div>
                         <p className="text-gray-600 mt-2">{project.description}</p>
+                        {project.budget_hours !== null && (
+                          <ProjectBudget budget={project.budget_hours} usage={projectUsage(budgetUsage, project.id)} />
+                        )}
                       </div>
                     </div>
 
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => setEditingProject(project.id)}
-                        className="p-2 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded-lg transition-colors"
-                      >
-                        <Edit className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => deleteProject(project.id)}
-                        className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
+                    {canEdit(project.id) && (
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => setProjectStatus(project, project.status === 'archived' ? 'completed' : 'archived')}
+                          className="p-2 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                          title={project.status === 'archived' ? 'Restore project' : 'Archive project'}
+                        >
+                          {project.status === 'archived' ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={() => setEditingProject(project.id)}
+                          className="p-2 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded-lg transition-colors"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setHistory({ table: 'projects', id: project.id, title: project.name })}
+                          className="p-2 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="History"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
+                        {canCreateProjects && (
+                          <button
+                            onClick={() => deleteProject(project.id)}
+                            className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
 
                 <div className="border-t border-gray-100 p-6">
                   <div className="flex items-center justify-between mb-4">
                     <h4 className="text-sm font-medium text-gray-900">Tasks</h4>
-                    <button
-                      onClick={() => {
-                        setSelectedProject(project.id)
-                        setShowNewTask(true)
-                      }}
-                      className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
-                    >
-                      <Plus className="w-4 h-4" />
-                      <span>Add Task</span>
-                    </button>
+                    {canEdit(project.id) && (
+                      <button
+                        onClick={() => {
+                          setSelectedProject(project.id)
+                          setShowNewTask(true)
+                        }}
+                        className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+                      >
+                        <Plus className="w-4 h-4" />
+                        <span>Add Task</span>
+                      </button>
+                    )}
                   </div>
 
+                  {project.task_fields.length > 0 && (
+                    <TaskFieldFilterBar
+                      fields={project.task_fields}
+                      filter={taskFilters[project.id]}
+                      onChange={(filter) => setTaskFilters({ ...taskFilters, [project.id]: filter })}
+                    />
+                  )}
+
                   {showNewTask && selectedProject === project.id && (
                     <TaskForm
                       projectId={project.id}
+                      fields={project.task_fields}
+                      showBilling={canManageBilling}
                       onSave={saveTask}
                       onCancel={() => {
                         setShowNewTask(false)
@@ -299,69 +358,224 @@ export const Projects: React.FC = () => {
                   )}
 
                   <div className="space-y-2">
-                    {getProjectTasks(project.id).map((task) => (
-                      <div key={task.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                        <div>
-                          <h5 className="font-medium text-gray-900">{task.name}</h5>
-                          {task.description && (
-                            <p className="text-sm text-gray-600">{task.description}</p>
+                    {getProjectTasks(project).map((task) => (
+                      editingTask === task.id ? (
+                        <TaskForm
+                          key={task.id}
+                          projectId={project.id}
+                          fields={project.task_fields}
+                          task={task}
+                          showBilling={canManageBilling}
+                          onSave={saveTask}
+                          onCancel={() => setEditingTask(null)}
+                        />
+                      ) : (
+                        <div key={task.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                          <div>
+                            <h5 className="font-medium text-gray-900">{task.name}</h5>
+                            {task.description && (
+                              <p className="text-sm text-gray-600">{task.description}</p>
+                            )}
+                            <TaskFieldValues fields={project.task_fields} metadata={task.metadata} />
+                            {canManageBilling && task.hourly_rate !== null && (
+                              <p className="text-xs text-gray-500 mt-1">{formatMoney(task.hourly_rate)}/h</p>
+                            )}
+                            {task.budget_hours !== null && (
+                              <TaskBudget budget={task.budget_hours} usage={taskUsage(budgetUsage, task.id)} />
+                            )}
+                          </div>
+                          {canEdit(project.id) && (
+                            <div className="flex space-x-1">
+                              <button
+                                onClick={() => setEditingTask(task.id)}
+                                className="p-1 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => deleteTask(task.id)}
+                                className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => setHistory({ table: 'tasks', id: task.id, title: `${project.name} · ${task.name}` })}
+                                className="p-1 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded"
+                                title="History"
+                              >
+                                <History className="w-4 h-4" />
+                              </button>
+                            </div>
                           )}
                         </div>
-                        <button
-                          onClick={() => deleteTask(task.id)}
-                          className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </div>
+                      )
                     ))}
 
-                    {getProjectTasks(project.id).length === 0 && (
-                      <p className="text-sm text-gray-500 italic">No tasks yet</p>
+                    {getProjectTasks(project).length === 0 && (
+                      <p className="text-sm text-gray-500 italic">
+                        {taskFilters[project.id]?.value ? 'No tasks match this filter' : 'No tasks yet'}
+                      </p>
                     )}
                   </div>
                 </div>
+                {canEdit(project.id) && <ProjectMembers projectId={project.id} />}
+                {canManageBilling && <ProjectRates projectId={project.id} />}
               </>
             )}
           </div>
         ))}
 
-        {projects.length === 0 && (
+        {projects.length === 0 && focusedProjectId && (
           <div className="text-center py-12">
             <FolderOpen className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No projects yet</h3>
-            <p className="text-gray-600">Create your first project to start tracking time</p>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Project not found</h3>
+            <p className="text-gray-600">It may have been deleted, or you are not a member of it</p>
           </div>
         )}
+
+        {projects.length === 0 && !focusedProjectId && (
+          <div className="text-center py-12">
+            <FolderOpen className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {statusFilter === 'open' ? 'No projects yet' : `No ${projectStatusLabel(statusFilter).toLowerCase()} projects`}
+            </h3>
+            {statusFilter === 'open' && (
+              <p className="text-gray-600">
+                {canCreateProjects
+                  ? 'Create your first project to start tracking time'
+                  : 'Ask a supervisor to add you to the projects you work on'}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {history && (
+        <RecordHistory
+          table={history.table}
+          recordId={history.id}
+          title={history.title}
+          onClose={() => setHistory(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+const statusStyles: Record<ProjectStatus, string> = {
+  active: 'bg-green-100 text-green-700',
+  on_hold: 'bg-amber-100 text-amber-700',
+  completed: 'bg-blue-100 text-blue-700',
+  archived: 'bg-gray-100 text-gray-600'
+}
+
+const levelStyles: Record<BudgetLevel, { bar: string; text: string }> = {
+  ok: { bar: 'bg-teal-500', text: 'text-gray-600' },
+  warning: { bar: 'bg-amber-500', text: 'text-amber-700' },
+  over: { bar: 'bg-red-500', text: 'text-red-700' }
+}
+
+interface BudgetProps {
+  budget: number
+  usage: BudgetUsage[]
+}
+
+const ProjectBudget: React.FC<BudgetProps> = ({ budget, usage }) => {
+  const summary = summarizeBudget(budget, usage)
+  const styles = levelStyles[summary.level]
+
+  return (
+    <div className="mt-4 max-w-md">
+      <div className="flex items-center justify-between text-sm mb-1">
+        <div className="flex items-center space-x-1 text-gray-700">
+          <Gauge className="w-4 h-4" />
+          <span>{summary.used.toFixed(1)}h of {budget}h used</span>
+        </div>
+        <span className={styles.text}>
+          {summary.remaining >= 0
+            ? `${summary.remaining.toFixed(1)}h remaining`
+            : `${Math.abs(summary.remaining).toFixed(1)}h over budget`}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-full ${styles.bar}`} style={{ width: `${Math.min(summary.ratio, 1) * 100}%` }} />
       </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {summary.runOutDate
+          ? `At ${(summary.dailyBurn * 7).toFixed(1)}h per week the budget runs out around ${format(summary.runOutDate, 'MMM d, yyyy')}`
+          : summary.remaining > 0
+            ? 'No hours logged in the last four weeks'
+            : 'The budget is used up'}
+      </p>
     </div>
   )
 }
 
+const TaskBudget: React.FC<BudgetProps> = ({ budget, usage }) => {
+  const used = usedHours(usage)
+  const styles = levelStyles[budgetLevel(used / budget)]
+
+  return (
+    <p className={`text-xs mt-1 ${styles.text}`}>
+      {used.toFixed(1)}h of {budget}h budget
+    </p>
+  )
+}
+
 interface ProjectFormProps {
   project?: Project
+  showBilling?: boolean
   onSave: (project: Partial<Project>) => void
   onCancel: () => void
 }
 
-const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSave, onCancel }) => {
+const ProjectForm: React.FC<ProjectFormProps> = ({ project, showBilling, onSave, onCancel }) => {
+  const { data: clients = [] } = useClients()
   const [formData, setFormData] = useState({
     name: project?.name || '',
-    client: project?.client || '',
+    client_id: project?.client_id || '',
     description: project?.description || '',
-    start_date: project?.start_date || format(new Date(), 'yyyy-MM-dd')
+    start_date: project?.start_date || format(new Date(), 'yyyy-MM-dd'),
+    end_date: project?.end_date || '',
+    status: project?.status || 'active',
+    hourly_rate: project?.hourly_rate?.toString() || '',
+    budget_hours: project?.budget_hours?.toString() || '',
+    task_fields: project?.task_fields || []
   })
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    if (!formData.name.trim() || !formData.client.trim()) {
+    if (!formData.name.trim() || !formData.client_id) {
       toast.error('Please fill in all required fields')
       return
     }
+    if (formData.end_date && formData.end_date < formData.start_date) {
+      toast.error('End date cannot be before the start date')
+      return
+    }
+    if (formData.task_fields.some(field => !field.label.trim())) {
+      toast.error('Every task field needs a name')
+      return
+    }
+    if (formData.task_fields.some(field => field.type === 'select' && !field.options?.some(Boolean))) {
+      toast.error('Select fields need at least one option')
+      return
+    }
 
+    const { hourly_rate, budget_hours, end_date, ...fields } = formData
     onSave({
       ...(project ? { id: project.id } : {}),
-      ...formData
+      ...fields,
+      end_date: end_date || null,
+      task_fields: fields.task_fields.map(field => ({
+        ...field,
+        label: field.label.trim(),
+        ...(field.type === 'select' ? { options: (field.options || []).filter(Boolean) } : {})
+      })),
+      ...(showBilling ? {
+        budget_hours: budget_hours === '' ? null : Number(budget_hours),
+        hourly_rate: Number(hourly_rate) || 0
+      } : {})
     })
   }
 
@@ -387,29 +601,105 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSave, onCancel })
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Client *
             </label>
-            <input
-              type="text"
-              value={formData.client}
-              onChange={(e) => setFormData({ ...formData, client: e.target.value })}
+            <select
+              value={formData.client_id}
+              onChange={(e) => setFormData({ ...formData, client_id: e.target.value })}
               className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Client name"
               required
+            >
+              <option value="">Select Client</option>
+              {clients.map(client => (
+                <option key={client.id} value={client.id}>
+                  {client.name}
+                </option>
+              ))}
+            </select>
+            {clients.length === 0 && (
+              <p className="text-xs text-gray-500 mt-1">Add a client on the Clients page first</p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Start Date
+            </label>
+            <input
+              type="date"
+              value={formData.start_date}
+              onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              End Date
+            </label>
+            <input
+              type="date"
+              value={formData.end_date}
+              min={formData.start_date}
+              onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
         </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Start Date
-          </label>
-          <input
-            type="date"
-            value={formData.start_date}
-            onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
-            className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Status
+            </label>
+            <select
+              value={formData.status}
+              onChange={(e) => setFormData({ ...formData, status: e.target.value as ProjectStatus })}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {PROJECT_STATUSES.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
+        {showBilling && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Hour Budget
+              </label>
+              <input
+                type="number"
+                min="0.5"
+                step="0.5"
+                value={formData.budget_hours}
+                onChange={(e) => setFormData({ ...formData, budget_hours: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="No budget"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Hourly Rate
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.hourly_rate}
+                onChange={(e) => setFormData({ ...formData, hourly_rate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+        )}
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
             Description
@@ -423,6 +713,17 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSave, onCancel })
           />
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Task Fields
+          </label>
+          <p className="text-xs text-gray-500 mb-2">Extra details every task in this project can record, like ticket numbers or phases</p>
+          <TaskFieldsEditor
+            fields={formData.task_fields}
+            onChange={(taskFields) => setFormData({ ...formData, task_fields: taskFields })}
+          />
+        </div>
+
         <div className="flex justify-end space-x-3">
           <button
             type="button"
@@ -446,17 +747,25 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSave, onCancel })
 
 interface TaskFormProps {
   projectId: string
+  fields: TaskField[]
   task?: Task
+  showBilling?: boolean
   onSave: (task: Partial<Task>) => void
   onCancel: () => void
 }
 
-const TaskForm: React.FC<TaskFormProps> = ({ projectId, task, onSave, onCancel }) => {
+const TaskForm: React.FC<TaskFormProps> = ({ projectId, fields: taskFields, task, showBilling, onSave, onCancel }) => {
   const [formData, setFormData] = useState({
     name: task?.name || '',
     description: task?.description || '',
-    metadata: task?.metadata || {}
+    metadata: task?.metadata || {},
+    hourly_rate: task?.hourly_rate?.toString() || '',
+    budget_hours: task?.budget_hours?.toString() || ''
   })
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(taskFields.map(field => [field.key, task?.metadata?.[field.key]?.toString() || '']))
+  )
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -465,10 +774,39 @@ const TaskForm: React.FC<TaskFormProps> = ({ projectId, task, onSave, onCancel }
       return
     }
 
+    const errors: Record<string, string> = {}
+    taskFields.forEach(field => {
+      const error = validateTaskField(field, fieldValues[field.key]?.trim())
+      if (error) errors[field.key] = error
+    })
+    setFieldErrors(errors)
+    if (Object.keys(errors).length > 0) {
+      toast.error('Please fix the highlighted fields')
+      return
+    }
+
+    // Values of fields the project no longer defines are kept as they were
+    const metadata = { ...formData.metadata }
+    taskFields.forEach(field => {
+      const value = parseTaskFieldValue(field, fieldValues[field.key] || '')
+      if (value === undefined) {
+        delete metadata[field.key]
+      } else {
+        metadata[field.key] = value
+      }
+    })
+
+    const { hourly_rate, budget_hours, ...fields } = formData
     onSave({
       ...(task ? { id: task.id } : {}),
       project_id: projectId,
-      ...formData
+      ...fields,
+      metadata,
+      ...(showBilling ? {
+        budget_hours: budget_hours === '' ? null : Number(budget_hours),
+        // Leaving the rate empty falls back to the project rate
+        hourly_rate: hourly_rate === '' ? null : Number(hourly_rate)
+      } : {})
     })
   }
 
@@ -496,6 +834,43 @@ const TaskForm: React.FC<TaskFormProps> = ({ projectId, task, onSave, onCancel }
           />
         </div>
 
+        {showBilling && (
+          <div>
+            <input
+              type="number"
+              min="0.5"
+              step="0.5"
+              value={formData.budget_hours}
+              onChange={(e) => setFormData({ ...formData, budget_hours: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Hour budget (optional)"
+            />
+          </div>
+        )}
+
+        {taskFields.length > 0 && (
+          <TaskFieldInputs
+            fields={taskFields}
+            values={fieldValues}
+            errors={fieldErrors}
+            onChange={setFieldValues}
+          />
+        )}
+
+        {showBilling && (
+          <div>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.hourly_rate}
+              onChange={(e) => setFormData({ ...formData, hourly_rate: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Hourly rate (optional, overrides the project rate)"
+            />
+          </div>
+        )}
+
         <div className="flex justify-end space-x-2">
           <button
             type="button"
@@ -0,0 +1,111 @@
+import React, { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { WifiOff, RefreshCw, AlertTriangle, UploadCloud } from 'lucide-react'
+import { useOfflineSync } from '../hooks/useOfflineSync'
+import { resolveConflict } from '../lib/api'
+import type { Project, TimeEntry } from '../lib/api'
+import type { SyncConflict } from '../lib/offlineQueue'
+import toast from 'react-hot-toast'
+
+export const SyncIndicator: React.FC = () => {
+  const { online, pendingCount, syncing, syncNow } = useOfflineSync()
+
+  if (online && pendingCount === 0 && !syncing) return null
+
+  if (!online) {
+    return (
+      <div className="flex items-center space-x-2 bg-amber-50 border border-amber-100 text-amber-700 rounded-lg px-3 py-1.5 text-xs font-medium">
+        <WifiOff className="w-4 h-4" />
+        <span>Offline{pendingCount > 0 && ` · ${pendingCount} to sync`}</span>
+      </div>
+    )
+  }
+
+  return (
+    <button
+      onClick={syncNow}
+      disabled={syncing}
+      className="flex items-center space-x-2 bg-blue-50 border border-blue-100 text-blue-700 rounded-lg px-3 py-1.5 text-xs font-medium hover:bg-blue-100 transition-colors disabled:opacity-75"
+      title="Sync now"
+    >
+      <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+      <span>{syncing ? 'Syncing...' : `${pendingCount} to sync`}</span>
+    </button>
+  )
+}
+
+interface SyncConflictsProps {
+  projects: Project[]
+}
+
+export const SyncConflicts: React.FC<SyncConflictsProps> = ({ projects }) => {
+  const { conflicts } = useOfflineSync()
+  const [resolving, setResolving] = useState<string | null>(null)
+
+  if (conflicts.length === 0) return null
+
+  const resolve = async (conflict: SyncConflict, keep: 'mine' | 'server') => {
+    setResolving(conflict.id)
+    try {
+      await resolveConflict(conflict, keep)
+      toast.success(keep === 'mine' ? 'Your version was saved' : 'Kept the server version')
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error)
+      toast.error('Failed to save your version')
+    } finally {
+      setResolving(null)
+    }
+  }
+
+  const describe = (entry: TimeEntry | null) => {
+    if (!entry) return 'Deleted'
+    const project = projects.find(p => p.id === entry.project_id)
+    return `${format(parseISO(entry.date), 'EEE MMM d')} · ${entry.start_time.slice(0, 5)} - ${entry.end_time.slice(0, 5)} · ${project?.name || 'Unknown project'}${entry.description ? ` · ${entry.description}` : ''}`
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-xl">
+      <div className="flex items-center space-x-2 px-4 py-3 border-b border-amber-100">
+        <AlertTriangle className="w-5 h-5 text-amber-500" />
+        <p className="text-sm font-medium text-amber-900">
+          {conflicts.length} offline {conflicts.length === 1 ? 'change' : 'changes'} could not be synced
+        </p>
+      </div>
+
+      <div className="divide-y divide-amber-100">
+        {conflicts.map(conflict => (
+          <div key={conflict.id} className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 px-4 py-3">
+            <div className="text-sm space-y-1 min-w-0">
+              <p className="font-medium text-amber-900">{conflict.reason}</p>
+              <p className="text-gray-700 truncate">
+                <span className="text-gray-500">Yours: </span>
+                {describe(conflict.local)}
+              </p>
+              <p className="text-gray-700 truncate">
+                <span className="text-gray-500">Server: </span>
+                {describe(conflict.server)}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2 flex-shrink-0">
+              <button
+                onClick={() => resolve(conflict, 'server')}
+                disabled={resolving === conflict.id}
+                className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-200 rounded-lg hover:border-gray-300 transition-colors disabled:opacity-50"
+              >
+                Keep server
+              </button>
+              <button
+                onClick={() => resolve(conflict, 'mine')}
+                disabled={resolving === conflict.id}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-white bg-amber-600 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+              >
+                <UploadCloud className="w-4 h-4" />
+                <span>Keep mine</span>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
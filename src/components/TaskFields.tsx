@@ -0,0 +1,232 @@
+import React, { useState } from 'react'
+import { Plus, Trash2, Filter } from 'lucide-react'
+import type { TaskField, TaskFieldType } from '../lib/api'
+import { TASK_FIELD_TYPES, TaskFieldFilter, formatTaskFieldValue, taskFieldKey } from '../lib/taskFields'
+import toast from 'react-hot-toast'
+
+const inputClass = 'text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+interface TaskFieldsEditorProps {
+  fields: TaskField[]
+  onChange: (fields: TaskField[]) => void
+}
+
+// Defines the custom fields a project's tasks can fill in
+export const TaskFieldsEditor: React.FC<TaskFieldsEditorProps> = ({ fields, onChange }) => {
+  const [label, setLabel] = useState('')
+  const [type, setType] = useState<TaskFieldType>('text')
+
+  const updateField = (key: string, changes: Partial<TaskField>) => {
+    onChange(fields.map(field => (field.key === key ? { ...field, ...changes } : field)))
+  }
+
+  const addField = () => {
+    if (!label.trim()) {
+      toast.error('Please enter a field name')
+      return
+    }
+
+    const key = taskFieldKey(label, fields.map(field => field.key))
+    onChange([...fields, { key, label: label.trim(), type, ...(type === 'select' ? { options: [] } : {}) }])
+    setLabel('')
+    setType('text')
+  }
+
+  return (
+    <div className="space-y-2">
+      {fields.map(field => (
+        <div key={field.key} className="flex flex-wrap items-center gap-2 p-2 bg-white rounded-lg border border-gray-200">
+          <input
+            type="text"
+            value={field.label}
+            onChange={(e) => updateField(field.key, { label: e.target.value })}
+            className={`${inputClass} flex-1 min-w-[8rem]`}
+          />
+          <span className="text-xs text-gray-500 w-16">
+            {TASK_FIELD_TYPES.find(option => option.value === field.type)?.label}
+          </span>
+          {field.type === 'select' && (
+            <input
+              type="text"
+              value={(field.options || []).join(', ')}
+              onChange={(e) => updateField(field.key, { options: e.target.value.split(',').map(option => option.trim()) })}
+              onBlur={() => updateField(field.key, { options: (field.options || []).filter(Boolean) })}
+              placeholder="Options, separated by commas"
+              className={`${inputClass} flex-1 min-w-[10rem]`}
+            />
+          )}
+          <label className="flex items-center space-x-1 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={!!field.required}
+              onChange={(e) => updateField(field.key, { required: e.target.checked })}
+            />
+            <span>Required</span>
+          </label>
+          <button
+            type="button"
+            onClick={() => onChange(fields.filter(f => f.key !== field.key))}
+            className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+            title="Remove field"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="New field, e.g. Ticket number"
+          className={`${inputClass} flex-1`}
+        />
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as TaskFieldType)}
+          className={inputClass}
+        >
+          {TASK_FIELD_TYPES.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={addField}
+          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+          title="Add field"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
+
+interface TaskFieldInputsProps {
+  fields: TaskField[]
+  values: Record<string, string>
+  errors: Record<string, string>
+  onChange: (values: Record<string, string>) => void
+}
+
+export const TaskFieldInputs: React.FC<TaskFieldInputsProps> = ({ fields, values, errors, onChange }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+    {fields.map(field => (
+      <div key={field.key}>
+        <label className="block text-xs font-medium text-gray-700 mb-1">
+          {field.label}{field.required && ' *'}
+        </label>
+        {field.type === 'select' ? (
+          <select
+            value={values[field.key] || ''}
+            onChange={(e) => onChange({ ...values, [field.key]: e.target.value })}
+            className={`w-full ${inputClass}`}
+          >
+            <option value="">—</option>
+            {(field.options || []).map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type={field.type === 'url' ? 'url' : field.type}
+            step={field.type === 'number' ? 'any' : undefined}
+            value={values[field.key] || ''}
+            onChange={(e) => onChange({ ...values, [field.key]: e.target.value })}
+            placeholder={field.type === 'url' ? 'https://' : undefined}
+            className={`w-full ${inputClass} ${errors[field.key] ? 'border-red-300' : ''}`}
+          />
+        )}
+        {errors[field.key] && <p className="text-xs text-red-600 mt-1">{errors[field.key]}</p>}
+      </div>
+    ))}
+  </div>
+)
+
+interface TaskFieldValuesProps {
+  fields: TaskField[]
+  metadata: Record<string, unknown>
+}
+
+export const TaskFieldValues: React.FC<TaskFieldValuesProps> = ({ fields, metadata }) => {
+  const filled = fields.filter(field => formatTaskFieldValue(field, metadata?.[field.key]) !== '')
+  if (filled.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {filled.map(field => {
+        const value = formatTaskFieldValue(field, metadata[field.key])
+        return (
+          <span key={field.key} className="text-xs bg-white border border-gray-200 text-gray-600 rounded px-2 py-0.5">
+            <span className="text-gray-400">{field.label}:</span>{' '}
+            {field.type === 'url' ? (
+              <a href={value} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                {value}
+              </a>
+            ) : (
+              value
+            )}
+          </span>
+        )
+      })}
+    </div>
+  )
+}
+
+interface TaskFieldFilterBarProps {
+  fields: TaskField[]
+  filter: TaskFieldFilter | undefined
+  onChange: (filter: TaskFieldFilter) => void
+}
+
+export const TaskFieldFilterBar: React.FC<TaskFieldFilterBarProps> = ({ fields, filter, onChange }) => {
+  const key = filter?.key || ''
+  const value = filter?.value || ''
+  const field = fields.find(f => f.key === key)
+
+  return (
+    <div className="flex items-center space-x-2 mb-3">
+      <Filter className="w-4 h-4 text-gray-400" />
+      <select
+        value={key}
+        onChange={(e) => onChange({ key: e.target.value, value: '' })}
+        className={inputClass}
+      >
+        <option value="">Filter by field</option>
+        {fields.map(f => (
+          <option key={f.key} value={f.key}>
+            {f.label}
+          </option>
+        ))}
+      </select>
+      {field && (field.type === 'select' ? (
+        <select
+          value={value}
+          onChange={(e) => onChange({ key, value: e.target.value })}
+          className={inputClass}
+        >
+          <option value="">Any</option>
+          {(field.options || []).map(option => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type={field.type === 'date' ? 'date' : 'text'}
+          value={value}
+          onChange={(e) => onChange({ key, value: e.target.value })}
+          placeholder="Contains..."
+          className={`${inputClass} flex-1`}
+        />
+      ))}
+    </div>
+  )
+}
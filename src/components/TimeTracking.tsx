@@ -1,200 +1,604 @@
-import React, { useState, useEffect } from 'react'
-import { format, startOfWeek, endOfWeek, eachDayOfInterval, addWeeks, subWeeks, parseISO, addHours, setHours, setMinutes } from 'date-fns'
-import { ChevronLeft, ChevronRight, Plus, Edit, Trash2, Save, X } from 'lucide-react'
-import { supabase } from '../lib/supabase'
+import React, { useState } from 'react'
+import { format, startOfWeek, endOfWeek, eachDayOfInterval, parseISO } from 'date-fns'
+import { ChevronLeft, ChevronRight, CalendarDays, Plus, Edit, Trash2, Save, X, Upload, Moon, CornerDownRight, Send, Lock, MessageSquare, CloudOff, Receipt, AlertTriangle, Copy, Repeat, Check, CalendarX, PartyPopper, History, UserCog } from 'lucide-react'
+import {
+  Project,
+  Task,
+  TimeEntryWithRelations,
+  createTimeEntries,
+  createTimeEntry,
+  deleteTimeEntry as removeTimeEntry,
+  findOverlappingEntry as fetchOverlappingEntry,
+  resolveCalendarSuggestions,
+  skipTemplateDrafts,
+  submitTimesheet,
+  updateTimeEntry
+} from '../lib/api'
 import { useAuth } from '../hooks/useAuth'
+import { useRoute } from '../hooks/useRoute'
+import { updateQuery } from '../lib/router'
+import {
+  useAbsences,
+  useBudgetUsage,
+  useCalendarRules,
+  useCalendarSuggestions,
+  useClosedPeriods,
+  useDailyHours,
+  useEntryTemplates,
+  useProjects,
+  usePublicHolidays,
+  useTasks,
+  useTemplateSkips,
+  useTimeEntries,
+  useTimesheet,
+  useUserTimesheets,
+  useUsers
+} from '../hooks/useData'
+import { calculateHours, crossesMidnight, entriesOverlap, hoursOnDate, nextDate, previousDate } from '../lib/time'
+import { TIME_VIEW_MODES, resolveTimeView, shiftTimeView, switchTimeView, timeViewLabel, timeViewQuery } from '../lib/timeViews'
+import { exportTimeEntries, ExportFormat } from '../lib/export'
+import { budgetAlert, projectUsage, taskUsage } from '../lib/budget'
+import { projectDateError, projectOptionLabel, projectsForEntry } from '../lib/projects'
+import { closedPeriodOn, dayLockOn } from '../lib/periods'
+import {
+  SuggestionDraft,
+  TemplateDraft,
+  buildSuggestionDrafts,
+  buildTemplateDrafts,
+  draftToEntry,
+  suggestionToEntry
+} from '../lib/templates'
+import { DaysOff, absencesOn, expectedHours, flexBalance, formatHoursDiff, targetHours, workedHours } from '../lib/workTime'
+import { ExportMenu } from './ExportMenu'
+import { ImportEntries } from './ImportEntries'
+import { CopyWeek } from './CopyWeek'
+import { EntryTemplates } from './EntryTemplates'
+import { AbsenceRequests } from './Absences'
+import { CalendarImport } from './CalendarImport'
+import { RecordHistory } from './AuditLog'
+import { UndoToast } from './UndoToast'
+import { TimerBar } from './Timer'
+import { DayTimeline, EntryList, MonthCalendar } from './TimeViews'
+import { SyncConflicts } from './Sync'
+import { TimesheetStatusBadge } from './TimesheetStatusBadge'
 import toast from 'react-hot-toast'
 
-interface Project {
-  id: string
-  name: string
-  client: string
-}
-
-interface Task {
-  id: string
-  name: string
-  project_id: string
-}
+const diffClass = (hours: number) =>
+  hours >= 0.05 ? 'text-green-600' : hours <= -0.05 ? 'text-red-600' : 'text-gray-500'
 
-interface TimeEntry {
-  id: string
-  project_id: string
-  task_id: string | null
+interface EntryDraft {
+  id?: string
   date: string
+  project_id: string
+  task_id: string
   start_time: string
   end_time: string
-  hours: number
   description: string
-  project?: Project
-  task?: Task
+  billable: boolean
+  // Set when the entry was started from an imported calendar event
+  suggestionId?: string
 }
 
 export const TimeTracking: React.FC = () => {
   const { user } = useAuth()
-  const [currentWeek, setCurrentWeek] = useState(new Date())
-  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([])
-  const [projects, setProjects] = useState<Project[]>([])
-  const [tasks, setTasks] = useState<Task[]>([])
-  const [loading, setLoading] = useState(true)
+  const { query } = useRoute()
+  const view = resolveTimeView(query)
+  // Supervisors and managers can open someone else's time with ?as=<user id>
+  const canViewOthers = user?.role === 'supervisor' || user?.role === 'manager'
+  const viewedUserId = canViewOthers && query.as && query.as !== user?.id ? query.as : null
+  const personId = viewedUserId || user?.id
+  const ownUserId = viewedUserId ? undefined : user?.id
   const [editingEntry, setEditingEntry] = useState<string | null>(null)
-  const [newEntry, setNewEntry] = useState<{
-    date: string
-    project_id: string
-    task_id: string
-    start_time: string
-    end_time: string
-    description: string
-  } | null>(null)
-
-  const weekStart = startOfWeek(currentWeek, { weekStartsOn: 1 })
-  const weekEnd = endOfWeek(currentWeek, { weekStartsOn: 1 })
+  const [showImport, setShowImport] = useState(false)
+  const [showCopyWeek, setShowCopyWeek] = useState(false)
+  const [showTemplates, setShowTemplates] = useState(false)
+  const [showAbsences, setShowAbsences] = useState(false)
+  const [showCalendarImport, setShowCalendarImport] = useState(false)
+  const [historyEntry, setHistoryEntry] = useState<TimeEntryWithRelations | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [newEntry, setNewEntry] = useState<EntryDraft | null>(null)
+
+  const fromStr = format(view.start, 'yyyy-MM-dd')
+  const toStr = format(view.end, 'yyyy-MM-dd')
+  // The week holding the first visible day is the one submitted from the header
+  const weekStart = startOfWeek(view.start, { weekStartsOn: 1 })
+  const weekEnd = endOfWeek(view.start, { weekStartsOn: 1 })
   const weekDays = eachDayOfInterval({ start: weekStart, end: weekEnd })
+  const weekStartStr = format(weekStart, 'yyyy-MM-dd')
+  const weekEndStr = format(weekEnd, 'yyyy-MM-dd')
+  const todayStr = format(new Date(), 'yyyy-MM-dd')
+
+  const { data: projects = [] } = useProjects()
+  const { data: tasks = [] } = useTasks()
+  // Include the day before the period for entries running past midnight into it
+  const { data: timeEntries = [], loading } = useTimeEntries(
+    personId ? { userId: personId, from: previousDate(fromStr), to: toStr } : null
+  )
+  const { data: timesheet } = useTimesheet(personId, weekStartStr)
+  const { data: timesheets = [] } = useUserTimesheets(personId, weekStartStr, toStr)
+  const { data: users = [] } = useUsers()
+  // Recurring entries and calendar suggestions are only offered for your own time
+  const { data: templates = [] } = useEntryTemplates(ownUserId)
+  const { data: absences = [] } = useAbsences(personId ? { userId: personId } : null)
+  const { data: holidays = [] } = usePublicHolidays()
+  const { data: templateSkips = [] } = useTemplateSkips(ownUserId, fromStr, toStr)
+  const { data: calendarRules = [] } = useCalendarRules(ownUserId)
+  const { data: calendarSuggestions = [] } = useCalendarSuggestions(ownUserId, fromStr, toStr)
+  const { data: closedPeriods = [] } = useClosedPeriods()
+
+  const visibleEntries = timeEntries.filter(entry => entry.date >= fromStr)
+  const weekStatus = timesheet?.status || 'draft'
+  const isWeekLocked = weekStatus === 'approved'
+  const showsWeekStatus = view.mode === 'week' || view.mode === 'day'
+  const approvedWeeks = new Set(timesheets.filter(t => t.status === 'approved').map(t => t.week_start))
+  // Days in approved weeks and closed payroll periods are read-only
+  const dayLock = (date: string) => dayLockOn(closedPeriods, approvedWeeks, date)
+  const lockReason = (date: string) => {
+    const lock = dayLock(date)
+    if (lock === 'closed_period') return 'This day is in a closed period and can no longer be changed'
+    if (lock === 'approved_week') return 'This week has been approved and can no longer be changed'
+    return null
+  }
+  const isDateLocked = (date: string) => dayLock(date) !== null
+  const closedWeekDays = weekDays.filter(day => closedPeriodOn(closedPeriods, format(day, 'yyyy-MM-dd')))
+
+  // Days after today do not count yet, so a week in progress is not shown as short
+  const schedule = users.find(u => u.id === personId)
+  const viewedUser = users.find(u => u.id === viewedUserId)
+  const countedUntil = todayStr < weekEndStr ? todayStr : weekEndStr
+  const { data: dailyHours = [] } = useDailyHours(
+    schedule && showsWeekStatus ? schedule.flex_start : null,
+    weekEndStr,
+    personId
+  )
+  const daysOff: DaysOff = { absences: absences.filter(absence => absence.status === 'approved'), holidays }
+
+  const weekDiff = schedule
+    ? workedHours(schedule, dailyHours, weekStartStr, countedUntil) - expectedHours(schedule, weekStartStr, countedUntil, daysOff)
+    : 0
+  const balance = schedule ? flexBalance(schedule, dailyHours, countedUntil, daysOff) : 0
 
-  useEffect(() => {
-    fetchData()
-  }, [currentWeek, user])
+  const isDayOff = (date: string) =>
+    holidays.some(holiday => holiday.date === date) ||
+    absencesOn(daysOff.absences, personId || '', date).some(absence => absence.hours === null)
 
-  const fetchData = async () => {
+  // Recurring entries are only suggested where the days are laid out one by one
+  const drafts = showsWeekStatus
+    ? buildTemplateDrafts(
+        templates,
+        templateSkips,
+        visibleEntries,
+        projects,
+        eachDayOfInterval({ start: view.start, end: view.end })
+          .map(day => format(day, 'yyyy-MM-dd'))
+          .filter(date => !isDateLocked(date) && !isDayOff(date))
+      )
+    : []
+  const suggestionDrafts = showsWeekStatus
+    ? buildSuggestionDrafts(calendarSuggestions.filter(suggestion => !isDateLocked(suggestion.date)), calendarRules)
+    : []
+  const readyDrafts = drafts.length + suggestionDrafts.filter(draft => draft.rule).length
+
+  const findOverlappingEntry = async (entry: Pick<EntryDraft, 'id' | 'date' | 'start_time' | 'end_time'>) =>
+    personId ? fetchOverlappingEntry(personId, entry) : null
+
+  const submitWeek = async () => {
     if (!user) return
 
-    setLoading(true)
+    if (visibleEntries.length === 0 && !confirm('There are no time entries this week. Submit it anyway?')) {
+      return
+    }
+
+    setSubmitting(true)
     try {
-      // Fetch projects
-      const { data: projectsData, error: projectsError } = await supabase
-        .from('projects')
-        .select('*')
-        .order('name')
-
-      if (projectsError) throw projectsError
-      setProjects(projectsData || [])
-
-      // Fetch tasks
-      const { data: tasksData, error: tasksError } = await supabase
-        .from('tasks')
-        .select('*')
-        .order('name')
-
-      if (tasksError) throw tasksError
-      setTasks(tasksData || [])
-
-      // Fetch time entries for current week
-      const { data: entriesData, error: entriesError } = await supabase
-        .from('time_entries')
-        .select(`
-          *,
-          project:projects(*),
-          task:tasks(*)
-        `)
-        .eq('user_id', user.id)
-        .gte('date', format(weekStart, 'yyyy-MM-dd'))
-        .lte('date', format(weekEnd, 'yyyy-MM-dd'))
-        .order('date')
-        .order('start_time')
-
-      if (entriesError) throw entriesError
-      setTimeEntries(entriesData || [])
+      await submitTimesheet(user.id, weekStartStr)
+      toast.success('Week submitted for approval')
     } catch (error) {
-      console.error('Error fetching data:', error)
-      toast.error('Failed to load data')
+      console.error('Error submitting week:', error)
+      toast.error('Failed to submit week')
     } finally {
-      setLoading(false)
+      setSubmitting(false)
     }
   }
 
-  const calculateHours = (startTime: string, endTime: string): number => {
-    const start = parseISO(`2000-01-01T${startTime}:00`)
-    const end = parseISO(`2000-01-01T${endTime}:00`)
-    return (end.getTime() - start.getTime()) / (1000 * 60 * 60)
-  }
-
-  const saveTimeEntry = async (entry: Partial<TimeEntry>) => {
+  const saveTimeEntry = async (entry: EntryDraft) => {
     if (!user) return
 
+    const locked = lockReason(entry.date)
+    if (locked) {
+      toast.error(locked)
+      return
+    }
+
+    if (entry.start_time === entry.end_time) {
+      toast.error('End time must be different from start time')
+      return
+    }
+
+    // Entries that stay on their project and day can still be corrected after it closes
+    const original = entry.id ? timeEntries.find(e => e.id === entry.id) : undefined
+    if (!original || original.project_id !== entry.project_id) {
+      const dateError = projectDateError(projects.find(p => p.id === entry.project_id), entry.date)
+      if (dateError) {
+        toast.error(dateError)
+        return
+      }
+    }
+
     try {
-      const hours = calculateHours(entry.start_time!, entry.end_time!)
-      
+      const overlapping = await findOverlappingEntry(entry)
+      if (overlapping) {
+        toast.error(
+          `Overlaps ${overlapping.project?.name || 'another entry'} (${overlapping.start_time.slice(0, 5)} - ${overlapping.end_time.slice(0, 5)} on ${format(parseISO(overlapping.date), 'MMM d')})`
+        )
+        return
+      }
+
+      const hours = calculateHours(entry.start_time, entry.end_time)
+
       if (entry.id) {
         // Update existing entry
-        const { error } = await supabase
-          .from('time_entries')
-          .update({
-            project_id: entry.project_id,
-            task_id: entry.task_id || null,
-            start_time: entry.start_time,
-            end_time: entry.end_time,
-            hours,
-            description: entry.description,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', entry.id)
-
-        if (error) throw error
-        toast.success('Time entry updated')
+        const queued = await updateTimeEntry(entry.id, {
+          project_id: entry.project_id,
+          task_id: entry.task_id || null,
+          start_time: entry.start_time,
+          end_time: entry.end_time,
+          hours,
+          description: entry.description,
+          billable: entry.billable
+        })
+        toast.success(queued ? 'Saved offline, will sync when you are back online' : 'Time entry updated')
       } else {
         // Create new entry
-        const { error } = await supabase
-          .from('time_entries')
-          .insert({
-            user_id: user.id,
-            project_id: entry.project_id!,
-            task_id: entry.task_id || null,
-            date: entry.date!,
-            start_time: entry.start_time!,
-            end_time: entry.end_time!,
-            hours,
-            description: entry.description || ''
-          })
-
-        if (error) throw error
-        toast.success('Time entry added')
+        const queued = await createTimeEntry({
+          user_id: personId || user.id,
+          project_id: entry.project_id,
+          task_id: entry.task_id || null,
+          date: entry.date,
+          start_time: entry.start_time,
+          end_time: entry.end_time,
+          hours,
+          description: entry.description || '',
+          billable: entry.billable
+        })
+        if (entry.suggestionId) await resolveCalendarSuggestions([entry.suggestionId], 'accepted')
+        toast.success(queued ? 'Saved offline, will sync when you are back online' : 'Time entry added')
       }
 
       setEditingEntry(null)
       setNewEntry(null)
-      fetchData()
     } catch (error) {
       console.error('Error saving time entry:', error)
       toast.error('Failed to save time entry')
     }
   }
 
-  const deleteTimeEntry = async (id: string) => {
+  const deleteTimeEntry = async (entry: TimeEntryWithRelations) => {
+    const locked = lockReason(entry.date)
+    if (locked) {
+      toast.error(locked)
+      return
+    }
+
     try {
-      const { error } = await supabase
-        .from('time_entries')
-        .delete()
-        .eq('id', id)
-
-      if (error) throw error
-      toast.success('Time entry deleted')
-      fetchData()
+      const queued = await removeTimeEntry(entry.id)
+      if (queued) {
+        toast.success('Deleted offline, will sync when you are back online')
+      } else {
+        toast((t) => <UndoToast t={t} message="Time entry moved to trash" table="time_entries" recordId={entry.id} />, { duration: 6000 })
+      }
     } catch (error) {
       console.error('Error deleting time entry:', error)
       toast.error('Failed to delete time entry')
     }
   }
 
+  // Calendar drafts without a matching keyword rule have no project yet and are left out
+  const confirmDrafts = async (templateDrafts: TemplateDraft[], calendarDrafts: SuggestionDraft[] = []) => {
+    if (!user) return
+
+    const candidates = [
+      ...templateDrafts.map(draft => ({ entry: draftToEntry(draft, user.id), suggestionId: null })),
+      ...calendarDrafts.flatMap(draft => {
+        const entry = suggestionToEntry(draft, user.id)
+        return entry ? [{ entry, suggestionId: draft.suggestion.id }] : []
+      })
+    ]
+    const accepted: typeof candidates = []
+    for (const candidate of candidates) {
+      const existing = await findOverlappingEntry(candidate.entry)
+      const drafted = accepted.find(other => entriesOverlap(other.entry, candidate.entry))
+      if (existing || drafted) {
+        const name = existing ? existing.project?.name : projects.find(p => p.id === drafted?.entry.project_id)?.name
+        toast.error(`${format(parseISO(candidate.entry.date), 'MMM d')}: overlaps ${name || 'another entry'}`)
+        continue
+      }
+      accepted.push(candidate)
+    }
+    if (accepted.length === 0) return
+
+    try {
+      const entries = accepted.map(candidate => candidate.entry)
+      const queued = await createTimeEntries(entries)
+      const suggestionIds = accepted.flatMap(candidate => (candidate.suggestionId ? [candidate.suggestionId] : []))
+      if (suggestionIds.length > 0) await resolveCalendarSuggestions(suggestionIds, 'accepted')
+      toast.success(
+        queued
+          ? 'Saved offline, will sync when you are back online'
+          : `Added ${entries.length} time ${entries.length === 1 ? 'entry' : 'entries'}`
+      )
+    } catch (error) {
+      console.error('Error confirming drafts:', error)
+      toast.error('Failed to add time entries')
+    }
+  }
+
+  const dismissDraft = async (draft: TemplateDraft) => {
+    try {
+      await skipTemplateDrafts([{ template_id: draft.template.id, date: draft.date }])
+    } catch (error) {
+      console.error('Error dismissing draft:', error)
+      toast.error('Failed to dismiss draft')
+    }
+  }
+
+  const dismissSuggestion = async (draft: SuggestionDraft) => {
+    try {
+      await resolveCalendarSuggestions([draft.suggestion.id], 'dismissed')
+    } catch (error) {
+      console.error('Error dismissing suggestion:', error)
+      toast.error('Failed to dismiss suggestion')
+    }
+  }
+
+  const editSuggestion = ({ suggestion, rule }: SuggestionDraft) => {
+    setNewEntry({
+      date: suggestion.date,
+      project_id: rule?.project_id || '',
+      task_id: rule?.task_id || '',
+      start_time: suggestion.start_time.slice(0, 5),
+      end_time: suggestion.end_time.slice(0, 5),
+      description: suggestion.summary,
+      billable: rule?.billable ?? true,
+      suggestionId: suggestion.id
+    })
+  }
+
   const getEntriesForDay = (date: Date) => {
     const dateStr = format(date, 'yyyy-MM-dd')
     return timeEntries.filter(entry => entry.date === dateStr)
   }
 
+  const getOvernightEntriesEndingOn = (date: Date) => {
+    const dateStr = format(date, 'yyyy-MM-dd')
+    return timeEntries.filter(entry =>
+      crossesMidnight(entry.start_time, entry.end_time) && nextDate(entry.date) === dateStr
+    )
+  }
+
   const getTotalHoursForDay = (date: Date) => {
-    return getEntriesForDay(date).reduce((total, entry) => total + entry.hours, 0)
+    const dateStr = format(date, 'yyyy-MM-dd')
+    return timeEntries.reduce((total, entry) => total + hoursOnDate(entry, dateStr), 0)
+  }
+
+  const renderDayTarget = (day: Date) => {
+    if (!schedule) return null
+
+    const date = format(day, 'yyyy-MM-dd')
+    const target = targetHours(schedule, date, daysOff)
+    const worked = getTotalHoursForDay(day)
+    if (target === 0 && worked === 0) return null
+
+    return (
+      <div className="text-xs text-gray-500">
+        of {target}h
+        {date <= todayStr && <span className={`ml-1 ${diffClass(worked - target)}`}>{formatHoursDiff(worked - target)}</span>}
+      </div>
+    )
   }
 
-  const startNewEntry = (date: Date) => {
+  const exportPeriod = (fileFormat: ExportFormat) => {
+    if (visibleEntries.length === 0) {
+      toast.error('No time entries to export in this period')
+      return
+    }
+
+    exportTimeEntries(visibleEntries, {
+      filename: `timesheet-${viewedUser?.name || user?.name || 'me'}-${view.mode === 'week' || fromStr === toStr ? fromStr : `${fromStr}_${toStr}`}`,
+      format: fileFormat
+    })
+  }
+
+  const showDay = (date: Date | string) =>
+    updateQuery(timeViewQuery('day', typeof date === 'string' ? parseISO(date) : date))
+
+  const jumpTo = (date: string) => {
+    if (date) updateQuery(timeViewQuery(view.mode, parseISO(date)))
+  }
+
+  const startNewEntry = (date: Date, hour = 9) => {
+    const pad = (value: number) => value.toString().padStart(2, '0')
     setNewEntry({
       date: format(date, 'yyyy-MM-dd'),
       project_id: '',
       task_id: '',
-      start_time: '09:00',
-      end_time: '10:00',
-      description: ''
+      start_time: `${pad(hour)}:00`,
+      end_time: `${pad((hour + 1) % 24)}:00`,
+      description: '',
+      billable: true
     })
   }
 
+  const renderDayEntries = (day: Date) => {
+    const entries = getEntriesForDay(day)
+    const dateStr = format(day, 'yyyy-MM-dd')
+    const holiday = holidays.find(h => h.date === dateStr)
+
+    return (
+      <div className="space-y-2">
+        {holiday && (
+          <div className="flex items-center space-x-1 rounded-lg px-2 py-1.5 bg-purple-50 border border-purple-100 text-xs text-purple-700">
+            <PartyPopper className="w-3 h-3 flex-shrink-0" />
+            <span className="font-medium truncate">{holiday.name}</span>
+          </div>
+        )}
+
+        {personId && absencesOn(absences, personId, dateStr)
+          .filter(absence => absence.status !== 'rejected')
+          .map((absence) => (
+            <div
+              key={absence.id}
+              className={`flex items-center space-x-1 rounded-lg px-2 py-1.5 text-xs text-gray-700 border ${
+                absence.status === 'pending' ? 'border-dashed border-gray-300' : 'border-transparent'
+              }`}
+              style={{ backgroundColor: `${absence.type?.color}20` }}
+              title={absence.status === 'pending' ? 'Waiting for approval' : absence.note}
+            >
+              <CalendarX className="w-3 h-3 flex-shrink-0" style={{ color: absence.type?.color }} />
+              <span className="font-medium truncate">{absence.type?.name}</span>
+              {absence.hours !== null && <span>{absence.hours}h</span>}
+              {absence.status === 'pending' && <span className="text-gray-500">(pending)</span>}
+            </div>
+          ))}
+
+        {getOvernightEntriesEndingOn(day).map((entry) => (
+          <div
+            key={`${entry.id}-continued`}
+            className="flex items-start space-x-1 rounded-lg px-2 py-1.5 bg-indigo-50 border border-indigo-100 text-xs text-indigo-700"
+            title="Continued from the previous day"
+          >
+            <CornerDownRight className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            <div className="min-w-0">
+              <div className="font-medium truncate">{entry.project?.name}</div>
+              <div>
+                until {entry.end_time.slice(0, 5)} · {hoursOnDate(entry, format(day, 'yyyy-MM-dd')).toFixed(1)}h
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {entries.map((entry) => (
+          <TimeEntryCard
+            key={entry.id}
+            entry={entry}
+            projects={projects}
+            tasks={tasks}
+            isEditing={editingEntry === entry.id}
+            readOnly={isDateLocked(entry.date) || !!entry.invoice_id}
+            onEdit={() => setEditingEntry(entry.id)}
+            onSave={saveTimeEntry}
+            onCancel={() => setEditingEntry(null)}
+            onDelete={() => deleteTimeEntry(entry)}
+            onShowHistory={() => setHistoryEntry(entry)}
+            editedBy={entry.edited_by ? users.find(u => u.id === entry.edited_by)?.name || 'a supervisor' : undefined}
+          />
+        ))}
+
+        {drafts.filter(draft => draft.date === format(day, 'yyyy-MM-dd')).map((draft) => {
+          const project = projects.find(p => p.id === draft.template.project_id)
+          const task = tasks.find(t => t.id === draft.template.task_id)
+
+          return (
+            <div
+              key={draft.key}
+              className="rounded-lg px-2 py-1.5 border border-dashed border-gray-300 bg-gray-50 text-xs text-gray-500"
+              title="Suggested by a recurring entry"
+            >
+              <div className="flex items-center space-x-1 font-medium text-gray-700">
+                <Repeat className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">{project?.name || 'Unknown project'}</span>
+              </div>
+              {task && <div className="truncate">{task.name}</div>}
+              <div>
+                {draft.template.start_time.slice(0, 5)} - {draft.template.end_time.slice(0, 5)}
+              </div>
+              <div className="flex justify-end space-x-1 mt-1">
+                <button
+                  onClick={() => confirmDrafts([draft])}
+                  className="p-1 text-green-600 hover:text-green-700 transition-colors"
+                  title="Confirm"
+                >
+                  <Check className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => dismissDraft(draft)}
+                  className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                  title="Dismiss"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          )
+        })}
+
+        {suggestionDrafts.filter(draft => draft.suggestion.date === dateStr).map((draft) => (
+          <div
+            key={draft.suggestion.id}
+            className="rounded-lg px-2 py-1.5 border border-dashed border-purple-200 bg-purple-50/50 text-xs text-gray-500"
+            title="Suggested from your calendar"
+          >
+            <div className="flex items-center space-x-1 font-medium text-gray-700">
+              <CalendarDays className="w-3 h-3 flex-shrink-0 text-purple-500" />
+              <span className="truncate">{draft.suggestion.summary || 'Calendar event'}</span>
+            </div>
+            <div className="truncate">
+              {draft.rule ? projects.find(p => p.id === draft.rule?.project_id)?.name : 'No matching rule'}
+            </div>
+            <div>
+              {draft.suggestion.start_time.slice(0, 5)} - {draft.suggestion.end_time.slice(0, 5)}
+            </div>
+            <div className="flex justify-end space-x-1 mt-1">
+              {draft.rule && (
+                <button
+                  onClick={() => confirmDrafts([], [draft])}
+                  className="p-1 text-green-600 hover:text-green-700 transition-colors"
+                  title="Confirm"
+                >
+                  <Check className="w-3 h-3" />
+                </button>
+              )}
+              <button
+                onClick={() => editSuggestion(draft)}
+                className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                title="Edit before adding"
+              >
+                <Edit className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => dismissSuggestion(draft)}
+                className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                title="Dismiss"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {newEntry && newEntry.date === format(day, 'yyyy-MM-dd') && (
+          <NewEntryForm
+            entry={newEntry}
+            projects={projectsForEntry(projects)}
+            tasks={tasks}
+            onChange={setNewEntry}
+            onSave={saveTimeEntry}
+            onCancel={() => setNewEntry(null)}
+          />
+        )}
+
+        {!isDateLocked(format(day, 'yyyy-MM-dd')) && (
+          <button
+            onClick={() => startNewEntry(day)}
+            className="w-full p-2 border-2 border-dashed border-gray-300 rounded-lg text-gray-400 hover:border-blue-300 hover:text-blue-500 transition-colors duration-200"
+          >
+            <Plus className="w-4 h-4 mx-auto" />
+          </button>
+        )}
+      </div>
+    )
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -208,21 +612,23 @@ export const TimeTracking: React.FC = () => {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Time Tracking</h1>
-          <p className="text-gray-600">Track your time across projects and tasks</p>
+          <p className="text-gray-600">
+            {viewedUser ? `Viewing ${viewedUser.name}'s time` : 'Track your time across projects and tasks'}
+          </p>
         </div>
 
         <div className="flex items-center space-x-4">
           <button
-            onClick={() => setCurrentWeek(subWeeks(currentWeek, 1))}
+            onClick={() => updateQuery(shiftTimeView(view, -1))}
             className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
           >
             <ChevronLeft className="w-5 h-5" />
           </button>
           <span className="text-lg font-semibold text-gray-900 min-w-[200px] text-center">
-            {format(weekStart, 'MMM d')} - {format(weekEnd, 'MMM d, yyyy')}
+            {timeViewLabel(view)}
           </span>
           <button
-            onClick={() => setCurrentWeek(addWeeks(currentWeek, 1))}
+            onClick={() => updateQuery(shiftTimeView(view, 1))}
             className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
           >
             <ChevronRight className="w-5 h-5" />
@@ -230,81 +636,385 @@ export const TimeTracking: React.FC = () => {
         </div>
       </div>
 
-      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-        <div className="grid grid-cols-7 gap-0 border-b border-gray-200">
-          {weekDays.map((day) => (
-            <div key={day.toISOString()} className="p-4 text-center border-r border-gray-200 last:border-r-0">
-              <div className="text-sm font-medium text-gray-900">
-                {format(day, 'EEE')}
-              </div>
-              <div className="text-lg font-semibold text-gray-700 mt-1">
-                {format(day, 'd')}
-              </div>
-              <div className="text-xs text-blue-600 mt-1">
-                {getTotalHoursForDay(day).toFixed(1)}h
-              </div>
-            </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex rounded-lg border border-gray-200 bg-white p-0.5">
+          {TIME_VIEW_MODES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => updateQuery(switchTimeView(view, option.value))}
+              className={`px-3 py-1.5 text-sm rounded-md transition-colors ${
+                view.mode === option.value ? 'bg-blue-50 text-blue-600 font-medium' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option.label}
+            </button>
           ))}
         </div>
 
-        <div className="grid grid-cols-7 gap-0 min-h-[400px]">
-          {weekDays.map((day) => {
-            const entries = getEntriesForDay(day)
-            const isToday = format(day, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd')
-
-            return (
-              <div key={day.toISOString()} className={`p-2 border-r border-gray-200 last:border-r-0 ${isToday ? 'bg-blue-50/50' : ''}`}>
-                <div className="space-y-2">
-                  {entries.map((entry) => (
-                    <TimeEntryCard
-                      key={entry.id}
-                      entry={entry}
-                      projects={projects}
-                      tasks={tasks}
-                      isEditing={editingEntry === entry.id}
-                      onEdit={() => setEditingEntry(entry.id)}
-                      onSave={saveTimeEntry}
-                      onCancel={() => setEditingEntry(null)}
-                      onDelete={() => deleteTimeEntry(entry.id)}
-                    />
-                  ))}
-
-                  {newEntry && newEntry.date === format(day, 'yyyy-MM-dd') && (
-                    <NewEntryForm
-                      entry={newEntry}
-                      projects={projects}
-                      tasks={tasks}
-                      onChange={setNewEntry}
-                      onSave={saveTimeEntry}
-                      onCancel={() => setNewEntry(null)}
-                    />
-                  )}
-
-                  <button
-                    onClick={() => startNewEntry(day)}
-                    className="w-full p-2 border-2 border-dashed border-gray-300 rounded-lg text-gray-400 hover:border-blue-300 hover:text-blue-500 transition-colors duration-200"
+        {canViewOthers && (
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <UserCog className="w-4 h-4" />
+            <select
+              value={viewedUserId || ''}
+              onChange={(e) => updateQuery({ as: e.target.value || undefined })}
+              className="border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              title="View someone else's time"
+            >
+              <option value="">My time</option>
+              {users
+                .filter(u => u.id !== user?.id)
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(u => (
+                  <option key={u.id} value={u.id}>{u.name}</option>
+                ))}
+            </select>
+          </label>
+        )}
+
+        <button
+          onClick={() => updateQuery(timeViewQuery(view.mode === 'range' ? 'day' : view.mode, new Date()))}
+          className="px-3 py-2 text-sm text-gray-600 bg-white border border-gray-200 rounded-lg hover:text-gray-900 hover:border-gray-300 transition-colors"
+        >
+          Today
+        </button>
+
+        {view.mode === 'range' ? (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <input
+              type="date"
+              value={fromStr}
+              onChange={(e) => e.target.value && updateQuery(timeViewQuery('range', parseISO(e.target.value), view.end))}
+              className="border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span>to</span>
+            <input
+              type="date"
+              value={toStr}
+              onChange={(e) => e.target.value && updateQuery(timeViewQuery('range', view.start, parseISO(e.target.value)))}
+              className="border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        ) : (
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <CalendarDays className="w-4 h-4" />
+            <input
+              type="date"
+              value={fromStr}
+              onChange={(e) => jumpTo(e.target.value)}
+              className="border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              title="Go to date"
+            />
+          </label>
+        )}
+      </div>
+
+      {viewedUserId && (
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 bg-amber-50 border border-amber-100 rounded-xl p-4">
+          <div className="flex items-start space-x-3">
+            <UserCog className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-amber-800">
+              You are viewing {viewedUser?.name || 'another user'}'s time. Changes you make are saved on their behalf and labelled with your name.
+            </p>
+          </div>
+          <button
+            onClick={() => updateQuery({ as: undefined })}
+            className="px-3 py-1.5 text-sm text-amber-700 bg-white border border-amber-200 rounded-lg hover:bg-amber-100 transition-colors flex-shrink-0"
+          >
+            Back to my time
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center space-x-3">
+          {showsWeekStatus && (
+            <>
+              <TimesheetStatusBadge status={weekStatus} />
+              {isWeekLocked && (
+                <span className="flex items-center space-x-1 text-sm text-gray-500">
+                  <Lock className="w-4 h-4" />
+                  <span>This week is read-only</span>
+                </span>
+              )}
+              {!isWeekLocked && closedWeekDays.length > 0 && (
+                <span className="flex items-center space-x-1 text-sm text-gray-500">
+                  <Lock className="w-4 h-4" />
+                  <span>
+                    {closedWeekDays.length === weekDays.length
+                      ? 'This week is in a closed period'
+                      : `${closedWeekDays.length} ${closedWeekDays.length === 1 ? 'day is' : 'days are'} in a closed period`}
+                  </span>
+                </span>
+              )}
+              {weekStatus === 'submitted' && timesheet?.submitted_at && (
+                <span className="text-sm text-gray-500">
+                  Submitted {format(parseISO(timesheet.submitted_at), 'MMM d, HH:mm')}
+                </span>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {view.mode === 'week' && !viewedUserId && (weekStatus === 'draft' || weekStatus === 'rejected') && (
+            <button
+              onClick={submitWeek}
+              disabled={submitting}
+              className="flex items-center space-x-2 bg-gradient-to-r from-blue-500 to-teal-500 text-white px-4 py-2 text-sm rounded-lg hover:from-blue-600 hover:to-teal-600 transition-all duration-200 disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              <span>{weekStatus === 'rejected' ? 'Resubmit Week' : 'Submit Week'}</span>
+            </button>
+          )}
+          {readyDrafts > 0 && (
+            <button
+              onClick={() => confirmDrafts(drafts, suggestionDrafts)}
+              className="flex items-center space-x-2 px-3 py-2 text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 transition-colors"
+            >
+              <Check className="w-4 h-4" />
+              <span>Confirm {readyDrafts} {readyDrafts === 1 ? 'draft' : 'drafts'}</span>
+            </button>
+          )}
+          {view.mode === 'week' && !viewedUserId && !isWeekLocked && closedWeekDays.length < weekDays.length && (
+            <button
+              onClick={() => setShowCopyWeek(true)}
+              className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 bg-white border border-gray-200 rounded-lg hover:text-gray-900 hover:border-gray-300 transition-colors"
+            >
+              <Copy className="w-4 h-4" />
+              <span>Copy last week</span>
+            </button>
+          )}
+          {!viewedUserId && (
+            <>
+              <button
+                onClick={() => setShowAbsences(true)}
+                className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 bg-white border border-gray-200 rounded-lg hover:text-gray-900 hover:border-gray-300 transition-colors"
+              >
+                <CalendarX className="w-4 h-4" />
+                <span>Time off</span>
+              </button>
+              <button
+                onClick={() => setShowTemplates(true)}
+                className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 bg-white border border-gray-200 rounded-lg hover:text-gray-900 hover:border-gray-300 transition-colors"
+              >
+                <Repeat className="w-4 h-4" />
+                <span>Recurring</span>
+              </button>
+              <button
+                onClick={() => setShowCalendarImport(true)}
+                className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 bg-white border border-gray-200 rounded-lg hover:text-gray-900 hover:border-gray-300 transition-colors"
+              >
+                <CalendarDays className="w-4 h-4" />
+                <span>Calendar</span>
+              </button>
+              <button
+                onClick={() => setShowImport(true)}
+                className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 bg-white border border-gray-200 rounded-lg hover:text-gray-900 hover:border-gray-300 transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                <span>Import</span>
+              </button>
+            </>
+          )}
+          <ExportMenu onExport={exportPeriod} disabled={visibleEntries.length === 0} />
+        </div>
+      </div>
+
+      {showsWeekStatus && weekStatus === 'rejected' && timesheet?.review_comment && (
+        <div className="flex items-start space-x-3 bg-red-50 border border-red-100 rounded-xl p-4">
+          <MessageSquare className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="text-sm font-medium text-red-800">{viewedUser ? `${viewedUser.name}'s` : 'Your'} timesheet was sent back</p>
+            <p className="text-sm text-red-700 mt-1">{timesheet.review_comment}</p>
+          </div>
+        </div>
+      )}
+
+      {showsWeekStatus && schedule && (
+        <div className="flex flex-wrap items-center gap-x-8 gap-y-2 bg-white rounded-xl shadow-sm border border-gray-200 px-6 py-4 text-sm">
+          <div>
+            <span className="text-gray-500">This week </span>
+            <span className="font-semibold text-gray-900">
+              {workedHours(schedule, dailyHours, weekStartStr, weekEndStr).toFixed(1)}h
+            </span>
+            <span className="text-gray-500"> of {expectedHours(schedule, weekStartStr, weekEndStr, daysOff).toFixed(1)}h</span>
+          </div>
+          {countedUntil >= weekStartStr && (
+            <div>
+              <span className="text-gray-500">Difference so far </span>
+              <span className={`font-semibold ${diffClass(weekDiff)}`}>{formatHoursDiff(weekDiff)}</span>
+            </div>
+          )}
+          <div>
+            <span className="text-gray-500">Flex balance </span>
+            <span className={`font-semibold ${diffClass(balance)}`}>{formatHoursDiff(balance)}</span>
+            <span className="text-gray-400"> as of {format(parseISO(countedUntil), 'MMM d')}</span>
+          </div>
+        </div>
+      )}
+
+      <SyncConflicts projects={projects} />
+
+      {user && !viewedUserId && <TimerBar userId={user.id} projects={projectsForEntry(projects)} tasks={tasks} />}
+
+      {showImport && (
+        <ImportEntries
+          projects={projects}
+          tasks={tasks}
+          onClose={() => setShowImport(false)}
+          onImported={() => setShowImport(false)}
+        />
+      )}
+
+      {showCopyWeek && user && (
+        <CopyWeek
+          userId={user.id}
+          weekStart={weekStartStr}
+          weekEnd={format(weekEnd, 'yyyy-MM-dd')}
+          projects={projects}
+          dayLock={dayLock}
+          onClose={() => setShowCopyWeek(false)}
+        />
+      )}
+
+      {showAbsences && user && (
+        <AbsenceRequests userId={user.id} onClose={() => setShowAbsences(false)} />
+      )}
+
+      {historyEntry && (
+        <RecordHistory
+          table="time_entries"
+          recordId={historyEntry.id}
+          title={`${format(parseISO(historyEntry.date), 'EEE, MMM d')} · ${historyEntry.project?.name || 'Unknown project'} · ${historyEntry.start_time} - ${historyEntry.end_time}`}
+          onClose={() => setHistoryEntry(null)}
+        />
+      )}
+
+      {showCalendarImport && user && (
+        <CalendarImport
+          userId={user.id}
+          projects={projects}
+          tasks={tasks}
+          from={fromStr}
+          to={toStr}
+          onClose={() => setShowCalendarImport(false)}
+        />
+      )}
+
+      {showTemplates && user && (
+        <EntryTemplates
+          userId={user.id}
+          projects={projects}
+          tasks={tasks}
+          onClose={() => setShowTemplates(false)}
+        />
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {view.mode === 'week' && (
+          <>
+            <div className="grid grid-cols-7 gap-0 border-b border-gray-200">
+              {weekDays.map((day) => (
+                <div
+                  key={day.toISOString()}
+                  className={`p-4 text-center border-r border-gray-200 last:border-r-0 ${isDateLocked(format(day, 'yyyy-MM-dd')) ? 'bg-gray-50' : ''}`}
+                  title={lockReason(format(day, 'yyyy-MM-dd')) || undefined}
+                >
+                  <div className="flex items-center justify-center space-x-1 text-sm font-medium text-gray-900">
+                    <span>{format(day, 'EEE')}</span>
+                    {isDateLocked(format(day, 'yyyy-MM-dd')) && <Lock className="w-3 h-3 text-gray-400" />}
+                  </div>
+                  <div className="text-lg font-semibold text-gray-700 mt-1">
+                    {format(day, 'd')}
+                  </div>
+                  <div className="text-xs text-blue-600 mt-1">
+                    {getTotalHoursForDay(day).toFixed(1)}h
+                  </div>
+                  {renderDayTarget(day)}
+                  <div className="mt-2">
+                    <TimesheetStatusBadge status={weekStatus} size="sm" />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-7 gap-0 min-h-[400px]">
+              {weekDays.map((day) => {
+                const isToday = format(day, 'yyyy-MM-dd') === format(new Date(), 'yyyy-MM-dd')
+                const locked = isDateLocked(format(day, 'yyyy-MM-dd'))
+
+                return (
+                  <div
+                    key={day.toISOString()}
+                    className={`p-2 border-r border-gray-200 last:border-r-0 ${locked ? 'bg-gray-50 opacity-75' : isToday ? 'bg-blue-50/50' : ''}`}
                   >
-                    <Plus className="w-4 h-4 mx-auto" />
-                  </button>
+                    {renderDayEntries(day)}
+                  </div>
+                )
+              })}
+            </div>
+          </>
+        )}
+
+        {view.mode === 'day' && (
+          <div className="grid grid-cols-1 md:grid-cols-2">
+            <div className="py-2 border-b md:border-b-0 md:border-r border-gray-200">
+              <DayTimeline
+                entries={getEntriesForDay(view.start)}
+                overnightEntries={getOvernightEntriesEndingOn(view.start)}
+                readOnly={isDateLocked(fromStr)}
+                onSelectEntry={(entry) => (entry.date === fromStr ? setEditingEntry(entry.id) : showDay(entry.date))}
+                onSelectHour={(hour) => startNewEntry(view.start, hour)}
+              />
+            </div>
+            <div className="p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-medium text-gray-900">Entries</h3>
+                <div className="text-right">
+                  <span className="text-sm text-blue-600">{getTotalHoursForDay(view.start).toFixed(1)}h</span>
+                  {renderDayTarget(view.start)}
                 </div>
               </div>
-            )
-          })}
-        </div>
+              {renderDayEntries(view.start)}
+            </div>
+          </div>
+        )}
+
+        {view.mode === 'month' && (
+          <MonthCalendar
+            month={view.start}
+            hoursOn={(date) => getTotalHoursForDay(parseISO(date))}
+            isLocked={isDateLocked}
+            onSelectDay={showDay}
+          />
+        )}
+
+        {view.mode === 'range' && (
+          <EntryList
+            entries={visibleEntries}
+            sort={query.sort || 'date'}
+            onSortChange={(sort) => updateQuery({ sort: sort === 'date' ? undefined : sort }, { replace: true })}
+            onSelectEntry={(entry) => showDay(entry.date)}
+          />
+        )}
       </div>
     </div>
   )
 }
 
 interface TimeEntryCardProps {
-  entry: TimeEntry
+  entry: TimeEntryWithRelations
   projects: Project[]
   tasks: Task[]
   isEditing: boolean
+  readOnly?: boolean
   onEdit: () => void
-  onSave: (entry: Partial<TimeEntry>) => void
+  onSave: (entry: EntryDraft) => void
   onCancel: () => void
   onDelete: () => void
+  onShowHistory: () => void
+  // Name of the supervisor or manager who last changed the entry for its owner
+  editedBy?: string
 }
 
 const TimeEntryCard: React.FC<TimeEntryCardProps> = ({
@@ -312,22 +1022,26 @@ const TimeEntryCard: React.FC<TimeEntryCardProps> = ({
   projects,
   tasks,
   isEditing,
+  readOnly,
   onEdit,
   onSave,
   onCancel,
-  onDelete
+  onDelete,
+  onShowHistory,
+  editedBy
 }) => {
   const [formData, setFormData] = useState({
     project_id: entry.project_id,
     task_id: entry.task_id || '',
     start_time: entry.start_time,
     end_time: entry.end_time,
-    description: entry.description
+    description: entry.description,
+    billable: entry.billable
   })
 
   const projectTasks = tasks.filter(task => task.project_id === formData.project_id)
 
-  if (isEditing) {
+  if (isEditing && !readOnly) {
     return (
       <div className="bg-gray-50 rounded-lg p-3 space-y-2">
         <select
@@ -336,9 +1050,9 @@ const TimeEntryCard: React.FC<TimeEntryCardProps> = ({
           className="w-full text-xs border border-gray-200 rounded px-2 py-1"
         >
           <option value="">Select Project</option>
-          {projects.map(project => (
+          {projectsForEntry(projects, entry.project_id).map(project => (
             <option key={project.id} value={project.id}>
-              {project.name} - {project.client}
+              {projectOptionLabel(project)}
             </option>
           ))}
         </select>
@@ -381,6 +1095,15 @@ const TimeEntryCard: React.FC<TimeEntryCardProps> = ({
           className="w-full text-xs border border-gray-200 rounded px-2 py-1"
         />
 
+        <label className="flex items-center space-x-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={formData.billable}
+            onChange={(e) => setFormData({ ...formData, billable: e.target.checked })}
+          />
+          <span>Billable</span>
+        </label>
+
         <div className="flex justify-end space-x-1">
           <button
             onClick={() => onSave({ ...entry, ...formData })}
@@ -400,7 +1123,7 @@ const TimeEntryCard: React.FC<TimeEntryCardProps> = ({
   }
 
   return (
-    <div className="bg-white rounded-lg p-3 shadow-sm border border-gray-100 hover:shadow-md transition-shadow duration-200">
+    <div className={`bg-white rounded-lg p-3 shadow-sm border hover:shadow-md transition-shadow duration-200 ${entry.pending ? 'border-dashed border-amber-300' : 'border-gray-100'}`}>
       <div className="flex items-start justify-between">
         <div className="flex-1 min-w-0">
           <div className="text-xs font-medium text-gray-900 truncate">
@@ -411,31 +1134,68 @@ const TimeEntryCard: React.FC<TimeEntryCardProps> = ({
               {entry.task.name}
             </div>
           )}
-          <div className="text-xs text-gray-500 mt-1">
-            {entry.start_time} - {entry.end_time}
+          <div className="flex items-center space-x-1 text-xs text-gray-500 mt-1">
+            <span>{entry.start_time} - {entry.end_time}</span>
+            {crossesMidnight(entry.start_time, entry.end_time) && (
+              <span className="flex items-center text-indigo-600" title="Ends the next day">
+                <Moon className="w-3 h-3 mr-0.5" />+1
+              </span>
+            )}
           </div>
-          <div className="text-xs font-medium text-blue-600">
-            {entry.hours.toFixed(1)}h
+          <div className="flex items-center space-x-1 text-xs font-medium text-blue-600">
+            <span>{entry.hours.toFixed(1)}h</span>
+            {entry.pending && (
+              <span className="flex items-center text-amber-600" title="Saved offline, waiting to sync">
+                <CloudOff className="w-3 h-3" />
+              </span>
+            )}
+            {entry.invoice_id && (
+              <span className="flex items-center text-green-600" title="Invoiced">
+                <Receipt className="w-3 h-3" />
+              </span>
+            )}
+            {!entry.billable && (
+              <span className="font-normal text-gray-400">non-billable</span>
+            )}
           </div>
           {entry.description && (
             <div className="text-xs text-gray-400 mt-1 truncate">
               {entry.description}
             </div>
           )}
+          {editedBy && (
+            <div className="flex items-center space-x-1 text-xs text-amber-600 mt-1" title="Changed on the owner's behalf">
+              <UserCog className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">Edited by {editedBy}</span>
+            </div>
+          )}
         </div>
         <div className="flex space-x-1 ml-2">
-          <button
-            onClick={onEdit}
-            className="p-1 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded"
-          >
-            <Edit className="w-3 h-3" />
-          </button>
-          <button
-            onClick={onDelete}
-            className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
-          >
-            <Trash2 className="w-3 h-3" />
-          </button>
+          {!readOnly && (
+            <>
+              <button
+                onClick={onEdit}
+                className="p-1 text-gray-400 hover:text-blue-500 hover:bg-blue-50 rounded"
+              >
+                <Edit className="w-3 h-3" />
+              </button>
+              <button
+                onClick={onDelete}
+                className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </>
+          )}
+          {!entry.pending && (
+            <button
+              onClick={onShowHistory}
+              className="p-1 text-gray-400 hover:text-gray-600 hover:bg-gray-50 rounded"
+              title="History"
+            >
+              <History className="w-3 h-3" />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -443,18 +1203,11 @@ const TimeEntryCard: React.FC<TimeEntryCardProps> = ({
 }
 
 interface NewEntryFormProps {
-  entry: {
-    date: string
-    project_id: string
-    task_id: string
-    start_time: string
-    end_time: string
-    description: string
-  }
+  entry: EntryDraft
   projects: Project[]
   tasks: Task[]
-  onChange: (entry: any) => void
-  onSave: (entry: any) => void
+  onChange: (entry: EntryDraft) => void
+  onSave: (entry: EntryDraft) => void
   onCancel: () => void
 }
 
@@ -466,7 +1219,15 @@ const NewEntryForm: React.FC<NewEntryFormProps> = ({
   onSave,
   onCancel
 }) => {
+  const { data: budgetUsage = [] } = useBudgetUsage()
   const projectTasks = tasks.filter(task => task.project_id === entry.project_id)
+  const project = projects.find(p => p.id === entry.project_id)
+  const task = projectTasks.find(t => t.id === entry.task_id)
+  const hours = entry.start_time && entry.end_time ? calculateHours(entry.start_time, entry.end_time) : 0
+  const budgetAlerts = [
+    project && budgetAlert(project.name, project.budget_hours, projectUsage(budgetUsage, project.id), hours),
+    task && budgetAlert(task.name, task.budget_hours, taskUsage(budgetUsage, task.id), hours)
+  ].filter(alert => !!alert)
 
   return (
     <div className="bg-blue-50 rounded-lg p-3 space-y-2 border-2 border-blue-200">
@@ -478,7 +1239,7 @@ const NewEntryForm: React.FC<NewEntryFormProps> = ({
         <option value="">Select Project</option>
         {projects.map(project => (
           <option key={project.id} value={project.id}>
-            {project.name} - {project.client}
+            {projectOptionLabel(project)}
           </option>
         ))}
       </select>
@@ -521,6 +1282,27 @@ const NewEntryForm: React.FC<NewEntryFormProps> = ({
         className="w-full text-xs border border-gray-200 rounded px-2 py-1"
       />
 
+      <label className="flex items-center space-x-1 text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={entry.billable}
+          onChange={(e) => onChange({ ...entry, billable: e.target.checked })}
+        />
+        <span>Billable</span>
+      </label>
+
+      {budgetAlerts.map(alert => (
+        <div
+          key={alert.message}
+          className={`flex items-start space-x-1 text-xs rounded px-2 py-1 ${
+            alert.level === 'over' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-700'
+          }`}
+        >
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          <span>{alert.message}</span>
+        </div>
+      ))}
+
       <div className="flex justify-end space-x-1">
         <button
           onClick={() => onSave(entry)}
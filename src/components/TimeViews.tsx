@@ -0,0 +1,235 @@
+import React, { useEffect, useRef } from 'react'
+import { eachDayOfInterval, endOfMonth, endOfWeek, format, isSameMonth, parseISO, startOfMonth, startOfWeek } from 'date-fns'
+import { ArrowDown, ArrowUp, Lock } from 'lucide-react'
+import type { TimeEntryWithRelations } from '../lib/api'
+import { crossesMidnight, timeToMinutes } from '../lib/time'
+
+const HOUR_HEIGHT = 48
+
+interface DayTimelineProps {
+  entries: TimeEntryWithRelations[]
+  overnightEntries: TimeEntryWithRelations[]
+  readOnly?: boolean
+  onSelectEntry: (entry: TimeEntryWithRelations) => void
+  onSelectHour: (hour: number) => void
+}
+
+// Hour-by-hour picture of one day; entries from the night before show up to their end time
+export const DayTimeline: React.FC<DayTimelineProps> = ({
+  entries,
+  overnightEntries,
+  readOnly,
+  onSelectEntry,
+  onSelectHour
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 7 * HOUR_HEIGHT
+  }, [])
+
+  const blocks = [
+    ...overnightEntries.map(entry => ({ entry, start: 0, end: timeToMinutes(entry.end_time), continued: true })),
+    ...entries.map(entry => ({
+      entry,
+      start: timeToMinutes(entry.start_time),
+      end: crossesMidnight(entry.start_time, entry.end_time) ? 24 * 60 : timeToMinutes(entry.end_time),
+      continued: false
+    }))
+  ]
+
+  return (
+    <div ref={scrollRef} className="max-h-[600px] overflow-y-auto">
+      <div className="relative" style={{ height: 24 * HOUR_HEIGHT }}>
+        {Array.from({ length: 24 }, (_, hour) => (
+          <button
+            key={hour}
+            onClick={() => onSelectHour(hour)}
+            disabled={readOnly}
+            className="absolute left-0 right-0 flex items-start border-t border-gray-100 text-left hover:bg-blue-50/50 disabled:hover:bg-transparent"
+            style={{ top: hour * HOUR_HEIGHT, height: HOUR_HEIGHT }}
+          >
+            <span className="w-14 pr-2 text-right text-xs text-gray-400 -mt-2 bg-white">
+              {hour.toString().padStart(2, '0')}:00
+            </span>
+          </button>
+        ))}
+
+        {blocks.map(({ entry, start, end, continued }) => (
+          <button
+            key={`${entry.id}${continued ? '-continued' : ''}`}
+            onClick={() => onSelectEntry(entry)}
+            className={`absolute left-16 right-2 rounded-lg px-2 py-1 text-left text-xs overflow-hidden border ${
+              continued ? 'bg-indigo-50 border-indigo-100 text-indigo-700' : 'bg-blue-100 border-blue-200 text-blue-900'
+            }`}
+            style={{
+              top: (start / 60) * HOUR_HEIGHT,
+              height: Math.max(((end - start) / 60) * HOUR_HEIGHT, 18)
+            }}
+          >
+            <div className="font-medium truncate">
+              {entry.project?.name}
+              {entry.task && <span className="font-normal"> · {entry.task.name}</span>}
+            </div>
+            <div className="truncate">
+              {entry.start_time.slice(0, 5)} - {entry.end_time.slice(0, 5)}
+              {entry.description && ` · ${entry.description}`}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Shading steps in hours; eight or more counts as a full day
+const heatLevels: [number, string][] = [
+  [8, 'bg-blue-400 text-white'],
+  [6, 'bg-blue-300 text-blue-900'],
+  [4, 'bg-blue-200 text-blue-900'],
+  [2, 'bg-blue-100 text-blue-900'],
+  [0.01, 'bg-blue-50 text-blue-900']
+]
+
+const heatClass = (hours: number) => heatLevels.find(([minimum]) => hours >= minimum)?.[1] || 'bg-white text-gray-700'
+
+interface MonthCalendarProps {
+  month: Date
+  hoursOn: (date: string) => number
+  isLocked: (date: string) => boolean
+  onSelectDay: (date: Date) => void
+}
+
+export const MonthCalendar: React.FC<MonthCalendarProps> = ({ month, hoursOn, isLocked, onSelectDay }) => {
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 })
+  })
+  const today = format(new Date(), 'yyyy-MM-dd')
+
+  return (
+    <div>
+      <div className="grid grid-cols-7 border-b border-gray-200">
+        {days.slice(0, 7).map(day => (
+          <div key={day.toISOString()} className="p-2 text-center text-sm font-medium text-gray-900">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map(day => {
+          const date = format(day, 'yyyy-MM-dd')
+          const hours = hoursOn(date)
+          const inMonth = isSameMonth(day, month)
+
+          return (
+            <button
+              key={date}
+              onClick={() => onSelectDay(day)}
+              className={`h-20 p-2 text-left border-r border-b border-gray-100 transition-opacity hover:opacity-80 ${
+                inMonth ? heatClass(hours) : 'bg-gray-50 text-gray-300'
+              } ${date === today ? 'ring-2 ring-inset ring-blue-500' : ''}`}
+            >
+              <div className="flex items-center justify-between text-sm font-semibold">
+                <span>{format(day, 'd')}</span>
+                {inMonth && isLocked(date) && <Lock className="w-3 h-3 opacity-60" />}
+              </div>
+              {inMonth && hours > 0 && (
+                <div className="text-xs mt-2">{hours.toFixed(1)}h</div>
+              )}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+type EntrySortKey = 'date' | 'project' | 'hours'
+
+interface EntryListProps {
+  entries: TimeEntryWithRelations[]
+  sort: string
+  onSortChange: (sort: string) => void
+  onSelectEntry: (entry: TimeEntryWithRelations) => void
+}
+
+const compareEntries = (key: EntrySortKey) => (a: TimeEntryWithRelations, b: TimeEntryWithRelations) => {
+  switch (key) {
+    case 'project':
+      return (a.project?.name || '').localeCompare(b.project?.name || '') || a.date.localeCompare(b.date)
+    case 'hours':
+      return a.hours - b.hours
+    default:
+      return a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time)
+  }
+}
+
+// `sort` is a column name, prefixed with "-" for descending order
+export const EntryList: React.FC<EntryListProps> = ({ entries, sort, onSortChange, onSelectEntry }) => {
+  const descending = sort.startsWith('-')
+  const key = (['date', 'project', 'hours'].includes(sort.replace(/^-/, '')) ? sort.replace(/^-/, '') : 'date') as EntrySortKey
+  const sorted = [...entries].sort(compareEntries(key))
+  if (descending) sorted.reverse()
+  const total = entries.reduce((sum, entry) => sum + entry.hours, 0)
+
+  const header = (column: EntrySortKey, label: string, className = '') => (
+    <th className={`px-4 py-3 font-medium ${className}`}>
+      <button
+        onClick={() => onSortChange(key === column && !descending ? `-${column}` : column)}
+        className="inline-flex items-center space-x-1 hover:text-gray-900"
+      >
+        <span>{label}</span>
+        {key === column && (descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+      </button>
+    </th>
+  )
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-left text-gray-600">
+          <tr>
+            {header('date', 'Date')}
+            <th className="px-4 py-3 font-medium">Time</th>
+            {header('project', 'Project')}
+            <th className="px-4 py-3 font-medium">Description</th>
+            {header('hours', 'Hours', 'text-right')}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {sorted.map(entry => (
+            <tr key={entry.id} onClick={() => onSelectEntry(entry)} className="cursor-pointer hover:bg-gray-50">
+              <td className="px-4 py-3 text-gray-900 whitespace-nowrap">{format(parseISO(entry.date), 'EEE, MMM d, yyyy')}</td>
+              <td className="px-4 py-3 text-gray-600 whitespace-nowrap">
+                {entry.start_time.slice(0, 5)} - {entry.end_time.slice(0, 5)}
+              </td>
+              <td className="px-4 py-3 text-gray-900">
+                {entry.project?.name}
+                {entry.task && <span className="text-gray-500"> · {entry.task.name}</span>}
+              </td>
+              <td className="px-4 py-3 text-gray-600">{entry.description}</td>
+              <td className="px-4 py-3 text-right font-medium text-gray-900">{entry.hours.toFixed(2)}</td>
+            </tr>
+          ))}
+
+          {entries.length === 0 && (
+            <tr>
+              <td colSpan={5} className="px-4 py-8 text-center text-gray-500 italic">
+                No time entries in this period
+              </td>
+            </tr>
+          )}
+        </tbody>
+        {entries.length > 0 && (
+          <tfoot className="bg-gray-50">
+            <tr>
+              <td colSpan={4} className="px-4 py-3 font-medium text-gray-900">Total</td>
+              <td className="px-4 py-3 text-right font-semibold text-gray-900">{total.toFixed(2)}</td>
+            </tr>
+          </tfoot>
+        )}
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+import React, { useState } from 'react'
+import { Play, Square, Trash2 } from 'lucide-react'
+import { useTimer, useElapsed } from '../hooks/useTimer'
+import { formatDuration } from '../lib/time'
+import { projectDateError, projectOptionLabel } from '../lib/projects'
+import type { Project, Task } from '../lib/api'
+import toast from 'react-hot-toast'
+import { format } from 'date-fns'
+
+interface TimerIndicatorProps {
+  userId: string
+}
+
+export const TimerIndicator: React.FC<TimerIndicatorProps> = ({ userId }) => {
+  const { timer, stopTimer } = useTimer(userId)
+  const elapsed = useElapsed(timer?.started_at)
+  const [stopping, setStopping] = useState(false)
+
+  if (!timer) return null
+
+  const handleStop = async () => {
+    setStopping(true)
+    await stopTimer()
+    setStopping(false)
+  }
+
+  return (
+    <div className="flex items-center space-x-3 bg-red-50 border border-red-100 rounded-lg pl-3 pr-1 py-1">
+      <span className="relative flex h-2 w-2">
+        <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
+        <span className="relative inline-flex rounded-full h-2 w-2 bg-red-500"></span>
+      </span>
+      <div className="hidden sm:block text-right max-w-[160px]">
+        <p className="text-xs font-medium text-gray-900 truncate">{timer.project?.name}</p>
+        {timer.task && <p className="text-xs text-gray-500 truncate">{timer.task.name}</p>}
+      </div>
+      <span className="font-mono text-sm font-semibold text-red-600">{formatDuration(elapsed)}</span>
+      <button
+        onClick={handleStop}
+        disabled={stopping}
+        className="p-1.5 text-red-600 hover:bg-red-100 rounded-md transition-colors disabled:opacity-50"
+        title="Stop timer"
+      >
+        <Square className="w-4 h-4 fill-current" />
+      </button>
+    </div>
+  )
+}
+
+interface TimerBarProps {
+  userId: string
+  projects: Project[]
+  tasks: Task[]
+}
+
+export const TimerBar: React.FC<TimerBarProps> = ({ userId, projects, tasks }) => {
+  const { timer, startTimer, stopTimer, discardTimer } = useTimer(userId)
+  const elapsed = useElapsed(timer?.started_at)
+  const [projectId, setProjectId] = useState('')
+  const [taskId, setTaskId] = useState('')
+  const [description, setDescription] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const projectTasks = tasks.filter(task => task.project_id === projectId)
+
+  const handleStart = async () => {
+    const dateError = projectDateError(projects.find(p => p.id === projectId), format(new Date(), 'yyyy-MM-dd'))
+    if (dateError) {
+      toast.error(dateError)
+      return
+    }
+
+    setBusy(true)
+    const started = await startTimer(projectId, taskId || null, description)
+    if (started) {
+      setProjectId('')
+      setTaskId('')
+      setDescription('')
+    }
+    setBusy(false)
+  }
+
+  const handleStop = async () => {
+    setBusy(true)
+    await stopTimer()
+    setBusy(false)
+  }
+
+  if (timer) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-red-100 p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center space-x-4 min-w-0">
+          <span className="relative flex h-3 w-3 flex-shrink-0">
+            <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
+            <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
+          </span>
+          <div className="min-w-0">
+            <p className="font-medium text-gray-900 truncate">
+              {timer.project?.name}
+              {timer.task && <span className="text-gray-500 font-normal"> · {timer.task.name}</span>}
+            </p>
+            {timer.description && <p className="text-sm text-gray-500 truncate">{timer.description}</p>}
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <span className="font-mono text-2xl font-semibold text-gray-900">{formatDuration(elapsed)}</span>
+          <button
+            onClick={discardTimer}
+            disabled={busy}
+            className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+            title="Discard timer"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleStop}
+            disabled={busy}
+            className="flex items-center space-x-2 bg-red-500 text-white px-4 py-2 rounded-lg hover:bg-red-600 transition-colors disabled:opacity-50"
+          >
+            <Square className="w-4 h-4 fill-current" />
+            <span>Stop</span>
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 flex flex-col md:flex-row md:items-center gap-3">
+      <select
+        value={projectId}
+        onChange={(e) => {
+          setProjectId(e.target.value)
+          setTaskId('')
+        }}
+        className="md:w-56 text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        <option value="">Select Project</option>
+        {projects.map(project => (
+          <option key={project.id} value={project.id}>
+            {projectOptionLabel(project)}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={taskId}
+        onChange={(e) => setTaskId(e.target.value)}
+        disabled={projectTasks.length === 0}
+        className="md:w-48 text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-400"
+      >
+        <option value="">No Task</option>
+        {projectTasks.map(task => (
+          <option key={task.id} value={task.id}>
+            {task.name}
+          </option>
+        ))}
+      </select>
+
+      <input
+        type="text"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="What are you working on?"
+        className="flex-1 text-sm border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+
+      <button
+        onClick={handleStart}
+        disabled={busy || !projectId}
+        className="flex items-center justify-center space-x-2 bg-gradient-to-r from-blue-500 to-teal-500 text-white px-4 py-2 rounded-lg hover:from-blue-600 hover:to-teal-600 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Play className="w-4 h-4 fill-current" />
+        <span>Start</span>
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import React from 'react'
+import { CheckCircle, Clock, FileEdit, XCircle } from 'lucide-react'
+import type { Database } from '../lib/supabase'
+
+export type TimesheetStatus = Database['public']['Tables']['timesheets']['Row']['status']
+
+const statusConfig: Record<TimesheetStatus, { label: string; icon: React.ElementType; className: string }> = {
+  draft: { label: 'Draft', icon: FileEdit, className: 'bg-gray-100 text-gray-600' },
+  submitted: { label: 'Submitted', icon: Clock, className: 'bg-amber-50 text-amber-700' },
+  approved: { label: 'Approved', icon: CheckCircle, className: 'bg-green-50 text-green-700' },
+  rejected: { label: 'Rejected', icon: XCircle, className: 'bg-red-50 text-red-700' }
+}
+
+interface TimesheetStatusBadgeProps {
+  status: TimesheetStatus
+  size?: 'sm' | 'md'
+}
+
+export const TimesheetStatusBadge: React.FC<TimesheetStatusBadgeProps> = ({ status, size = 'md' }) => {
+  const { label, icon: Icon, className } = statusConfig[status]
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 rounded-full font-medium ${className} ${
+        size === 'sm' ? 'px-1.5 py-0.5 text-[10px]' : 'px-2.5 py-1 text-xs'
+      }`}
+    >
+      <Icon className={size === 'sm' ? 'w-2.5 h-2.5' : 'w-3.5 h-3.5'} />
+      <span>{label}</span>
+    </span>
+  )
+}
@@ -0,0 +1,136 @@
+import React from 'react'
+import { differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { Clock, FolderOpen, ListTodo, RotateCcw, Trash2 } from 'lucide-react'
+import { purgeFromTrash, restoreFromTrash } from '../lib/api'
+import type { AuditTable, TrashItem } from '../lib/api'
+import { useClients, useProjects, useTasks, useTrash, useUsers } from '../hooks/useData'
+import { recordLabel } from '../lib/audit'
+import toast from 'react-hot-toast'
+
+const tableConfig: Record<AuditTable, { label: string; icon: React.ElementType }> = {
+  time_entries: { label: 'Time entry', icon: Clock },
+  tasks: { label: 'Task', icon: ListTodo },
+  projects: { label: 'Project', icon: FolderOpen }
+}
+
+const contentsLabel = (item: TrashItem) => {
+  if (item.contents === 0) return null
+  return item.table_name === 'projects'
+    ? `with ${item.contents} ${item.contents === 1 ? 'task or time entry' : 'tasks and time entries'}`
+    : `with ${item.contents} ${item.contents === 1 ? 'time entry' : 'time entries'}`
+}
+
+export const Trash: React.FC = () => {
+  const { data: items = [], loading } = useTrash()
+  const { data: users = [] } = useUsers()
+  const { data: projects = [] } = useProjects()
+  const { data: tasks = [] } = useTasks()
+  const { data: clients = [] } = useClients()
+  const lookups = { users, projects, tasks, clients }
+
+  const restore = async (item: TrashItem) => {
+    try {
+      await restoreFromTrash(item.table_name, item.record_id)
+      toast.success(`${tableConfig[item.table_name].label} restored`)
+    } catch (error) {
+      console.error('Error restoring from trash:', error)
+      toast.error((error as Error).message || 'Failed to restore')
+    }
+  }
+
+  const purge = async (item: TrashItem) => {
+    const contents = contentsLabel(item)
+    if (!confirm(`Delete this ${tableConfig[item.table_name].label.toLowerCase()}${contents ? ` ${contents}` : ''} permanently? This cannot be undone.`)) return
+
+    try {
+      await purgeFromTrash(item.table_name, item.record_id)
+      toast.success('Deleted permanently')
+    } catch (error) {
+      console.error('Error purging from trash:', error)
+      toast.error('Failed to delete')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+        <p className="text-gray-600">Deleted time entries, tasks and projects can be restored for 30 days</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="divide-y divide-gray-100">
+          {items.map(item => {
+            const { label, icon: Icon } = tableConfig[item.table_name]
+            const daysLeft = differenceInCalendarDays(parseISO(item.expires_at), new Date())
+            const taskProject = item.table_name === 'tasks'
+              ? projects.find(project => project.id === item.data.project_id)?.name
+              : null
+
+            return (
+              <div key={`${item.table_name}-${item.record_id}`} className="flex flex-col md:flex-row md:items-center justify-between gap-3 px-6 py-4">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="w-9 h-9 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <Icon className="w-4 h-4 text-gray-500" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {taskProject && `${taskProject} · `}{recordLabel(item.table_name, item.data, lookups)}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {[
+                        label,
+                        contentsLabel(item),
+                        `deleted ${format(parseISO(item.deleted_at), 'MMM d, HH:mm')}`,
+                        item.deleted_by ? `by ${users.find(user => user.id === item.deleted_by)?.name || 'a former user'}` : null
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                    {item.table_name === 'time_entries' && !!item.data.description && (
+                      <p className="text-xs text-gray-400 truncate">{String(item.data.description)}</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-3 flex-shrink-0">
+                  <span className={`text-xs ${daysLeft <= 3 ? 'text-red-600' : 'text-gray-500'}`}>
+                    {daysLeft <= 0 ? 'Purged today' : `${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`}
+                  </span>
+                  <button
+                    onClick={() => restore(item)}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-sm text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    <span>Restore</span>
+                  </button>
+                  <button
+                    onClick={() => purge(item)}
+                    className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Delete permanently"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+
+          {items.length === 0 && (
+            <div className="text-center py-12">
+              <Trash2 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">The trash is empty</h3>
+              <p className="text-gray-600">Deleted items show up here</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import React from 'react'
+import toast, { Toast } from 'react-hot-toast'
+import { restoreFromTrash } from '../lib/api'
+import type { AuditTable } from '../lib/api'
+
+interface UndoToastProps {
+  t: Toast
+  message: string
+  table: AuditTable
+  recordId: string
+}
+
+// Shown after moving something to the trash: toast((t) => <UndoToast t={t} ... />)
+export const UndoToast: React.FC<UndoToastProps> = ({ t, message, table, recordId }) => {
+  const undo = async () => {
+    toast.dismiss(t.id)
+
+    try {
+      await restoreFromTrash(table, recordId)
+      toast.success('Restored')
+    } catch (error) {
+      console.error('Error restoring from trash:', error)
+      toast.error('Failed to restore')
+    }
+  }
+
+  return (
+    <div className="flex items-center space-x-4 text-sm">
+      <span>{message}</span>
+      <button onClick={undo} className="font-medium text-blue-600 hover:text-blue-700">
+        Undo
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,464 @@
+import React, { useState } from 'react'
+import { format } from 'date-fns'
+import { Plus, Trash2, Save, X, Mail, Shield, Users, UserCheck, UserX, Clock } from 'lucide-react'
+import { authorizeEmail, revokeEmail as deleteAuthorizedEmail, changeRole as saveRole, updateWorkSchedule } from '../lib/api'
+import type { AppUser, AuthorizedEmail, Role } from '../lib/api'
+import { useAuth } from '../hooks/useAuth'
+import { useAbsences, useAuthorizedEmails, useDailyHours, usePublicHolidays, useUsers } from '../hooks/useData'
+import { WEEKDAYS } from '../lib/templates'
+import { flexBalance, formatHoursDiff, weeklyContractedHours } from '../lib/workTime'
+import { AbsenceTypeList, HolidayCalendar } from './AbsenceSettings'
+import { ClosedPeriods } from './ClosedPeriods'
+import toast from 'react-hot-toast'
+
+const roles: Role[] = ['user', 'supervisor', 'manager']
+
+const roleStyles: Record<Role, string> = {
+  user: 'bg-gray-100 text-gray-700',
+  supervisor: 'bg-teal-50 text-teal-700',
+  manager: 'bg-blue-50 text-blue-700'
+}
+
+export const UserManagement: React.FC = () => {
+  const { user } = useAuth()
+  const { data: authorizedEmails = [], loading: emailsLoading } = useAuthorizedEmails()
+  const { data: users = [], loading: usersLoading } = useUsers()
+  const [showNewEmail, setShowNewEmail] = useState(false)
+  const [editingSchedule, setEditingSchedule] = useState<string | null>(null)
+  const loading = emailsLoading || usersLoading
+
+  const today = format(new Date(), 'yyyy-MM-dd')
+  const earliestFlexStart = users.reduce<string | null>(
+    (earliest, u) => (!earliest || u.flex_start < earliest ? u.flex_start : earliest),
+    null
+  )
+  const { data: dailyHours = [] } = useDailyHours(earliestFlexStart, today)
+  const { data: absences = [] } = useAbsences({ statuses: ['approved'] })
+  const { data: holidays = [] } = usePublicHolidays()
+
+  const addEmail = async (email: string, role: Role) => {
+    if (!user) return
+
+    const normalizedEmail = email.trim().toLowerCase()
+    if (authorizedEmails.some(entry => entry.email.toLowerCase() === normalizedEmail)) {
+      toast.error('This email is already authorized')
+      return
+    }
+
+    try {
+      await authorizeEmail({
+        email: normalizedEmail,
+        role,
+        added_by: user.id
+      })
+      toast.success('Email authorized')
+      setShowNewEmail(false)
+    } catch (error) {
+      console.error('Error adding email:', error)
+      toast.error('Failed to authorize email')
+    }
+  }
+
+  const revokeEmail = async (entry: AuthorizedEmail) => {
+    if (entry.email.toLowerCase() === user?.email.toLowerCase()) {
+      toast.error('You cannot revoke your own access')
+      return
+    }
+
+    if (!confirm(`Revoke access for ${entry.email}? They will no longer be able to sign in.`)) {
+      return
+    }
+
+    try {
+      await deleteAuthorizedEmail(entry.id)
+      toast.success('Access revoked')
+    } catch (error) {
+      console.error('Error revoking email:', error)
+      toast.error('Failed to revoke access')
+    }
+  }
+
+  const changeRole = async (email: string, role: Role) => {
+    if (email.toLowerCase() === user?.email.toLowerCase()) {
+      toast.error('You cannot change your own role')
+      return
+    }
+
+    try {
+      await saveRole(email, role)
+      toast.success('Role updated')
+    } catch (error) {
+      console.error('Error changing role:', error)
+      toast.error('Failed to update role')
+    }
+  }
+
+  const saveSchedule = async (registeredUser: AppUser, schedule: WorkScheduleValues) => {
+    try {
+      await updateWorkSchedule(registeredUser.id, schedule)
+      toast.success('Working hours updated')
+      setEditingSchedule(null)
+    } catch (error) {
+      console.error('Error updating working hours:', error)
+      toast.error('Failed to update working hours')
+    }
+  }
+
+  const getUserName = (id: string) => {
+    const addedBy = users.find(u => u.id === id)
+    return addedBy ? addedBy.name : 'Unknown'
+  }
+
+  const isAuthorized = (email: string) =>
+    authorizedEmails.some(entry => entry.email.toLowerCase() === email.toLowerCase())
+
+  const getRegisteredUser = (email: string) =>
+    users.find(u => u.email.toLowerCase() === email.toLowerCase())
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">User Management</h1>
+          <p className="text-gray-600">Control who can sign in and what they can see</p>
+        </div>
+
+        <button
+          onClick={() => setShowNewEmail(true)}
+          className="flex items-center space-x-2 bg-gradient-to-r from-blue-500 to-teal-500 text-white px-4 py-2 rounded-lg hover:from-blue-600 hover:to-teal-600 transition-all duration-200"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Authorize Email</span>
+        </button>
+      </div>
+
+      {showNewEmail && (
+        <AuthorizeEmailForm
+          onSave={addEmail}
+          onCancel={() => setShowNewEmail(false)}
+        />
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="flex items-center space-x-2 p-6 border-b border-gray-100">
+          <Shield className="w-5 h-5 text-blue-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Authorized Emails</h3>
+          <span className="text-sm text-gray-500">({authorizedEmails.length})</span>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {authorizedEmails.map((entry) => {
+            const registeredUser = getRegisteredUser(entry.email)
+
+            return (
+              <div key={entry.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 px-6 py-4">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="w-9 h-9 bg-gray-100 rounded-full flex items-center justify-center flex-shrink-0">
+                    <Mail className="w-4 h-4 text-gray-500" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{entry.email}</p>
+                    <p className="text-sm text-gray-500">
+                      Added by {getUserName(entry.added_by)} on {format(new Date(entry.created_at), 'MMM d, yyyy')}
+                      {!registeredUser && <span className="ml-2 text-orange-500">· Not signed in yet</span>}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-3">
+                  <RoleSelect
+                    value={entry.role}
+                    onChange={(role) => changeRole(entry.email, role)}
+                  />
+                  <button
+                    onClick={() => revokeEmail(entry)}
+                    className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Revoke access"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+
+          {authorizedEmails.length === 0 && (
+            <p className="px-6 py-8 text-sm text-gray-500 italic text-center">No authorized emails yet</p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="flex items-center space-x-2 p-6 border-b border-gray-100">
+          <Users className="w-5 h-5 text-blue-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Registered Users</h3>
+          <span className="text-sm text-gray-500">({users.length})</span>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {users.map((registeredUser) => {
+            const authorized = isAuthorized(registeredUser.email)
+            const balance = flexBalance(registeredUser, dailyHours, today, { absences, holidays })
+
+            return (
+              <div key={registeredUser.id} className="px-6 py-4">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <div className="w-9 h-9 bg-gradient-to-r from-blue-500 to-teal-500 rounded-full flex items-center justify-center flex-shrink-0">
+                      <span className="text-white text-sm font-medium">
+                        {registeredUser.name?.charAt(0).toUpperCase()}
+                      </span>
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{registeredUser.name}</p>
+                      <p className="text-sm text-gray-500 truncate">{registeredUser.email}</p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => setEditingSchedule(editingSchedule === registeredUser.id ? null : registeredUser.id)}
+                      className="flex items-center space-x-1 text-xs text-gray-600 hover:text-blue-600 transition-colors"
+                      title="Working hours"
+                    >
+                      <Clock className="w-4 h-4" />
+                      <span>{weeklyContractedHours(registeredUser.contracted_hours)}h/week</span>
+                      <span className={balance < 0 ? 'text-red-600' : 'text-green-600'}>({formatHoursDiff(balance)})</span>
+                    </button>
+                    {authorized ? (
+                      <span className="flex items-center space-x-1 text-xs text-green-600">
+                        <UserCheck className="w-4 h-4" />
+                        <span>Authorized</span>
+                      </span>
+                    ) : (
+                      <span className="flex items-center space-x-1 text-xs text-red-500">
+                        <UserX className="w-4 h-4" />
+                        <span>Revoked</span>
+                      </span>
+                    )}
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${roleStyles[registeredUser.role]}`}>
+                      {registeredUser.role}
+                    </span>
+                  </div>
+                </div>
+
+                {editingSchedule === registeredUser.id && (
+                  <WorkScheduleForm
+                    user={registeredUser}
+                    onSave={(schedule) => saveSchedule(registeredUser, schedule)}
+                    onCancel={() => setEditingSchedule(null)}
+                  />
+                )}
+              </div>
+            )
+          })}
+
+          {users.length === 0 && (
+            <p className="px-6 py-8 text-sm text-gray-500 italic text-center">No users have signed in yet</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <HolidayCalendar />
+        <AbsenceTypeList />
+      </div>
+
+      <ClosedPeriods />
+    </div>
+  )
+}
+
+interface RoleSelectProps {
+  value: Role
+  onChange: (role: Role) => void
+}
+
+const RoleSelect: React.FC<RoleSelectProps> = ({ value, onChange }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as Role)}
+    className={`text-sm font-medium capitalize rounded-lg px-3 py-1.5 border border-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent ${roleStyles[value]}`}
+  >
+    {roles.map(role => (
+      <option key={role} value={role}>
+        {role}
+      </option>
+    ))}
+  </select>
+)
+
+interface AuthorizeEmailFormProps {
+  onSave: (email: string, role: Role) => void
+  onCancel: () => void
+}
+
+const AuthorizeEmailForm: React.FC<AuthorizeEmailFormProps> = ({ onSave, onCancel }) => {
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<Role>('user')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) {
+      toast.error('Please enter an email address')
+      return
+    }
+
+    onSave(email, role)
+  }
+
+  return (
+    <div className="bg-blue-50 border-2 border-blue-200 rounded-xl p-6">
+      <form onSubmit={handleSubmit} className="flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Email Address *
+          </label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="colleague@company.com"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Role
+          </label>
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as Role)}
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg capitalize focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {roles.map(r => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center space-x-1 px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            <span>Cancel</span>
+          </button>
+          <button
+            type="submit"
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>Authorize</span>
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+type WorkScheduleValues = Pick<AppUser, 'contracted_hours' | 'flex_start' | 'flex_opening_hours'>
+
+interface WorkScheduleFormProps {
+  user: AppUser
+  onSave: (schedule: WorkScheduleValues) => void
+  onCancel: () => void
+}
+
+const WorkScheduleForm: React.FC<WorkScheduleFormProps> = ({ user, onSave, onCancel }) => {
+  const [hours, setHours] = useState(user.contracted_hours.map(String))
+  const [flexStart, setFlexStart] = useState(user.flex_start)
+  const [openingHours, setOpeningHours] = useState(String(user.flex_opening_hours))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const contracted = hours.map(value => Number(value) || 0)
+    if (contracted.some(value => value < 0 || value > 24)) {
+      toast.error('Hours per day must be between 0 and 24')
+      return
+    }
+
+    onSave({
+      contracted_hours: contracted,
+      flex_start: flexStart,
+      flex_opening_hours: Number(openingHours) || 0
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 bg-blue-50 border-2 border-blue-200 rounded-xl p-4 space-y-4">
+      <div className="grid grid-cols-7 gap-2">
+        {WEEKDAYS.map((day, index) => (
+          <label key={day.value} className="text-xs font-medium text-gray-700">
+            {day.label}
+            <input
+              type="number"
+              min="0"
+              max="24"
+              step="0.25"
+              value={hours[index]}
+              onChange={(e) => setHours(hours.map((value, i) => (i === index ? e.target.value : value)))}
+              className="mt-1 w-full px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-4">
+        <label className="text-sm font-medium text-gray-700">
+          Count flex time from
+          <input
+            type="date"
+            value={flexStart}
+            onChange={(e) => setFlexStart(e.target.value)}
+            className="mt-1 block px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          Opening balance (hours)
+          <input
+            type="number"
+            step="0.25"
+            value={openingHours}
+            onChange={(e) => setOpeningHours(e.target.value)}
+            className="mt-1 block px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </label>
+
+        <div className="flex space-x-3 md:ml-auto">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex items-center space-x-1 px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            <span>Cancel</span>
+          </button>
+          <button
+            type="submit"
+            className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>Save</span>
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
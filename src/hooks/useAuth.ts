@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '../lib/supabase'
+import { clearQueryCache } from '../lib/queryClient'
+import { clearOfflineData, hasPendingChanges, isNetworkError, setOfflineOwner } from '../lib/offlineQueue'
+import { syncPendingChanges } from '../lib/api'
 import toast from 'react-hot-toast'
 
 export interface User {
@@ -23,6 +26,7 @@ export const useAuth = () => {
         if (event === 'SIGNED_IN' && session?.user) {
           await fetchUserProfile(session.user.email!)
         } else if (event === 'SIGNED_OUT') {
+          setOfflineOwner(null)
           setUser(null)
         }
         setLoading(false)
@@ -47,21 +51,42 @@ export const useAuth = () => {
 
   const fetchUserProfile = async (email: string) => {
     try {
+      // Revoked emails must not keep an existing session alive, but a failed
+      // check is not a revocation
+      const { data: authorized, error: authError } = await supabase
+        .from('authorized_emails')
+        .select('id')
+        .eq('email', email.toLowerCase())
+        .maybeSingle()
+
+      if (authError) throw authError
+      if (!authorized) {
+        await supabase.auth.signOut()
+        setUser(null)
+        toast.error('Your access has been revoked. Please contact your manager.')
+        return
+      }
+
       const { data, error } = await supabase
         .from('users')
         .select('*')
-        .eq('email', email)
+        .eq('email', email.toLowerCase())
         .single()
 
       if (error) throw error
+      setOfflineOwner(data.id)
+      syncPendingChanges()
       setUser(data)
     } catch (error) {
       console.error('Error fetching user profile:', error)
-      setUser(null)
+      // Keep a signed-in user working while the connection is down
+      if (!isNetworkError(error)) setUser(null)
     }
   }
 
-  const signIn = async (email: string, name?: string) => {
+  const signIn = async (rawEmail: string, name?: string) => {
+    const email = rawEmail.toLowerCase()
+
     try {
       setLoading(true)
 
@@ -110,8 +135,14 @@ export const useAuth = () => {
   }
 
   const signOut = async () => {
+    if (hasPendingChanges() && !confirm('Some changes have not been synced yet and will be lost. Sign out anyway?')) {
+      return
+    }
+
     try {
       await supabase.auth.signOut()
+      clearQueryCache()
+      clearOfflineData()
       setUser(null)
       toast.success('Signed out successfully')
     } catch (error) {
@@ -0,0 +1,128 @@
+import { useQuery } from './useQuery'
+import {
+  AbsenceFilters,
+  AuditFilters,
+  AuditTable,
+  TimeEntryFilters,
+  TimesheetStatus,
+  fetchAbsenceTypes,
+  fetchAbsences,
+  fetchAuditLog,
+  fetchAuthorizedEmails,
+  fetchBudgetUsage,
+  fetchCalendarRules,
+  fetchClients,
+  fetchClosedPeriods,
+  fetchDailyHours,
+  fetchEntryTemplates,
+  fetchInvoice,
+  fetchInvoices,
+  fetchOpenCalendarSuggestions,
+  fetchProjectHours,
+  fetchProjectMembers,
+  fetchProjects,
+  fetchPublicHolidays,
+  fetchRecordHistory,
+  fetchRunningTimer,
+  fetchTasks,
+  fetchTemplateSkips,
+  fetchTimeEntries,
+  fetchTimesheet,
+  fetchTimesheetsByStatus,
+  fetchTrash,
+  fetchUserRates,
+  fetchUserTimesheets,
+  fetchUsers,
+  queryKeys,
+  timeEntriesKey
+} from '../lib/api'
+
+// Reference data rarely changes, so reuse it for a few minutes across views
+const REFERENCE_STALE_TIME = 5 * 60 * 1000
+
+export const useClients = () =>
+  useQuery(queryKeys.clients, fetchClients, { staleTime: REFERENCE_STALE_TIME })
+
+export const useProjects = () =>
+  useQuery(queryKeys.projects, fetchProjects, { staleTime: REFERENCE_STALE_TIME })
+
+export const useTasks = () =>
+  useQuery(queryKeys.tasks, fetchTasks, { staleTime: REFERENCE_STALE_TIME })
+
+export const useUsers = () =>
+  useQuery(queryKeys.users, fetchUsers, { staleTime: REFERENCE_STALE_TIME })
+
+export const useAuthorizedEmails = () =>
+  useQuery(queryKeys.authorizedEmails, fetchAuthorizedEmails)
+
+export const useTimeEntries = (filters: TimeEntryFilters | null) =>
+  useQuery(filters ? timeEntriesKey(filters) : null, () => fetchTimeEntries(filters!))
+
+export const useProjectHours = (projectIds: string[]) =>
+  useQuery(queryKeys.projectHours(projectIds), () => fetchProjectHours(projectIds))
+
+export const useBudgetUsage = () =>
+  useQuery(queryKeys.budgetUsage, fetchBudgetUsage)
+
+export const useDailyHours = (from: string | null, to: string, userId?: string) =>
+  useQuery(from ? queryKeys.dailyHours(from, to, userId) : null, () => fetchDailyHours(from!, to, userId))
+
+export const useEntryTemplates = (userId: string | undefined) =>
+  useQuery(userId ? queryKeys.userEntryTemplates(userId) : null, () => fetchEntryTemplates(userId!))
+
+export const useTemplateSkips = (userId: string | undefined, from: string, to: string) =>
+  useQuery(userId ? queryKeys.userTemplateSkips(userId, from, to) : null, () => fetchTemplateSkips(userId!, from, to))
+
+export const useCalendarRules = (userId: string | undefined) =>
+  useQuery(userId ? queryKeys.userCalendarRules(userId) : null, () => fetchCalendarRules(userId!))
+
+export const useCalendarSuggestions = (userId: string | undefined, from: string, to: string) =>
+  useQuery(
+    userId ? queryKeys.openCalendarSuggestions(userId, from, to) : null,
+    () => fetchOpenCalendarSuggestions(userId!, from, to)
+  )
+
+export const useTimesheet = (userId: string | undefined, weekStart: string) =>
+  useQuery(userId ? queryKeys.timesheet(userId, weekStart) : null, () => fetchTimesheet(userId!, weekStart))
+
+export const useUserTimesheets = (userId: string | undefined, from: string, to: string) =>
+  useQuery(userId ? queryKeys.userTimesheets(userId, from, to) : null, () => fetchUserTimesheets(userId!, from, to))
+
+export const useTimesheetsByStatus = (statuses: TimesheetStatus[], limit?: number) =>
+  useQuery(queryKeys.timesheetsByStatus(statuses, limit), () => fetchTimesheetsByStatus(statuses, limit))
+
+export const useRunningTimer = (userId: string | undefined) =>
+  useQuery(userId ? queryKeys.runningTimer(userId) : null, () => fetchRunningTimer(userId!))
+
+export const useUserRates = () =>
+  useQuery(queryKeys.userRates, fetchUserRates, { staleTime: REFERENCE_STALE_TIME })
+
+export const useProjectMembers = () =>
+  useQuery(queryKeys.projectMembers, fetchProjectMembers, { staleTime: REFERENCE_STALE_TIME })
+
+export const useInvoices = () =>
+  useQuery(queryKeys.invoices, fetchInvoices)
+
+export const useInvoice = (id: string | null) =>
+  useQuery(id ? queryKeys.invoice(id) : null, () => fetchInvoice(id!))
+
+export const useAbsenceTypes = () =>
+  useQuery(queryKeys.absenceTypes, fetchAbsenceTypes, { staleTime: REFERENCE_STALE_TIME })
+
+export const useAbsences = (filters: AbsenceFilters | null) =>
+  useQuery(filters ? queryKeys.absenceList(filters) : null, () => fetchAbsences(filters!))
+
+export const usePublicHolidays = () =>
+  useQuery(queryKeys.publicHolidays, fetchPublicHolidays, { staleTime: REFERENCE_STALE_TIME })
+
+export const useClosedPeriods = () =>
+  useQuery(queryKeys.closedPeriods, fetchClosedPeriods, { staleTime: REFERENCE_STALE_TIME })
+
+export const useRecordHistory = (table: AuditTable, recordId: string | null) =>
+  useQuery(recordId ? queryKeys.recordHistory(table, recordId) : null, () => fetchRecordHistory(table, recordId!))
+
+export const useAuditLog = (filters: AuditFilters) =>
+  useQuery(queryKeys.auditLogList(filters), () => fetchAuditLog(filters))
+
+export const useTrash = () =>
+  useQuery(queryKeys.trash, fetchTrash)
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react'
+import { getOfflineState, subscribeToOfflineState } from '../lib/offlineQueue'
+import { syncPendingChanges } from '../lib/api'
+
+export const useOfflineSync = () => {
+  const [state, setState] = useState(getOfflineState)
+  const [online, setOnline] = useState(navigator.onLine)
+
+  useEffect(() => subscribeToOfflineState(setState), [])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true)
+      syncPendingChanges()
+    }
+    const handleOffline = () => setOnline(false)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    syncPendingChanges()
+
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [])
+
+  return {
+    online,
+    pendingCount: state.changes.length,
+    conflicts: state.conflicts,
+    syncing: state.syncing,
+    syncNow: syncPendingChanges
+  }
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import toast from 'react-hot-toast'
+import { QueryKey, fetchQuery, getQueryData, hashKey, matchesKey, subscribeToInvalidation } from '../lib/queryClient'
+
+interface QueryOptions {
+  staleTime?: number
+}
+
+export const useQuery = <T>(key: QueryKey | null, fetcher: () => Promise<T>, { staleTime = 0 }: QueryOptions = {}) => {
+  const hash = key ? hashKey(key) : null
+  const [data, setData] = useState<T | undefined>(() => (key ? getQueryData<T>(key) : undefined))
+  const [loading, setLoading] = useState(!!key && data === undefined)
+  const [error, setError] = useState<unknown>(null)
+  const keyRef = useRef(key)
+  const fetcherRef = useRef(fetcher)
+  keyRef.current = key
+  fetcherRef.current = fetcher
+
+  const load = useCallback(async (force = false) => {
+    const currentKey = keyRef.current
+    if (!currentKey) return
+
+    const cached = getQueryData<T>(currentKey)
+    setData(cached)
+    setLoading(cached === undefined)
+
+    try {
+      const result = await fetchQuery(currentKey, fetcherRef.current, force ? 0 : staleTime)
+      if (keyRef.current && hashKey(keyRef.current) === hashKey(currentKey)) {
+        setData(result)
+        setError(null)
+      }
+    } catch (err) {
+      console.error('Error fetching query:', currentKey, err)
+      if (navigator.onLine) toast.error('Failed to load data', { id: 'query-error' })
+      setError(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [staleTime])
+
+  useEffect(() => {
+    load()
+  }, [hash, load])
+
+  useEffect(() =>
+    subscribeToInvalidation(prefix => {
+      if (keyRef.current && matchesKey(keyRef.current, prefix)) load(true)
+    }),
+  [load])
+
+  return {
+    data,
+    loading,
+    error,
+    refetch: () => load(true)
+  }
+}
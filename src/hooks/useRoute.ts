@@ -0,0 +1,10 @@
+import { useState, useEffect } from 'react'
+import { getRoute, subscribeToRoute } from '../lib/router'
+
+export const useRoute = () => {
+  const [route, setRoute] = useState(getRoute)
+
+  useEffect(() => subscribeToRoute(setRoute), [])
+
+  return route
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react'
+import { format, parseISO } from 'date-fns'
+import { createTimeEntry, deleteRunningTimer, fetchRunningTimer, findOverlappingEntry, insertRunningTimer } from '../lib/api'
+import { useRunningTimer } from './useData'
+import { calculateHours } from '../lib/time'
+import toast from 'react-hot-toast'
+
+export const useElapsed = (startedAt?: string) => {
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    if (!startedAt) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [startedAt])
+
+  return startedAt ? now - new Date(startedAt).getTime() : 0
+}
+
+export const useTimer = (userId?: string) => {
+  const { data: timer = null, refetch } = useRunningTimer(userId)
+
+  const startTimer = async (projectId: string, taskId: string | null, description: string) => {
+    if (!userId) return false
+
+    if (timer) {
+      toast.error('A timer is already running. Stop it first.')
+      return false
+    }
+
+    try {
+      await insertRunningTimer({
+        user_id: userId,
+        project_id: projectId,
+        task_id: taskId,
+        description,
+        started_at: new Date().toISOString()
+      })
+
+      toast.success('Timer started')
+      return true
+    } catch (error) {
+      // Unique violation: a timer was started from another tab or device
+      if ((error as { code?: string }).code === '23505') {
+        refetch()
+        toast.error('A timer is already running. Stop it first.')
+        return false
+      }
+
+      console.error('Error starting timer:', error)
+      toast.error('Failed to start timer')
+      return false
+    }
+  }
+
+  const stopTimer = async () => {
+    if (!userId) return false
+
+    try {
+      // Read the timer fresh so a timer stopped in another tab is not logged twice
+      const currentTimer = await fetchRunningTimer(userId)
+      if (!currentTimer) {
+        refetch()
+        return false
+      }
+
+      const startedAt = new Date(currentTimer.started_at)
+      const stoppedAt = new Date()
+      const startTime = format(startedAt, 'HH:mm')
+      const endTime = format(stoppedAt, 'HH:mm')
+
+      if (stoppedAt.getTime() - startedAt.getTime() < 60 * 1000) {
+        await discardTimer()
+        toast('Timer ran for less than a minute and was discarded')
+        return false
+      }
+
+      // An entry covers at most one day, and clock times alone cannot tell a full day from none
+      if (stoppedAt.getTime() - startedAt.getTime() >= 24 * 60 * 60 * 1000 || startTime === endTime) {
+        toast.error('Timer ran for a day or longer. Discard it and add the time by hand.')
+        return false
+      }
+
+      const entry = {
+        date: format(startedAt, 'yyyy-MM-dd'),
+        start_time: startTime,
+        end_time: endTime
+      }
+
+      // The timer keeps running so nothing is lost while the clash is sorted out
+      const overlapping = await findOverlappingEntry(userId, entry)
+      if (overlapping) {
+        toast.error(
+          `Overlaps ${overlapping.project?.name || 'another entry'} (${overlapping.start_time.slice(0, 5)} - ${overlapping.end_time.slice(0, 5)} on ${format(parseISO(overlapping.date), 'MMM d')})`
+        )
+        return false
+      }
+
+      await createTimeEntry({
+        ...entry,
+        user_id: userId,
+        project_id: currentTimer.project_id,
+        task_id: currentTimer.task_id,
+        hours: calculateHours(startTime, endTime),
+        description: currentTimer.description
+      })
+
+      await deleteRunningTimer(userId)
+      toast.success('Time entry added')
+      return true
+    } catch (error) {
+      console.error('Error stopping timer:', error)
+      toast.error('Failed to stop timer')
+      return false
+    }
+  }
+
+  const discardTimer = async () => {
+    if (!userId) return
+
+    try {
+      await deleteRunningTimer(userId)
+    } catch (error) {
+      console.error('Error discarding timer:', error)
+      toast.error('Failed to discard timer')
+    }
+  }
+
+  return {
+    timer,
+    startTimer,
+    stopTimer,
+    discardTimer
+  }
+}
@@ -0,0 +1,98 @@
+import { format, startOfWeek, eachWeekOfInterval, parseISO } from 'date-fns'
+import { hoursOnDate, nextDate } from './time'
+
+export interface AnalyticsEntry {
+  id: string
+  user_id: string
+  project_id: string
+  task_id: string | null
+  date: string
+  start_time: string
+  end_time: string
+  hours: number
+  description: string
+  project?: { id: string; name: string; client?: { id: string; name: string } | null } | null
+  task?: { id: string; name: string } | null
+  user?: { id: string; name: string; email: string } | null
+}
+
+export interface HoursGroup {
+  key: string
+  label: string
+  sublabel?: string
+  hours: number
+  entries: number
+}
+
+export interface WeekTotal {
+  weekStart: string
+  hours: number
+}
+
+export const groupHours = (
+  entries: AnalyticsEntry[],
+  getGroup: (entry: AnalyticsEntry) => { key: string; label: string; sublabel?: string }
+): HoursGroup[] => {
+  const groups = new Map<string, HoursGroup>()
+
+  entries.forEach(entry => {
+    const { key, label, sublabel } = getGroup(entry)
+    const group = groups.get(key) || { key, label, sublabel, hours: 0, entries: 0 }
+    group.hours += entry.hours
+    group.entries += 1
+    groups.set(key, group)
+  })
+
+  return Array.from(groups.values()).sort((a, b) => b.hours - a.hours)
+}
+
+export const byProject = (entry: AnalyticsEntry) => ({
+  key: entry.project_id,
+  label: entry.project?.name || 'Unknown project',
+  sublabel: entry.project?.client?.name
+})
+
+export const byClient = (entry: AnalyticsEntry) => {
+  const client = entry.project?.client
+  return { key: client?.id || 'none', label: client?.name || 'No client' }
+}
+
+export const byTask = (entry: AnalyticsEntry) => ({
+  key: entry.task_id || `none-${entry.project_id}`,
+  label: entry.task?.name || 'No task',
+  sublabel: entry.project?.name
+})
+
+export const byUser = (entry: AnalyticsEntry) => ({
+  key: entry.user_id,
+  label: entry.user?.name || entry.user?.email || 'Unknown user',
+  sublabel: entry.user?.email
+})
+
+export const weeklyTotals = (entries: AnalyticsEntry[], from: string, to: string): WeekTotal[] => {
+  const weeks = eachWeekOfInterval(
+    { start: parseISO(from), end: parseISO(to) },
+    { weekStartsOn: 1 }
+  ).map(week => ({ weekStart: format(week, 'yyyy-MM-dd'), hours: 0 }))
+
+  const addHours = (date: string, hours: number) => {
+    const weekStart = format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+    const week = weeks.find(w => w.weekStart === weekStart)
+    if (week) week.hours += hours
+  }
+
+  // Entries that run past midnight count towards the day, and so the week, each part falls on
+  entries.forEach(entry => {
+    addHours(entry.date, hoursOnDate(entry, entry.date))
+
+    const following = nextDate(entry.date)
+    if (following <= to) addHours(following, hoursOnDate(entry, following))
+  })
+
+  return weeks
+}
+
+export const percentChange = (current: number, previous: number): number | null => {
+  if (previous === 0) return current === 0 ? 0 : null
+  return ((current - previous) / previous) * 100
+}
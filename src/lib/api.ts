@@ -0,0 +1,1326 @@
+import { supabase } from './supabase'
+import type { Tables, TablesInsert, TablesUpdate } from './supabase'
+import { getQueryData, invalidateQueries } from './queryClient'
+import { entriesOverlap, nextDate, previousDate } from './time'
+import {
+  PendingChange,
+  SyncConflict,
+  addConflict,
+  applyPendingChanges,
+  canQueueEntry,
+  getOfflineOwner,
+  getOfflineState,
+  getSnapshotEntry,
+  hasPendingChanges,
+  isNetworkError,
+  isTimesheetQuery,
+  loadSnapshot,
+  queueCreate,
+  queueDelete,
+  queueUpdate,
+  removeChange,
+  removeConflict,
+  saveSnapshot,
+  setSyncing
+} from './offlineQueue'
+
+export type Client = Tables<'clients'>
+export type Project = Tables<'projects'> & {
+  client?: Client | null
+}
+export type ProjectStatus = Project['status']
+export type Task = Tables<'tasks'>
+export type { TaskField, TaskFieldType } from './supabase'
+export type TimeEntry = Tables<'time_entries'>
+export type AppUser = Tables<'users'>
+export type Role = AppUser['role']
+export type AuthorizedEmail = Tables<'authorized_emails'>
+export type Timesheet = Tables<'timesheets'>
+export type TimesheetStatus = Timesheet['status']
+export type ProjectUserRate = Tables<'project_user_rates'>
+export type ProjectMember = Tables<'project_members'>
+export type EntryTemplate = Tables<'entry_templates'>
+export type EntryTemplateSkip = Tables<'entry_template_skips'>
+export type ProjectRole = ProjectMember['role']
+export type CalendarRule = Tables<'calendar_rules'>
+export type CalendarSuggestion = Tables<'calendar_suggestions'>
+export type AbsenceType = Tables<'absence_types'>
+export type Absence = Tables<'absences'>
+export type AbsenceStatus = Absence['status']
+export type PublicHoliday = Tables<'public_holidays'>
+export type ClosedPeriod = Tables<'closed_periods'>
+export type Invoice = Tables<'invoices'>
+export type InvoiceLine = Tables<'invoice_lines'>
+export type AuditEntry = Tables<'audit_log'>
+export type AuditTable = AuditEntry['table_name']
+export type AuditAction = AuditEntry['action']
+
+export type TimeEntryWithRelations = TimeEntry & {
+  project?: Project | null
+  task?: Task | null
+  user?: AppUser | null
+  pending?: boolean
+}
+
+export type RunningTimer = Tables<'running_timers'> & {
+  project?: Project | null
+  task?: Task | null
+}
+
+export type TimesheetWithUsers = Timesheet & {
+  user?: AppUser | null
+  reviewer?: AppUser | null
+}
+
+export type AbsenceWithRelations = Absence & {
+  type?: AbsenceType | null
+  user?: AppUser | null
+  reviewer?: AppUser | null
+}
+
+export type InvoiceWithLines = Invoice & {
+  lines: InvoiceLine[]
+}
+
+// Hours logged per project, task and day on projects or tasks that have a budget
+export interface BudgetUsage {
+  project_id: string
+  task_id: string | null
+  date: string
+  hours: number
+}
+
+// Hours logged per user and day
+export interface DailyHours {
+  user_id: string
+  date: string
+  hours: number
+}
+
+// A trashed entry, task or project; contents counts what was trashed along with it
+export interface TrashItem {
+  table_name: AuditTable
+  record_id: string
+  data: Record<string, unknown>
+  deleted_at: string
+  deleted_by: string | null
+  expires_at: string
+  contents: number
+}
+
+export const queryKeys = {
+  clients: ['clients'] as const,
+  projects: ['projects'] as const,
+  tasks: ['tasks'] as const,
+  users: ['users'] as const,
+  authorizedEmails: ['authorized_emails'] as const,
+  timeEntries: ['time_entries'] as const,
+  projectHours: (projectIds: string[]) => ['time_entries', 'project_hours', projectIds] as const,
+  budgetUsage: ['time_entries', 'budget_usage'] as const,
+  dailyHours: (from: string, to: string, userId?: string) =>
+    ['time_entries', 'daily_hours', from, to, userId || null] as const,
+  timesheets: ['timesheets'] as const,
+  timesheet: (userId: string, weekStart: string) => ['timesheets', 'week', userId, weekStart] as const,
+  userTimesheets: (userId: string, from: string, to: string) => ['timesheets', 'user', userId, from, to] as const,
+  timesheetsByStatus: (statuses: TimesheetStatus[], limit?: number) =>
+    ['timesheets', 'status', statuses, limit || null] as const,
+  runningTimer: (userId: string) => ['running_timers', userId] as const,
+  userRates: ['project_user_rates'] as const,
+  projectMembers: ['project_members'] as const,
+  entryTemplates: ['entry_templates'] as const,
+  userEntryTemplates: (userId: string) => ['entry_templates', userId] as const,
+  templateSkips: ['entry_template_skips'] as const,
+  userTemplateSkips: (userId: string, from: string, to: string) => ['entry_template_skips', userId, from, to] as const,
+  calendarRules: ['calendar_rules'] as const,
+  userCalendarRules: (userId: string) => ['calendar_rules', userId] as const,
+  calendarSuggestions: ['calendar_suggestions'] as const,
+  openCalendarSuggestions: (userId: string, from: string, to: string) =>
+    ['calendar_suggestions', userId, from, to] as const,
+  absenceTypes: ['absence_types'] as const,
+  absences: ['absences'] as const,
+  absenceList: (filters: AbsenceFilters) =>
+    ['absences', filters.userId || null, filters.statuses || null] as const,
+  publicHolidays: ['public_holidays'] as const,
+  closedPeriods: ['closed_periods'] as const,
+  invoices: ['invoices'] as const,
+  invoice: (id: string) => ['invoices', id] as const,
+  trash: ['trash'] as const,
+  auditLog: ['audit_log'] as const,
+  recordHistory: (table: AuditTable, recordId: string) => ['audit_log', 'record', table, recordId] as const,
+  auditLogList: (filters: AuditFilters) =>
+    [
+      'audit_log',
+      'list',
+      filters.table || null,
+      filters.action || null,
+      filters.actorId || null,
+      filters.from || null,
+      filters.to || null
+    ] as const
+}
+
+export interface AuditFilters {
+  table?: AuditTable
+  action?: AuditAction
+  actorId?: string
+  from?: string
+  to?: string
+}
+
+export interface AbsenceFilters {
+  userId?: string
+  statuses?: AbsenceStatus[]
+}
+
+export interface TimeEntryFilters {
+  userId?: string
+  userIds?: string[]
+  projectIds?: string[]
+  uninvoiced?: boolean
+  from: string
+  to: string
+}
+
+export const timeEntriesKey = (filters: TimeEntryFilters) =>
+  [
+    ...queryKeys.timeEntries,
+    filters.userId || null,
+    filters.userIds || null,
+    filters.from,
+    filters.to,
+    filters.projectIds || null,
+    !!filters.uninvoiced
+  ] as const
+
+// Clients
+
+export const fetchClients = async () => {
+  const { data, error } = await supabase
+    .from('clients')
+    .select('*')
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as Client[]
+}
+
+export const createClient = async (client: TablesInsert<'clients'>) => {
+  const { data, error } = await supabase
+    .from('clients')
+    .insert(client)
+    .select()
+    .single()
+
+  if (error) throw error
+  invalidateQueries(queryKeys.clients)
+  return data as Client
+}
+
+export const updateClient = async (id: string, client: TablesUpdate<'clients'>) => {
+  const { error } = await supabase
+    .from('clients')
+    .update({ ...client, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.clients)
+  invalidateQueries(queryKeys.projects)
+  invalidateQueries(queryKeys.timeEntries)
+}
+
+export const deleteClient = async (id: string) => {
+  const { error } = await supabase
+    .from('clients')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.clients)
+}
+
+// Projects
+
+export const fetchProjects = async () => {
+  const { data, error } = await supabase
+    .from('projects')
+    .select(`
+      *,
+      client:clients(*)
+    `)
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as Project[]
+}
+
+export const createProject = async (project: TablesInsert<'projects'>) => {
+  const { error } = await supabase
+    .from('projects')
+    .insert(project)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.projects)
+}
+
+export const updateProject = async (id: string, project: TablesUpdate<'projects'>) => {
+  const { error } = await supabase
+    .from('projects')
+    .update({ ...project, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.projects)
+  invalidateQueries(queryKeys.timeEntries)
+}
+
+// Moves the project to the trash together with its tasks and time entries
+export const deleteProject = async (id: string) => {
+  const { error } = await supabase.rpc('trash_project', { p_id: id })
+
+  if (error) throw error
+  invalidateQueries(queryKeys.projects)
+  invalidateQueries(queryKeys.tasks)
+  invalidateQueries(queryKeys.timeEntries)
+  invalidateQueries(queryKeys.trash)
+}
+
+// Tasks
+
+export const fetchTasks = async () => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as Task[]
+}
+
+export const createTask = async (task: TablesInsert<'tasks'>) => {
+  const { error } = await supabase
+    .from('tasks')
+    .insert(task)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.tasks)
+}
+
+export const updateTask = async (id: string, task: TablesUpdate<'tasks'>) => {
+  const { error } = await supabase
+    .from('tasks')
+    .update({ ...task, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.tasks)
+  invalidateQueries(queryKeys.timeEntries)
+}
+
+// Moves the task to the trash together with its time entries
+export const deleteTask = async (id: string) => {
+  const { error } = await supabase.rpc('trash_task', { p_id: id })
+
+  if (error) throw error
+  invalidateQueries(queryKeys.tasks)
+  invalidateQueries(queryKeys.timeEntries)
+  invalidateQueries(queryKeys.trash)
+}
+
+// Project members
+
+export const fetchProjectMembers = async () => {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('*')
+
+  if (error) throw error
+  return (data || []) as ProjectMember[]
+}
+
+// Membership decides which projects and tasks people can read, so those are refetched too
+const invalidateMembership = () => {
+  invalidateQueries(queryKeys.projectMembers)
+  invalidateQueries(queryKeys.projects)
+  invalidateQueries(queryKeys.tasks)
+}
+
+export const setProjectMember = async (member: TablesInsert<'project_members'>) => {
+  const { error } = await supabase
+    .from('project_members')
+    .upsert(member, { onConflict: 'project_id,user_id' })
+
+  if (error) throw error
+  invalidateMembership()
+}
+
+export const removeProjectMember = async (projectId: string, userId: string) => {
+  const { error } = await supabase
+    .from('project_members')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+  invalidateMembership()
+}
+
+// Time entries
+//
+// Writes that cannot reach Supabase are queued locally (see offlineQueue) and
+// replayed by syncPendingChanges once the connection returns. Mutations resolve
+// to true when the change was queued rather than saved.
+
+// The API returns at most this many rows per request, so longer lists are read page by page
+const PAGE_SIZE = 1000
+
+const fetchTimeEntryPage = (filters: TimeEntryFilters, offset: number) => {
+  let query = supabase
+    .from('time_entries')
+    .select(`
+      *,
+      project:projects(*, client:clients(*)),
+      task:tasks(*),
+      user:users(*)
+    `)
+    .gte('date', filters.from)
+    .lte('date', filters.to)
+
+  if (filters.userId) query = query.eq('user_id', filters.userId)
+  if (filters.userIds) query = query.in('user_id', filters.userIds)
+  if (filters.projectIds) query = query.in('project_id', filters.projectIds)
+  if (filters.uninvoiced) query = query.eq('billable', true).is('invoice_id', null)
+
+  return query
+    .order('date')
+    .order('start_time')
+    .order('id')
+    .range(offset, offset + PAGE_SIZE - 1)
+}
+
+export const fetchTimeEntries = async (filters: TimeEntryFilters) => {
+  let entries: TimeEntryWithRelations[] = []
+
+  for (;;) {
+    const { data, error } = await fetchTimeEntryPage(filters, entries.length)
+
+    if (error) {
+      if (!isNetworkError(error) || !isTimesheetQuery(filters)) throw error
+      entries = loadSnapshot(filters)
+      break
+    }
+
+    const page = (data || []) as TimeEntryWithRelations[]
+    entries = entries.concat(page)
+    if (page.length < PAGE_SIZE) {
+      saveSnapshot(filters, entries)
+      break
+    }
+  }
+
+  return applyPendingChanges(entries, filters, {
+    projects: getQueryData<Project[]>(queryKeys.projects),
+    tasks: getQueryData<Task[]>(queryKeys.tasks)
+  })
+}
+
+// Another entry of the same person sharing time with this one; the days either
+// side are searched too, for entries that run past midnight
+export const findOverlappingEntry = async (
+  userId: string,
+  entry: { id?: string; date: string; start_time: string; end_time: string }
+) => {
+  const nearbyEntries = await fetchTimeEntries({
+    userId,
+    from: previousDate(entry.date),
+    to: nextDate(entry.date)
+  })
+
+  return nearbyEntries.find(other => other.id !== entry.id && entriesOverlap(other, entry)) || null
+}
+
+// Total logged hours per project, across all time
+export const fetchProjectHours = async (projectIds: string[]) => {
+  if (projectIds.length === 0) return {}
+
+  const { data, error } = await supabase.rpc('get_project_hours', { p_project_ids: projectIds })
+
+  if (error) throw error
+  return ((data || []) as { project_id: string; hours: number }[]).reduce<Record<string, number>>((totals, row) => {
+    totals[row.project_id] = Number(row.hours)
+    return totals
+  }, {})
+}
+
+// Goes through a database function so budgets include everyone's hours, not only the ones the caller can read
+export const fetchBudgetUsage = async () => {
+  const { data, error } = await supabase.rpc('get_budget_usage')
+
+  if (error) throw error
+  return ((data || []) as BudgetUsage[]).map(row => ({ ...row, hours: Number(row.hours) }))
+}
+
+// Leave out userId to get everyone whose time entries the caller can read. There is a row
+// per person and day, so flex balances over a long period are read page by page
+export const fetchDailyHours = async (from: string, to: string, userId?: string) => {
+  const rows: DailyHours[] = []
+
+  for (;;) {
+    const { data, error } = await supabase
+      .rpc('get_daily_hours', {
+        p_from: from,
+        p_to: to,
+        p_user_id: userId || null
+      })
+      .order('user_id')
+      .order('date')
+      .range(rows.length, rows.length + PAGE_SIZE - 1)
+
+    if (error) throw error
+    const page = (data || []) as DailyHours[]
+    rows.push(...page.map(row => ({ ...row, hours: Number(row.hours) })))
+    if (page.length < PAGE_SIZE) return rows
+  }
+}
+
+// Queues the change when offline, or behind earlier queued changes so they replay in order.
+// Changes that cannot be queued (see canQueueEntry) are only ever saved online
+const withOfflineFallback = async (save: () => Promise<void>, queue: () => void, canQueue: boolean) => {
+  if (canQueue && (!navigator.onLine || hasPendingChanges())) {
+    queue()
+    invalidateQueries(queryKeys.timeEntries)
+    syncPendingChanges()
+    return true
+  }
+
+  try {
+    await save()
+  } catch (error) {
+    if (!canQueue || !isNetworkError(error)) throw error
+    queue()
+    invalidateQueries(queryKeys.timeEntries)
+    return true
+  }
+
+  invalidateQueries(queryKeys.timeEntries)
+  return false
+}
+
+export const createTimeEntries = async (entries: TablesInsert<'time_entries'>[]) => {
+  const rows = entries.map(entry => ({ ...entry, id: entry.id || crypto.randomUUID() }))
+
+  return withOfflineFallback(
+    async () => {
+      const { error } = await supabase
+        .from('time_entries')
+        .insert(rows)
+
+      if (error) throw error
+    },
+    () => rows.forEach(row => queueCreate(row.id, row)),
+    rows.every(row => row.user_id === getOfflineOwner())
+  )
+}
+
+export const createTimeEntry = (entry: TablesInsert<'time_entries'>) => createTimeEntries([entry])
+
+export const updateTimeEntry = async (id: string, entry: TablesUpdate<'time_entries'>) =>
+  withOfflineFallback(
+    async () => {
+      const { error } = await supabase
+        .from('time_entries')
+        .update({ ...entry, updated_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    () => queueUpdate(id, entry),
+    canQueueEntry(id)
+  )
+
+// Deleted entries go to the trash and can be restored from there
+const trashTimeEntry = async (id: string) => {
+  const { error } = await supabase.rpc('trash_time_entry', { p_id: id })
+
+  if (error) throw error
+  invalidateQueries(queryKeys.trash)
+}
+
+export const deleteTimeEntry = async (id: string) =>
+  withOfflineFallback(() => trashTimeEntry(id), () => queueDelete(id), canQueueEntry(id))
+
+// Offline sync
+
+class SyncConflictError extends Error {
+  constructor(message: string, public server: TimeEntry | null) {
+    super(message)
+  }
+}
+
+const fetchServerEntry = async (id: string) => {
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as TimeEntry | null
+}
+
+// Without force, an update or delete only goes through if nobody changed the
+// entry on the server since the version the offline edit started from
+const replayChange = async (change: PendingChange, force = false) => {
+  const ownerId = getOfflineOwner()
+
+  if (change.action === 'create') {
+    if (change.values.user_id !== ownerId) {
+      throw new SyncConflictError('Queued for another user and not synced', null)
+    }
+
+    const { error } = await supabase
+      .from('time_entries')
+      .insert({ ...change.values, id: change.entryId })
+
+    // Already inserted by an earlier sync that was interrupted before it finished
+    if (error && error.code !== '23505') throw error
+    return
+  }
+
+  const server = await fetchServerEntry(change.entryId)
+  if (server && server.user_id !== ownerId) {
+    throw new SyncConflictError('Belongs to another user and was not synced', server)
+  }
+
+  if (change.action === 'delete') {
+    if (!server) return
+    if (!force && change.baseUpdatedAt && server.updated_at !== change.baseUpdatedAt) {
+      throw new SyncConflictError('Changed on the server after you deleted it offline', server)
+    }
+
+    await trashTimeEntry(change.entryId)
+    return
+  }
+
+  if (!server) {
+    if (!force) throw new SyncConflictError('Deleted on the server while you were offline', null)
+
+    const local = getSnapshotEntry(change.entryId)
+    if (!local) throw new SyncConflictError('Deleted on the server and no local copy is left to restore', null)
+    if (local.user_id !== ownerId) throw new SyncConflictError('Belongs to another user and was not synced', null)
+
+    const { error } = await supabase
+      .from('time_entries')
+      .insert({
+        id: change.entryId,
+        user_id: local.user_id,
+        project_id: local.project_id,
+        task_id: local.task_id,
+        date: local.date,
+        start_time: local.start_time,
+        end_time: local.end_time,
+        hours: local.hours,
+        description: local.description,
+        ...change.values
+      })
+
+    if (error) throw error
+    return
+  }
+
+  if (!force && change.baseUpdatedAt && server.updated_at !== change.baseUpdatedAt) {
+    throw new SyncConflictError('Changed on the server while you were offline', server)
+  }
+
+  const { error } = await supabase
+    .from('time_entries')
+    .update({ ...change.values, updated_at: new Date().toISOString() })
+    .eq('id', change.entryId)
+
+  if (error) throw error
+}
+
+const localVersion = (change: PendingChange): TimeEntryWithRelations | null => {
+  if (change.action === 'delete') return null
+  if (change.action === 'create') return { ...change.values, id: change.entryId } as TimeEntryWithRelations
+
+  const base = getSnapshotEntry(change.entryId)
+  return base ? { ...base, ...change.values } : null
+}
+
+export const syncPendingChanges = async () => {
+  if (!navigator.onLine || getOfflineState().syncing || !hasPendingChanges()) return
+
+  setSyncing(true)
+  try {
+    for (const change of getOfflineState().changes) {
+      try {
+        await replayChange(change)
+      } catch (error) {
+        if (isNetworkError(error)) break
+
+        // Anything the server rejects is set aside for the user instead of blocking the queue
+        addConflict({
+          change,
+          local: localVersion(change),
+          server: error instanceof SyncConflictError ? error.server : await fetchServerEntry(change.entryId).catch(() => null),
+          reason: error instanceof SyncConflictError ? error.message : (error as Error).message || 'Rejected by the server'
+        })
+      }
+      removeChange(change.id)
+    }
+  } finally {
+    setSyncing(false)
+    invalidateQueries(queryKeys.timeEntries)
+  }
+}
+
+export const resolveConflict = async (conflict: SyncConflict, keep: 'mine' | 'server') => {
+  if (keep === 'mine') await replayChange(conflict.change, true)
+  removeConflict(conflict.id)
+  invalidateQueries(queryKeys.timeEntries)
+}
+
+// Users and access
+
+export const fetchUsers = async () => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('*')
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as AppUser[]
+}
+
+export const updateWorkSchedule = async (
+  id: string,
+  schedule: Pick<TablesUpdate<'users'>, 'contracted_hours' | 'flex_start' | 'flex_opening_hours'>
+) => {
+  const { error } = await supabase
+    .from('users')
+    .update({ ...schedule, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.users)
+}
+
+export const fetchAuthorizedEmails = async () => {
+  const { data, error } = await supabase
+    .from('authorized_emails')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as AuthorizedEmail[]
+}
+
+export const authorizeEmail = async (email: TablesInsert<'authorized_emails'>) => {
+  const { error } = await supabase
+    .from('authorized_emails')
+    .insert(email)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.authorizedEmails)
+}
+
+export const revokeEmail = async (id: string) => {
+  const { error } = await supabase
+    .from('authorized_emails')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.authorizedEmails)
+}
+
+// signIn copies the role from authorized_emails, so both rows must agree
+export const changeRole = async (rawEmail: string, role: Role) => {
+  const email = rawEmail.toLowerCase()
+
+  const { error: authError } = await supabase
+    .from('authorized_emails')
+    .update({ role })
+    .eq('email', email)
+
+  if (authError) throw authError
+
+  const { error: userError } = await supabase
+    .from('users')
+    .update({ role, updated_at: new Date().toISOString() })
+    .eq('email', email)
+
+  if (userError) throw userError
+  invalidateQueries(queryKeys.authorizedEmails)
+  invalidateQueries(queryKeys.users)
+}
+
+// Recurring entry templates
+
+export const fetchEntryTemplates = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('entry_templates')
+    .select('*')
+    .eq('user_id', userId)
+    .order('start_time')
+
+  if (error) throw error
+  return (data || []) as EntryTemplate[]
+}
+
+export const createEntryTemplate = async (template: TablesInsert<'entry_templates'>) => {
+  const { error } = await supabase
+    .from('entry_templates')
+    .insert(template)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.entryTemplates)
+}
+
+export const updateEntryTemplate = async (id: string, template: TablesUpdate<'entry_templates'>) => {
+  const { error } = await supabase
+    .from('entry_templates')
+    .update({ ...template, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.entryTemplates)
+}
+
+export const deleteEntryTemplate = async (id: string) => {
+  const { error } = await supabase
+    .from('entry_templates')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.entryTemplates)
+  invalidateQueries(queryKeys.templateSkips)
+}
+
+// Dismissed drafts of the user's templates between from and to
+export const fetchTemplateSkips = async (userId: string, from: string, to: string) => {
+  const { data, error } = await supabase
+    .from('entry_template_skips')
+    .select('*, template:entry_templates!inner(user_id)')
+    .eq('template.user_id', userId)
+    .gte('date', from)
+    .lte('date', to)
+
+  if (error) throw error
+  return (data || []) as EntryTemplateSkip[]
+}
+
+export const skipTemplateDrafts = async (skips: TablesInsert<'entry_template_skips'>[]) => {
+  const { error } = await supabase
+    .from('entry_template_skips')
+    .upsert(skips, { onConflict: 'template_id,date' })
+
+  if (error) throw error
+  invalidateQueries(queryKeys.templateSkips)
+}
+
+// Calendar import
+
+export const fetchCalendarRules = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('calendar_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at')
+
+  if (error) throw error
+  return (data || []) as CalendarRule[]
+}
+
+export const createCalendarRule = async (rule: TablesInsert<'calendar_rules'>) => {
+  const { error } = await supabase
+    .from('calendar_rules')
+    .insert(rule)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.calendarRules)
+}
+
+export const deleteCalendarRule = async (id: string) => {
+  const { error } = await supabase
+    .from('calendar_rules')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.calendarRules)
+}
+
+export const fetchOpenCalendarSuggestions = async (userId: string, from: string, to: string) => {
+  const { data, error } = await supabase
+    .from('calendar_suggestions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'open')
+    .gte('date', from)
+    .lte('date', to)
+    .order('date')
+    .order('start_time')
+
+  if (error) throw error
+  return (data || []) as CalendarSuggestion[]
+}
+
+// Events imported before keep their current status, so accepted or dismissed ones stay that way
+export const importCalendarSuggestions = async (suggestions: TablesInsert<'calendar_suggestions'>[]) => {
+  const { data, error } = await supabase
+    .from('calendar_suggestions')
+    .upsert(suggestions, { onConflict: 'user_id,uid,date', ignoreDuplicates: true })
+    .select('id')
+
+  if (error) throw error
+  invalidateQueries(queryKeys.calendarSuggestions)
+  return (data || []).length
+}
+
+export const resolveCalendarSuggestions = async (ids: string[], status: 'accepted' | 'dismissed') => {
+  const { error } = await supabase
+    .from('calendar_suggestions')
+    .update({ status })
+    .in('id', ids)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.calendarSuggestions)
+}
+
+// Timesheets
+
+const timesheetSelect = `
+  *,
+  user:users!timesheets_user_id_fkey(*),
+  reviewer:users!timesheets_reviewed_by_fkey(*)
+`
+
+export const fetchTimesheet = async (userId: string, weekStart: string) => {
+  const { data, error } = await supabase
+    .from('timesheets')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('week_start', weekStart)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as Timesheet | null
+}
+
+// Timesheets of one person for the weeks starting between from and to
+export const fetchUserTimesheets = async (userId: string, from: string, to: string) => {
+  const { data, error } = await supabase
+    .from('timesheets')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('week_start', from)
+    .lte('week_start', to)
+
+  if (error) throw error
+  return (data || []) as Timesheet[]
+}
+
+export const fetchTimesheetsByStatus = async (statuses: TimesheetStatus[], limit?: number) => {
+  let query = supabase
+    .from('timesheets')
+    .select(timesheetSelect)
+    .in('status', statuses)
+    .order(statuses.includes('submitted') ? 'submitted_at' : 'reviewed_at', {
+      ascending: statuses.includes('submitted')
+    })
+
+  if (limit) query = query.limit(limit)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as TimesheetWithUsers[]
+}
+
+export const submitTimesheet = async (userId: string, weekStart: string) => {
+  const { error } = await supabase
+    .from('timesheets')
+    .upsert({
+      user_id: userId,
+      week_start: weekStart,
+      status: 'submitted',
+      submitted_at: new Date().toISOString(),
+      reviewed_by: null,
+      reviewed_at: null,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id,week_start' })
+
+  if (error) throw error
+  invalidateQueries(queryKeys.timesheets)
+}
+
+export const reviewTimesheet = async (
+  id: string,
+  reviewerId: string,
+  status: 'approved' | 'rejected',
+  comment: string
+) => {
+  const { data, error } = await supabase
+    .from('timesheets')
+    .update({
+      status,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+      review_comment: comment,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('status', 'submitted')
+    .select()
+
+  if (error) throw error
+  invalidateQueries(queryKeys.timesheets)
+  // Nothing matched: someone else reviewed the week first, or it was taken back
+  if (!data || data.length === 0) throw new Error('This timesheet is no longer waiting for review')
+}
+
+// Absences and public holidays
+
+const absenceSelect = `
+  *,
+  type:absence_types(*),
+  user:users!absences_user_id_fkey(*),
+  reviewer:users!absences_reviewed_by_fkey(*)
+`
+
+export const fetchAbsenceTypes = async () => {
+  const { data, error } = await supabase
+    .from('absence_types')
+    .select('*')
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as AbsenceType[]
+}
+
+export const createAbsenceType = async (type: TablesInsert<'absence_types'>) => {
+  const { error } = await supabase
+    .from('absence_types')
+    .insert(type)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.absenceTypes)
+}
+
+export const deleteAbsenceType = async (id: string) => {
+  const { error } = await supabase
+    .from('absence_types')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.absenceTypes)
+}
+
+export const fetchAbsences = async (filters: AbsenceFilters) => {
+  let query = supabase
+    .from('absences')
+    .select(absenceSelect)
+
+  if (filters.userId) query = query.eq('user_id', filters.userId)
+  if (filters.statuses) query = query.in('status', filters.statuses)
+
+  const { data, error } = await query.order('start_date', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as AbsenceWithRelations[]
+}
+
+export const requestAbsence = async (absence: TablesInsert<'absences'>) => {
+  const { error } = await supabase
+    .from('absences')
+    .insert({ ...absence, status: 'pending' })
+
+  if (error) throw error
+  invalidateQueries(queryKeys.absences)
+}
+
+export const withdrawAbsence = async (id: string) => {
+  const { error } = await supabase
+    .from('absences')
+    .delete()
+    .eq('id', id)
+    .eq('status', 'pending')
+
+  if (error) throw error
+  invalidateQueries(queryKeys.absences)
+}
+
+export const reviewAbsence = async (
+  id: string,
+  reviewerId: string,
+  status: 'approved' | 'rejected',
+  comment: string
+) => {
+  const { error } = await supabase
+    .from('absences')
+    .update({
+      status,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+      review_comment: comment,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+
+  if (error) throw error
+  invalidateQueries(queryKeys.absences)
+}
+
+export const fetchPublicHolidays = async () => {
+  const { data, error } = await supabase
+    .from('public_holidays')
+    .select('*')
+    .order('date')
+
+  if (error) throw error
+  return (data || []) as PublicHoliday[]
+}
+
+export const createPublicHoliday = async (holiday: TablesInsert<'public_holidays'>) => {
+  const { error } = await supabase
+    .from('public_holidays')
+    .insert(holiday)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.publicHolidays)
+}
+
+export const deletePublicHoliday = async (id: string) => {
+  const { error } = await supabase
+    .from('public_holidays')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.publicHolidays)
+}
+
+// Closed periods
+
+export const fetchClosedPeriods = async () => {
+  const { data, error } = await supabase
+    .from('closed_periods')
+    .select('*')
+    .order('start_date', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as ClosedPeriod[]
+}
+
+export const closePeriod = async (startDate: string, endDate: string, closedBy: string) => {
+  const { error } = await supabase
+    .from('closed_periods')
+    .insert({ start_date: startDate, end_date: endDate, closed_by: closedBy })
+
+  if (error) throw error
+  invalidateQueries(queryKeys.closedPeriods)
+}
+
+export const reopenPeriod = async (id: string, reopenedBy: string, reason: string) => {
+  const { error } = await supabase
+    .from('closed_periods')
+    .update({
+      reopened_by: reopenedBy,
+      reopened_at: new Date().toISOString(),
+      reopen_reason: reason
+    })
+    .eq('id', id)
+    .is('reopened_at', null)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.closedPeriods)
+}
+
+// Running timers
+
+export const fetchRunningTimer = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('running_timers')
+    .select(`
+      *,
+      project:projects(*),
+      task:tasks(*)
+    `)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as RunningTimer | null
+}
+
+export const insertRunningTimer = async (timer: TablesInsert<'running_timers'>) => {
+  const { error } = await supabase
+    .from('running_timers')
+    .insert(timer)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.runningTimer(timer.user_id))
+}
+
+export const deleteRunningTimer = async (userId: string) => {
+  const { error } = await supabase
+    .from('running_timers')
+    .delete()
+    .eq('user_id', userId)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.runningTimer(userId))
+}
+
+// Billing
+
+export const fetchUserRates = async () => {
+  const { data, error } = await supabase
+    .from('project_user_rates')
+    .select('*')
+
+  if (error) throw error
+  return (data || []) as ProjectUserRate[]
+}
+
+export const setUserRate = async (rate: TablesInsert<'project_user_rates'>) => {
+  const { error } = await supabase
+    .from('project_user_rates')
+    .upsert(rate, { onConflict: 'project_id,user_id' })
+
+  if (error) throw error
+  invalidateQueries(queryKeys.userRates)
+}
+
+export const deleteUserRate = async (projectId: string, userId: string) => {
+  const { error } = await supabase
+    .from('project_user_rates')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('user_id', userId)
+
+  if (error) throw error
+  invalidateQueries(queryKeys.userRates)
+}
+
+export const fetchInvoices = async () => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as Invoice[]
+}
+
+export const fetchInvoice = async (id: string) => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(`
+      *,
+      lines:invoice_lines(*)
+    `)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as InvoiceWithLines | null
+}
+
+export interface NewInvoice {
+  clientId: string
+  periodStart: string
+  periodEnd: string
+  notes: string
+  lines: Pick<InvoiceLine, 'project_id' | 'task_id' | 'description' | 'hours' | 'rate' | 'amount'>[]
+  entryIds: string[]
+}
+
+// Saved by a database function so the invoice, its lines and the invoiced
+// flags on the entries are written together or not at all
+export const createInvoice = async (invoice: NewInvoice) => {
+  const { data, error } = await supabase.rpc('create_invoice', {
+    p_client_id: invoice.clientId,
+    p_period_start: invoice.periodStart,
+    p_period_end: invoice.periodEnd,
+    p_notes: invoice.notes,
+    p_lines: invoice.lines,
+    p_entry_ids: invoice.entryIds
+  })
+
+  if (error) throw error
+  invalidateQueries(queryKeys.invoices)
+  invalidateQueries(queryKeys.timeEntries)
+  return data as string
+}
+
+// Trash
+
+export const fetchTrash = async () => {
+  const { data, error } = await supabase.rpc('get_trash')
+
+  if (error) throw error
+  return (data || []) as TrashItem[]
+}
+
+const invalidateTrashed = (table: AuditTable) => {
+  invalidateQueries(queryKeys.trash)
+  invalidateQueries(queryKeys.timeEntries)
+  if (table !== 'time_entries') invalidateQueries(queryKeys.tasks)
+  if (table === 'projects') invalidateQueries(queryKeys.projects)
+}
+
+// Restoring a task or project also restores what was trashed along with it
+export const restoreFromTrash = async (table: AuditTable, id: string) => {
+  const { error } = await supabase.rpc('restore_from_trash', { p_table: table, p_id: id })
+
+  if (error) throw error
+  invalidateTrashed(table)
+}
+
+export const purgeFromTrash = async (table: AuditTable, id: string) => {
+  const { error } = await supabase.rpc('purge_from_trash', { p_table: table, p_id: id })
+
+  if (error) throw error
+  invalidateTrashed(table)
+}
+
+// Audit log
+
+// Every change to one entry, project or task, newest first
+export const fetchRecordHistory = async (table: AuditTable, recordId: string) => {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('*')
+    .eq('table_name', table)
+    .eq('record_id', recordId)
+    .order('changed_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as AuditEntry[]
+}
+
+export const AUDIT_LOG_LIMIT = 200
+
+// The most recent changes matching the filters; dates are local days, both inclusive
+export const fetchAuditLog = async (filters: AuditFilters) => {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+
+  if (filters.table) query = query.eq('table_name', filters.table)
+  if (filters.action) query = query.eq('action', filters.action)
+  if (filters.actorId) query = query.eq('actor_id', filters.actorId)
+  if (filters.from) query = query.gte('changed_at', new Date(`${filters.from}T00:00:00`).toISOString())
+  if (filters.to) query = query.lte('changed_at', new Date(`${filters.to}T23:59:59.999`).toISOString())
+
+  const { data, error } = await query
+    .order('changed_at', { ascending: false })
+    .limit(AUDIT_LOG_LIMIT)
+
+  if (error) throw error
+  return (data || []) as AuditEntry[]
+}
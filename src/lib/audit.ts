@@ -0,0 +1,128 @@
+import { format, parseISO } from 'date-fns'
+import type { AppUser, AuditAction, AuditEntry, AuditTable, Client, Project, Task } from './api'
+
+export const AUDIT_TABLES: { value: AuditTable; label: string }[] = [
+  { value: 'time_entries', label: 'Time entries' },
+  { value: 'projects', label: 'Projects' },
+  { value: 'tasks', label: 'Tasks' }
+]
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: 'insert', label: 'Created' },
+  { value: 'update', label: 'Changed' },
+  { value: 'delete', label: 'Deleted' }
+]
+
+export const auditActionLabel = (action: AuditAction) =>
+  AUDIT_ACTIONS.find(option => option.value === action)?.label || action
+
+// Columns shown in a history, in this order; anything else is bookkeeping
+const FIELD_LABELS: Record<AuditTable, Record<string, string>> = {
+  time_entries: {
+    user_id: 'Person',
+    date: 'Date',
+    start_time: 'Start',
+    end_time: 'End',
+    hours: 'Hours',
+    project_id: 'Project',
+    task_id: 'Task',
+    description: 'Description',
+    billable: 'Billable',
+    invoice_id: 'Invoiced',
+    edited_by: 'Edited on behalf by',
+    deleted_at: 'In trash'
+  },
+  projects: {
+    name: 'Name',
+    client_id: 'Client',
+    description: 'Description',
+    status: 'Status',
+    start_date: 'Start date',
+    end_date: 'End date',
+    budget_hours: 'Budget (hours)',
+    hourly_rate: 'Hourly rate',
+    task_fields: 'Task fields',
+    deleted_at: 'In trash'
+  },
+  tasks: {
+    name: 'Name',
+    project_id: 'Project',
+    description: 'Description',
+    budget_hours: 'Budget (hours)',
+    hourly_rate: 'Hourly rate',
+    metadata: 'Custom fields',
+    deleted_at: 'In trash'
+  }
+}
+
+export interface AuditLookups {
+  users: AppUser[]
+  projects: Project[]
+  tasks: Task[]
+  clients: Client[]
+}
+
+export interface AuditChange {
+  field: string
+  label: string
+  before: string
+  after: string
+}
+
+const snapshot = (entry: AuditEntry) => entry.new_data || entry.old_data || {}
+
+export const formatAuditValue = (field: string, value: unknown, lookups: AuditLookups) => {
+  if (typeof value === 'boolean' || field === 'invoice_id' || field === 'deleted_at') return value ? 'Yes' : 'No'
+  if (value === null || value === undefined || value === '') return '—'
+
+  const name =
+    field === 'user_id' || field === 'edited_by' ? lookups.users.find(user => user.id === value)?.name
+      : field === 'project_id' ? lookups.projects.find(project => project.id === value)?.name
+        : field === 'task_id' ? lookups.tasks.find(task => task.id === value)?.name
+          : field === 'client_id' ? lookups.clients.find(client => client.id === value)?.name
+            : undefined
+  if (field.endsWith('_id') || field === 'edited_by') return name || 'Removed'
+
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return format(parseISO(value), 'MMM d, yyyy')
+  if (typeof value === 'string' && /^\d{2}:\d{2}:\d{2}$/.test(value)) return value.slice(0, 5)
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Field by field before and after values; creations and deletions list the whole row
+export const auditChanges = (entry: AuditEntry, lookups: AuditLookups): AuditChange[] => {
+  const labels = FIELD_LABELS[entry.table_name]
+  const fields = entry.action === 'update'
+    ? Object.keys(labels).filter(field => entry.changed_fields.includes(field))
+    : Object.keys(labels).filter(field => {
+        const value = snapshot(entry)[field]
+        return value !== null && value !== undefined && value !== ''
+      })
+
+  return fields.map(field => ({
+    field,
+    label: labels[field],
+    before: formatAuditValue(field, entry.old_data?.[field], lookups),
+    after: formatAuditValue(field, entry.new_data?.[field], lookups)
+  }))
+}
+
+// Names a record from its own data, so deleted records stay readable
+export const recordLabel = (table: AuditTable, data: Record<string, unknown>, lookups: AuditLookups) => {
+  if (table === 'time_entries') {
+    return [
+      formatAuditValue('user_id', data.user_id, lookups),
+      formatAuditValue('date', data.date, lookups),
+      formatAuditValue('project_id', data.project_id, lookups),
+      `${Number(data.hours || 0).toFixed(2)}h`
+    ].join(' · ')
+  }
+
+  return String(data.name || 'Unnamed')
+}
+
+export const auditRecordLabel = (entry: AuditEntry, lookups: AuditLookups) =>
+  recordLabel(entry.table_name, snapshot(entry), lookups)
+
+export const auditActorName = (entry: AuditEntry, users: AppUser[]) =>
+  users.find(user => user.id === entry.actor_id)?.name || entry.actor_email || 'System'
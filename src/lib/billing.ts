@@ -0,0 +1,74 @@
+import type { Project, ProjectUserRate, Task, TimeEntryWithRelations } from './api'
+
+export interface InvoiceLineDraft {
+  key: string
+  project_id: string
+  task_id: string | null
+  description: string
+  hours: number
+  rate: number
+  amount: number
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+// A person's rate on the project wins over the task rate, which wins over the project rate
+export const resolveRate = (
+  entry: Pick<TimeEntryWithRelations, 'project_id' | 'task_id' | 'user_id'>,
+  projects: Project[],
+  tasks: Task[],
+  userRates: ProjectUserRate[]
+) => {
+  const userRate = userRates.find(rate => rate.project_id === entry.project_id && rate.user_id === entry.user_id)
+  if (userRate) return userRate.hourly_rate
+
+  const task = entry.task_id ? tasks.find(t => t.id === entry.task_id) : null
+  if (task && task.hourly_rate !== null) return task.hourly_rate
+
+  return projects.find(project => project.id === entry.project_id)?.hourly_rate || 0
+}
+
+// One line per project and task; people billed at different rates get separate lines
+export const buildInvoiceLines = (
+  entries: TimeEntryWithRelations[],
+  projects: Project[],
+  tasks: Task[],
+  userRates: ProjectUserRate[]
+): InvoiceLineDraft[] => {
+  const lines = new Map<string, InvoiceLineDraft>()
+
+  entries.forEach(entry => {
+    const rate = resolveRate(entry, projects, tasks, userRates)
+    const key = [entry.project_id, entry.task_id || '', rate].join('|')
+    const project = projects.find(p => p.id === entry.project_id)
+    const task = entry.task_id ? tasks.find(t => t.id === entry.task_id) : null
+
+    const line = lines.get(key) || {
+      key,
+      project_id: entry.project_id,
+      task_id: entry.task_id,
+      description: [project?.name || 'Unknown project', task?.name].filter(Boolean).join(' · '),
+      hours: 0,
+      rate,
+      amount: 0
+    }
+    line.hours += entry.hours
+    lines.set(key, line)
+  })
+
+  return Array.from(lines.values())
+    .map(line => {
+      const hours = roundMoney(line.hours)
+      return { ...line, hours, amount: roundMoney(hours * line.rate) }
+    })
+    .sort((a, b) => a.description.localeCompare(b.description) || b.rate - a.rate)
+}
+
+export const invoiceTotal = (lines: Pick<InvoiceLineDraft, 'amount'>[]) =>
+  roundMoney(lines.reduce((total, line) => total + line.amount, 0))
+
+export const formatMoney = (value: number, currency?: string) =>
+  new Intl.NumberFormat(
+    undefined,
+    currency ? { style: 'currency', currency } : { minimumFractionDigits: 2, maximumFractionDigits: 2 }
+  ).format(value)
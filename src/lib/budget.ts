@@ -0,0 +1,73 @@
+import { addDays, format, subDays } from 'date-fns'
+import type { BudgetUsage } from './api'
+
+export type BudgetLevel = 'ok' | 'warning' | 'over'
+
+export interface BudgetSummary {
+  budget: number
+  used: number
+  remaining: number
+  ratio: number
+  level: BudgetLevel
+  // Average hours per calendar day over the burn window
+  dailyBurn: number
+  runOutDate: Date | null
+}
+
+export const BUDGET_WARNING_RATIO = 0.8
+const BURN_WINDOW_DAYS = 28
+
+const roundHours = (value: number) => Math.round(value * 100) / 100
+
+export const budgetLevel = (ratio: number): BudgetLevel =>
+  ratio >= 1 ? 'over' : ratio >= BUDGET_WARNING_RATIO ? 'warning' : 'ok'
+
+export const projectUsage = (usage: BudgetUsage[], projectId: string) =>
+  usage.filter(row => row.project_id === projectId)
+
+export const taskUsage = (usage: BudgetUsage[], taskId: string) =>
+  usage.filter(row => row.task_id === taskId)
+
+export const usedHours = (usage: BudgetUsage[]) =>
+  roundHours(usage.reduce((total, row) => total + row.hours, 0))
+
+// Projects the run-out date from the pace of the last four weeks
+export const summarizeBudget = (budget: number, usage: BudgetUsage[], today = new Date()): BudgetSummary => {
+  const used = usedHours(usage)
+  const remaining = roundHours(budget - used)
+  const ratio = budget > 0 ? used / budget : 0
+
+  const windowStart = format(subDays(today, BURN_WINDOW_DAYS - 1), 'yyyy-MM-dd')
+  const windowEnd = format(today, 'yyyy-MM-dd')
+  const recent = usage.filter(row => row.date >= windowStart && row.date <= windowEnd)
+  const dailyBurn = usedHours(recent) / BURN_WINDOW_DAYS
+
+  return {
+    budget,
+    used,
+    remaining,
+    ratio,
+    level: budgetLevel(ratio),
+    dailyBurn,
+    runOutDate: remaining > 0 && dailyBurn > 0 ? addDays(today, Math.ceil(remaining / dailyBurn)) : null
+  }
+}
+
+// Warning shown while logging time; `adding` is the length of the entry being entered
+export const budgetAlert = (label: string, budget: number | null, usage: BudgetUsage[], adding: number) => {
+  if (budget === null) return null
+
+  const used = usedHours(usage)
+  const after = used + adding
+  const level = budgetLevel(after / budget)
+  if (level === 'ok') return null
+
+  return {
+    level,
+    message: level === 'over'
+      ? after > budget
+        ? `${label} goes ${roundHours(after - budget)}h over its ${budget}h budget`
+        : `${label} uses up its whole ${budget}h budget`
+      : `${label} will be at ${Math.round((after / budget) * 100)}% of its ${budget}h budget`
+  }
+}
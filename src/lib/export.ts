@@ -0,0 +1,93 @@
+import * as XLSX from 'xlsx'
+import { format, parseISO } from 'date-fns'
+import { buildCalendar, downloadCalendar } from './ical'
+
+export type ExportFormat = 'xlsx' | 'csv' | 'ics'
+
+export interface ExportEntry {
+  id?: string
+  date: string
+  start_time: string
+  end_time: string
+  hours: number
+  description: string
+  project?: { name: string; client?: { name: string } | null } | null
+  task?: { name: string } | null
+  user?: { name: string; email: string } | null
+}
+
+interface ExportOptions {
+  filename: string
+  format: ExportFormat
+  includeUser?: boolean
+}
+
+const round = (hours: number) => Math.round(hours * 100) / 100
+
+const toRows = (entries: ExportEntry[], includeUser: boolean) =>
+  [...entries]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time))
+    .map(entry => ({
+      ...(includeUser ? { User: entry.user?.name || '', Email: entry.user?.email || '' } : {}),
+      Date: entry.date,
+      Day: format(parseISO(entry.date), 'EEE'),
+      Project: entry.project?.name || '',
+      Client: entry.project?.client?.name || '',
+      Task: entry.task?.name || '',
+      Start: entry.start_time.slice(0, 5),
+      End: entry.end_time.slice(0, 5),
+      Hours: round(entry.hours),
+      Description: entry.description || ''
+    }))
+
+const buildSummarySheet = (entries: ExportEntry[]) => {
+  const dayTotals = new Map<string, number>()
+  const projectTotals = new Map<string, { client: string; hours: number }>()
+
+  entries.forEach(entry => {
+    dayTotals.set(entry.date, (dayTotals.get(entry.date) || 0) + entry.hours)
+
+    const projectName = entry.project?.name || 'Unknown project'
+    const project = projectTotals.get(projectName) || { client: entry.project?.client?.name || '', hours: 0 }
+    project.hours += entry.hours
+    projectTotals.set(projectName, project)
+  })
+
+  const total = entries.reduce((sum, entry) => sum + entry.hours, 0)
+  const rows: (string | number)[][] = [
+    ['Totals per day'],
+    ['Date', 'Day', 'Hours'],
+    ...Array.from(dayTotals.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, hours]) => [date, format(parseISO(date), 'EEE'), round(hours)]),
+    ['Total', '', round(total)],
+    [],
+    ['Totals per project'],
+    ['Project', 'Client', 'Hours'],
+    ...Array.from(projectTotals.entries())
+      .sort(([, a], [, b]) => b.hours - a.hours)
+      .map(([name, project]) => [name, project.client, round(project.hours)]),
+    ['Total', '', round(total)]
+  ]
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows)
+  sheet['!cols'] = [{ wch: 28 }, { wch: 24 }, { wch: 10 }]
+  return sheet
+}
+
+export const exportTimeEntries = (entries: ExportEntry[], { filename, format: fileFormat, includeUser = false }: ExportOptions) => {
+  if (fileFormat === 'ics') {
+    downloadCalendar(buildCalendar(entries, { includeUser, name: filename }), filename)
+    return
+  }
+
+  const entriesSheet = XLSX.utils.json_to_sheet(toRows(entries, includeUser))
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, entriesSheet, 'Time Entries')
+
+  if (fileFormat === 'xlsx') {
+    XLSX.utils.book_append_sheet(workbook, buildSummarySheet(entries), 'Summary')
+  }
+
+  XLSX.writeFile(workbook, `${filename}.${fileFormat}`, { bookType: fileFormat })
+}
@@ -0,0 +1,259 @@
+import { addDays, addWeeks, differenceInMinutes, format, getISODay, parseISO } from 'date-fns'
+import { crossesMidnight, nextDate } from './time'
+
+// Reading and writing iCalendar (RFC 5545) files. Only what time tracking needs is
+// covered: timed events, DURATION, simple daily and weekly RRULEs, EXDATE and
+// moved occurrences (RECURRENCE-ID). Times with a TZID are read as local time.
+
+export interface CalendarExportEntry {
+  id?: string
+  date: string
+  start_time: string
+  end_time: string
+  hours: number
+  description: string
+  project?: { name: string; client?: { name: string } | null } | null
+  task?: { name: string } | null
+  user?: { name: string } | null
+}
+
+export interface CalendarEvent {
+  uid: string
+  date: string
+  start_time: string
+  end_time: string
+  summary: string
+  description: string
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([\\;,])/g, '$1')
+
+// Lines longer than 75 characters continue on the next line after a space
+const foldLine = (line: string) => {
+  const parts: string[] = []
+  for (let index = 0; index < line.length; index += parts.length === 0 ? 75 : 74) {
+    parts.push(line.slice(index, index + (parts.length === 0 ? 75 : 74)))
+  }
+  return parts.join('\r\n ')
+}
+
+const localDateTime = (date: string, time: string) => `${date.replace(/-/g, '')}T${time.slice(0, 5).replace(':', '')}00`
+
+export const buildCalendar = (entries: CalendarExportEntry[], { includeUser = false, name = 'Time entries' } = {}) => {
+  const stamp = `${new Date().toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`
+  const events = entries.flatMap(entry => {
+    const summary = [
+      includeUser ? entry.user?.name : null,
+      entry.project?.name || 'Time entry',
+      entry.task?.name
+    ].filter(Boolean).join(' · ')
+    const details = [
+      entry.description,
+      entry.project?.client ? `Client: ${entry.project.client.name}` : '',
+      `Hours: ${entry.hours.toFixed(2)}`
+    ].filter(Boolean).join('\n')
+    const endDate = crossesMidnight(entry.start_time, entry.end_time) ? nextDate(entry.date) : entry.date
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${entry.id || `${entry.date}-${entry.start_time}`}@timetracking`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${localDateTime(entry.date, entry.start_time)}`,
+      `DTEND:${localDateTime(endDate, entry.end_time)}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(details)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    ]
+  })
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TimeTracking//Time entries//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events,
+    'END:VCALENDAR'
+  ].map(foldLine).join('\r\n') + '\r\n'
+}
+
+export const downloadCalendar = (contents: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'text/calendar;charset=utf-8' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${filename}.ics`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+interface Property {
+  params: Record<string, string>
+  value: string
+}
+
+type RawEvent = Record<string, Property[]>
+
+const parseProperty = (line: string): [string, Property] | null => {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+  if (colon === -1) return null
+
+  const [name, ...params] = line.slice(0, colon).split(';')
+  return [
+    name.toUpperCase(),
+    {
+      params: Object.fromEntries(params.map(param => {
+        const [key, value = ''] = param.split('=')
+        return [key.toUpperCase(), value.replace(/"/g, '')]
+      })),
+      value: line.slice(colon + 1)
+    }
+  ]
+}
+
+const readEvents = (text: string): RawEvent[] => {
+  const events: RawEvent[] = []
+  let current: RawEvent | null = null
+  let nested = 0
+
+  text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      current = {}
+    } else if (line === 'END:VEVENT') {
+      if (current) events.push(current)
+      current = null
+    } else if (current && line.startsWith('BEGIN:')) {
+      // Alarms inside an event have properties of their own
+      nested++
+    } else if (current && line.startsWith('END:')) {
+      nested--
+    } else if (current && nested === 0) {
+      const property = parseProperty(line)
+      if (property) (current[property[0]] ||= []).push(property[1])
+    }
+  })
+
+  return events
+}
+
+// Returns null for all-day values, which have no times to log
+const parseDateTime = (property: Property | undefined): Date | null => {
+  const match = property?.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/)
+  if (!match || property?.params.VALUE === 'DATE') return null
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number)
+  return match[7]
+    ? new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+    : new Date(year, month - 1, day, hour, minute, second)
+}
+
+const parseDuration = (value: string | undefined) => {
+  const match = value?.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) return null
+
+  const [weeks, days, hours, minutes] = match.slice(1, 5).map(part => Number(part || 0))
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes
+}
+
+const weekdayCodes = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+
+// Start times of every occurrence up to `until`; other frequencies only keep the first one
+const occurrences = (start: Date, rule: string | undefined, until: Date) => {
+  if (!rule) return [start]
+
+  const parts: Record<string, string> = Object.fromEntries(rule.split(';').map(part => part.split('=')))
+  const interval = Number(parts.INTERVAL || 1)
+  const count = parts.COUNT ? Number(parts.COUNT) : Infinity
+  const ruleEnd = parseDateTime({ params: {}, value: parts.UNTIL?.length === 8 ? `${parts.UNTIL}T235959` : parts.UNTIL || '' })
+  const last = ruleEnd && ruleEnd < until ? ruleEnd : until
+  const result: Date[] = []
+
+  if (parts.FREQ === 'DAILY') {
+    for (let day = start; day <= last && result.length < count; day = addDays(day, interval)) result.push(day)
+  } else if (parts.FREQ === 'WEEKLY') {
+    const weekdays = parts.BYDAY
+      ? parts.BYDAY.split(',').map(code => weekdayCodes.indexOf(code.slice(-2)) + 1).filter(day => day > 0)
+      : [getISODay(start)]
+    const weekStart = addDays(start, 1 - getISODay(start))
+
+    for (let week = weekStart; week <= last && result.length < count; week = addWeeks(week, interval)) {
+      weekdays
+        .slice()
+        .sort()
+        .map(day => addDays(week, day - 1))
+        .filter(day => day >= start && day <= last)
+        .forEach(day => {
+          if (result.length < count) result.push(day)
+        })
+    }
+  } else {
+    result.push(start)
+  }
+
+  return result
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+// Timed events that start between from and to, one per occurrence, shorter than a day
+export const parseCalendar = (text: string, from: string, to: string): CalendarEvent[] => {
+  const rawEvents = readEvents(text)
+  const until = addDays(parseISO(to), 1)
+  const moved = new Set(
+    rawEvents
+      .filter(event => event['RECURRENCE-ID'])
+      .map(event => `${event.UID?.[0]?.value}|${format(parseDateTime(event['RECURRENCE-ID'][0]) || new Date(0), 'yyyy-MM-dd')}`)
+  )
+
+  return rawEvents.flatMap(event => {
+    const start = parseDateTime(event.DTSTART?.[0])
+    if (!start || event.STATUS?.[0]?.value.toUpperCase() === 'CANCELLED') return []
+
+    const end = parseDateTime(event.DTEND?.[0])
+    const minutes = end ? differenceInMinutes(end, start) : parseDuration(event.DURATION?.[0]?.value)
+    if (!minutes || minutes <= 0 || minutes >= 24 * 60) return []
+
+    const uid = event.UID?.[0]?.value || `${format(start, "yyyyMMdd'T'HHmm")}-${event.SUMMARY?.[0]?.value}`
+    const excluded = new Set(
+      (event.EXDATE || []).flatMap(property =>
+        property.value.split(',').map(value => {
+          const date = parseDateTime({ params: property.params, value })
+          return date ? format(date, 'yyyy-MM-dd') : value.slice(0, 8).replace(/(\d{4})(\d{2})(\d{2})/, '$1-$2-$3')
+        })
+      )
+    )
+    const recurring = !event['RECURRENCE-ID']
+
+    return occurrences(start, recurring ? event.RRULE?.[0]?.value : undefined, until)
+      .filter(occurrence => {
+        const date = format(occurrence, 'yyyy-MM-dd')
+        return date >= from && date <= to && !excluded.has(date) && !(recurring && event.RRULE && moved.has(`${uid}|${date}`))
+      })
+      .map(occurrence => {
+        const finish = new Date(occurrence.getTime() + minutes * 60000)
+        return {
+          uid,
+          date: format(occurrence, 'yyyy-MM-dd'),
+          start_time: `${pad(occurrence.getHours())}:${pad(occurrence.getMinutes())}`,
+          end_time: `${pad(finish.getHours())}:${pad(finish.getMinutes())}`,
+          summary: unescapeText(event.SUMMARY?.[0]?.value || ''),
+          description: unescapeText(event.DESCRIPTION?.[0]?.value || '')
+        }
+      })
+  })
+}
+
+export interface KeywordRule {
+  keyword: string
+}
+
+// The first rule whose keyword appears in the event title or description wins
+export const matchKeywordRule = <T extends KeywordRule>(event: Pick<CalendarEvent, 'summary' | 'description'>, rules: T[]) => {
+  const text = `${event.summary}\n${event.description}`.toLowerCase()
+  return rules.find(rule => rule.keyword.trim() && text.includes(rule.keyword.trim().toLowerCase())) || null
+}
@@ -0,0 +1,203 @@
+import * as XLSX from 'xlsx'
+import { format, isValid, parse } from 'date-fns'
+import type { Project } from './api'
+import { calculateHours, crossesMidnight, entriesOverlap } from './time'
+import { projectDateError } from './projects'
+import { dayLockLabel } from './periods'
+import type { DayLock } from './periods'
+
+export type ImportField = 'date' | 'project' | 'task' | 'start_time' | 'end_time' | 'description'
+
+export type ColumnMapping = Record<ImportField, string>
+
+export const importFields: { id: ImportField; name: string; required: boolean; aliases: string[] }[] = [
+  { id: 'date', name: 'Date', required: true, aliases: ['date', 'day', 'datum'] },
+  { id: 'project', name: 'Project', required: true, aliases: ['project', 'project name'] },
+  { id: 'task', name: 'Task', required: false, aliases: ['task', 'task name', 'activity'] },
+  { id: 'start_time', name: 'Start time', required: true, aliases: ['start', 'start time', 'from', 'begin'] },
+  { id: 'end_time', name: 'End time', required: true, aliases: ['end', 'end time', 'to', 'finish'] },
+  { id: 'description', name: 'Description', required: false, aliases: ['description', 'notes', 'comment'] }
+]
+
+export type SheetRow = Record<string, unknown>
+
+export type ImportProject = Pick<Project, 'id' | 'name' | 'status' | 'start_date' | 'end_date'>
+
+export interface ImportTask {
+  id: string
+  name: string
+  project_id: string
+}
+
+export interface ExistingEntry {
+  project_id: string
+  task_id: string | null
+  date: string
+  start_time: string
+  end_time: string
+}
+
+export interface ImportRow {
+  rowNumber: number
+  raw: Record<ImportField, string>
+  entry: {
+    project_id: string
+    task_id: string | null
+    date: string
+    start_time: string
+    end_time: string
+    hours: number
+    description: string
+  } | null
+  errors: string[]
+  duplicate: boolean
+  overnight: boolean
+}
+
+const dateFormats = ['yyyy-MM-dd', 'dd.MM.yyyy', 'dd/MM/yyyy']
+
+export const readSpreadsheet = async (file: File): Promise<{ headers: string[]; rows: SheetRow[] }> => {
+  // Leave CSV cells as text so day-first dates are not read as US dates
+  const workbook = XLSX.read(await file.arrayBuffer(), { cellDates: true, raw: /\.csv$/i.test(file.name) })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) return { headers: [], rows: [] }
+
+  const rows = XLSX.utils.sheet_to_json<SheetRow>(sheet, { defval: '' })
+  const headers = (XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1 })[0] || []).map(String)
+  return { headers, rows }
+}
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping = {} as ColumnMapping
+  importFields.forEach(field => {
+    const match = headers.find(header => field.aliases.includes(header.trim().toLowerCase()))
+    mapping[field.id] = match || ''
+  })
+  return mapping
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+export const normalizeDate = (value: unknown): string | null => {
+  if (value instanceof Date) {
+    return isValid(value) ? format(value, 'yyyy-MM-dd') : null
+  }
+
+  const text = String(value ?? '').trim()
+  for (const dateFormat of dateFormats) {
+    const parsed = parse(text, dateFormat, new Date())
+    if (isValid(parsed) && format(parsed, dateFormat) === text) {
+      return format(parsed, 'yyyy-MM-dd')
+    }
+  }
+  return null
+}
+
+export const normalizeTime = (value: unknown): string | null => {
+  if (value instanceof Date) {
+    return isValid(value) ? `${pad(value.getHours())}:${pad(value.getMinutes())}` : null
+  }
+
+  // Excel stores bare times as a fraction of a day
+  if (typeof value === 'number' && value >= 0 && value < 1) {
+    const minutes = Math.round(value * 24 * 60)
+    return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`
+  }
+
+  const match = String(value ?? '').trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/)
+  if (!match) return null
+
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59) return null
+  return `${pad(hours)}:${pad(minutes)}`
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+const entryKey = (entry: ExistingEntry) =>
+  [entry.date, entry.start_time.slice(0, 5), entry.end_time.slice(0, 5), entry.project_id, entry.task_id || ''].join('|')
+
+export const getRowDates = (rows: SheetRow[], mapping: ColumnMapping): string[] =>
+  mapping.date
+    ? rows.map(row => normalizeDate(row[mapping.date])).filter((date): date is string => !!date)
+    : []
+
+export const validateRows = (
+  rows: SheetRow[],
+  mapping: ColumnMapping,
+  projects: ImportProject[],
+  tasks: ImportTask[],
+  existingEntries: ExistingEntry[],
+  dayLock: (date: string) => DayLock | null
+): ImportRow[] => {
+  const existingKeys = new Set(existingEntries.map(entryKey))
+  const accepted: ExistingEntry[] = []
+  const acceptedKeys = new Set<string>()
+
+  return rows.map((row, index) => {
+    const raw = {} as Record<ImportField, string>
+    importFields.forEach(field => {
+      const value = mapping[field.id] ? row[mapping[field.id]] : ''
+      raw[field.id] = value instanceof Date ? value.toISOString() : String(value ?? '').trim()
+    })
+
+    const errors: string[] = []
+    const date = normalizeDate(mapping.date ? row[mapping.date] : '')
+    const startTime = normalizeTime(mapping.start_time ? row[mapping.start_time] : '')
+    const endTime = normalizeTime(mapping.end_time ? row[mapping.end_time] : '')
+    const project = projects.find(p => sameName(p.name, raw.project))
+    const task = project && raw.task
+      ? tasks.find(t => t.project_id === project.id && sameName(t.name, raw.task))
+      : undefined
+
+    if (!date) errors.push(raw.date ? `Bad date format "${raw.date}"` : 'Missing date')
+    if (!raw.project) errors.push('Missing project')
+    else if (!project) errors.push(`Unknown project "${raw.project}"`)
+    if (project && raw.task && !task) errors.push(`Unknown task "${raw.task}" for ${project.name}`)
+    if (!startTime) errors.push(raw.start_time ? `Bad start time "${raw.start_time}"` : 'Missing start time')
+    if (!endTime) errors.push(raw.end_time ? `Bad end time "${raw.end_time}"` : 'Missing end time')
+    if (startTime && endTime && startTime === endTime) {
+      errors.push('End time is the same as start time')
+    }
+
+    if (errors.length > 0 || !date || !project || !startTime || !endTime) {
+      return { rowNumber: index + 2, raw, entry: null, errors, duplicate: false, overnight: false }
+    }
+
+    const entry = {
+      project_id: project.id,
+      task_id: task?.id || null,
+      date,
+      start_time: startTime,
+      end_time: endTime,
+      hours: calculateHours(startTime, endTime),
+      description: raw.description
+    }
+
+    const overnight = crossesMidnight(startTime, endTime)
+    const key = entryKey(entry)
+    if (existingKeys.has(key) || acceptedKeys.has(key)) {
+      return { rowNumber: index + 2, raw, entry, errors, duplicate: true, overnight }
+    }
+
+    // The same checks the database runs, so one bad row does not fail the whole import
+    const dateError = projectDateError(project, date)
+    if (dateError) errors.push(dateError)
+    const lock = dayLock(date)
+    if (lock) errors.push(dayLockLabel(lock))
+
+    if (existingEntries.some(existing => entriesOverlap(existing, entry))) {
+      errors.push('Overlaps an existing time entry')
+    } else if (accepted.some(other => entriesOverlap(other, entry))) {
+      errors.push('Overlaps another row in this file')
+    }
+
+    if (errors.length === 0) {
+      accepted.push(entry)
+      acceptedKeys.add(key)
+    }
+
+    return { rowNumber: index + 2, raw, entry, errors, duplicate: false, overnight }
+  })
+}
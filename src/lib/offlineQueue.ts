@@ -0,0 +1,264 @@
+import type { TablesInsert, TablesUpdate } from './supabase'
+import type { TimeEntry, TimeEntryFilters, TimeEntryWithRelations } from './api'
+
+export type PendingChange =
+  | { id: string; action: 'create'; entryId: string; values: TablesInsert<'time_entries'>; queuedAt: string }
+  | { id: string; action: 'update'; entryId: string; values: TablesUpdate<'time_entries'>; baseUpdatedAt: string | null; queuedAt: string }
+  | { id: string; action: 'delete'; entryId: string; baseUpdatedAt: string | null; queuedAt: string }
+
+export interface SyncConflict {
+  id: string
+  change: PendingChange
+  local: TimeEntryWithRelations | null
+  server: TimeEntry | null
+  reason: string
+}
+
+interface OfflineState {
+  changes: PendingChange[]
+  conflicts: SyncConflict[]
+  syncing: boolean
+}
+
+const STORAGE_KEY = 'time-tracking-offline'
+const SNAPSHOT_KEY = 'time-tracking-snapshot'
+
+// The queue and the snapshot belong to whoever is signed in, so the next
+// person on the same browser neither sees nor replays them
+let ownerId: string | null = null
+const ownerKey = (key: string) => `${key}:${ownerId}`
+
+const readStorage = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) as T : fallback
+  } catch {
+    return fallback
+  }
+}
+
+const writeStorage = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch (error) {
+    console.error('Error writing offline storage:', error)
+  }
+}
+
+const emptyState: OfflineState = { changes: [], conflicts: [], syncing: false }
+
+let state: OfflineState = emptyState
+const listeners = new Set<(state: OfflineState) => void>()
+
+const setState = (next: Partial<OfflineState>) => {
+  state = { ...state, ...next }
+  if (ownerId) writeStorage(ownerKey(STORAGE_KEY), { changes: state.changes, conflicts: state.conflicts })
+  listeners.forEach(listener => listener(state))
+}
+
+export const getOfflineOwner = () => ownerId
+
+export const setOfflineOwner = (userId: string | null) => {
+  if (userId === ownerId) return
+
+  // Left behind by versions that did not record whose changes they were
+  localStorage.removeItem(STORAGE_KEY)
+  localStorage.removeItem(SNAPSHOT_KEY)
+
+  ownerId = userId
+  state = userId
+    ? { ...readStorage(ownerKey(STORAGE_KEY), { changes: [], conflicts: [] }), syncing: false }
+    : emptyState
+  listeners.forEach(listener => listener(state))
+}
+
+export const clearOfflineData = () => {
+  if (ownerId) {
+    localStorage.removeItem(ownerKey(STORAGE_KEY))
+    localStorage.removeItem(ownerKey(SNAPSHOT_KEY))
+  }
+  ownerId = null
+  state = emptyState
+  listeners.forEach(listener => listener(state))
+}
+
+export const getOfflineState = () => state
+
+export const subscribeToOfflineState = (listener: (state: OfflineState) => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const setSyncing = (syncing: boolean) => setState({ syncing })
+
+export const hasPendingChanges = () => state.changes.length > 0
+
+export const isNetworkError = (error: unknown) => {
+  if (!navigator.onLine) return true
+  const message = error instanceof Error || (error && typeof error === 'object' && 'message' in error)
+    ? String((error as { message: unknown }).message)
+    : ''
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message)
+}
+
+// Changes to the same entry are folded together so a replay never updates a
+// row that was created offline before its insert, or touches a deleted one
+export const queueCreate = (entryId: string, values: TablesInsert<'time_entries'>) => {
+  setState({
+    changes: [...state.changes, { id: crypto.randomUUID(), action: 'create', entryId, values, queuedAt: new Date().toISOString() }]
+  })
+}
+
+export const queueUpdate = (entryId: string, values: TablesUpdate<'time_entries'>) => {
+  const existing = state.changes.find(change => change.entryId === entryId)
+
+  if (existing && existing.action !== 'delete') {
+    setState({
+      changes: state.changes.map(change =>
+        change === existing ? { ...existing, values: { ...existing.values, ...values } } as PendingChange : change
+      )
+    })
+    return
+  }
+
+  setState({
+    changes: [...state.changes, {
+      id: crypto.randomUUID(),
+      action: 'update',
+      entryId,
+      values,
+      baseUpdatedAt: readSnapshot()[entryId]?.updated_at || null,
+      queuedAt: new Date().toISOString()
+    }]
+  })
+}
+
+export const queueDelete = (entryId: string) => {
+  const existing = state.changes.find(change => change.entryId === entryId)
+
+  if (existing?.action === 'create') {
+    setState({ changes: state.changes.filter(change => change.entryId !== entryId) })
+    return
+  }
+
+  const baseUpdatedAt = existing?.action === 'update'
+    ? existing.baseUpdatedAt
+    : readSnapshot()[entryId]?.updated_at || null
+
+  setState({
+    changes: [
+      ...state.changes.filter(change => change.entryId !== entryId),
+      { id: crypto.randomUUID(), action: 'delete', entryId, baseUpdatedAt, queuedAt: new Date().toISOString() }
+    ]
+  })
+}
+
+export const removeChange = (changeId: string) => {
+  setState({ changes: state.changes.filter(change => change.id !== changeId) })
+}
+
+export const addConflict = (conflict: Omit<SyncConflict, 'id'>) => {
+  setState({ conflicts: [...state.conflicts, { ...conflict, id: crypto.randomUUID() }] })
+}
+
+export const removeConflict = (conflictId: string) => {
+  setState({ conflicts: state.conflicts.filter(conflict => conflict.id !== conflictId) })
+}
+
+// Last known server copy of the user's entries, used to keep the grid usable
+// when a fetch fails and to remember which version an offline edit started from
+
+const matchesFilters = (entry: TimeEntry, filters: TimeEntryFilters) =>
+  entry.date >= filters.from &&
+  entry.date <= filters.to &&
+  (!filters.userId || entry.user_id === filters.userId) &&
+  (!filters.userIds || filters.userIds.includes(entry.user_id)) &&
+  (!filters.projectIds || filters.projectIds.includes(entry.project_id)) &&
+  (!filters.uninvoiced || (entry.billable === true && entry.invoice_id == null))
+
+// Only a person's plain timesheet query is cached and shows queued changes;
+// invoicing and reports must see what is actually saved
+export const isTimesheetQuery = (filters: TimeEntryFilters) =>
+  !!ownerId && filters.userId === ownerId && !filters.userIds && !filters.projectIds && !filters.uninvoiced
+
+const readSnapshot = () =>
+  ownerId ? readStorage<Record<string, TimeEntryWithRelations>>(ownerKey(SNAPSHOT_KEY), {}) : {}
+
+export const saveSnapshot = (filters: TimeEntryFilters, entries: TimeEntryWithRelations[]) => {
+  if (!isTimesheetQuery(filters)) return
+
+  const snapshot = readSnapshot()
+  Object.values(snapshot).forEach(entry => {
+    if (matchesFilters(entry, filters)) delete snapshot[entry.id]
+  })
+  entries.forEach(entry => {
+    snapshot[entry.id] = entry
+  })
+  writeStorage(ownerKey(SNAPSHOT_KEY), snapshot)
+}
+
+export const loadSnapshot = (filters: TimeEntryFilters) =>
+  Object.values(readSnapshot())
+    .filter(entry => matchesFilters(entry, filters))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time))
+
+export const getSnapshotEntry = (entryId: string) => readSnapshot()[entryId] || null
+
+// Only the signed-in person's own entries are queued; anyone else's must be saved online
+export const canQueueEntry = (entryId: string) => {
+  const created = state.changes.find(change => change.entryId === entryId && change.action === 'create')
+  const userId = created?.action === 'create' ? created.values.user_id : getSnapshotEntry(entryId)?.user_id
+  return !!ownerId && userId === ownerId
+}
+
+interface Relations {
+  projects?: TimeEntryWithRelations['project'][]
+  tasks?: TimeEntryWithRelations['task'][]
+}
+
+// Overlays queued changes on server rows so the grid shows what the user did offline
+export const applyPendingChanges = (
+  entries: TimeEntryWithRelations[],
+  filters: TimeEntryFilters,
+  { projects = [], tasks = [] }: Relations
+): TimeEntryWithRelations[] => {
+  if (state.changes.length === 0 || !isTimesheetQuery(filters)) return entries
+
+  const withRelations = (entry: TimeEntry): TimeEntryWithRelations => ({
+    ...entry,
+    project: projects.find(project => project?.id === entry.project_id) || null,
+    task: tasks.find(task => task?.id === entry.task_id) || null,
+    pending: true
+  })
+
+  let result = [...entries]
+  state.changes.forEach(change => {
+    if (change.action === 'create') {
+      const now = change.queuedAt
+      const entry = withRelations({
+        description: '',
+        task_id: null,
+        billable: true,
+        invoice_id: null,
+        template_id: null,
+        created_at: now,
+        updated_at: now,
+        ...change.values,
+        id: change.entryId
+      } as TimeEntry)
+      if (matchesFilters(entry, filters)) result.push(entry)
+    } else if (change.action === 'update') {
+      result = result.flatMap(entry => {
+        if (entry.id !== change.entryId) return [entry]
+        const updated = withRelations({ ...entry, ...change.values })
+        return matchesFilters(updated, filters) ? [updated] : []
+      })
+    } else {
+      result = result.filter(entry => entry.id !== change.entryId)
+    }
+  })
+
+  return result.sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time))
+}
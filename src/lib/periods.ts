@@ -0,0 +1,24 @@
+import { format, parseISO, startOfWeek } from 'date-fns'
+import type { ClosedPeriod } from './api'
+
+// Why a day's time entries can no longer be changed
+export type DayLock = 'closed_period' | 'approved_week'
+
+// The closed period covering a date, ignoring periods that were reopened
+export const closedPeriodOn = (periods: ClosedPeriod[], date: string) =>
+  periods.find(period => !period.reopened_at && period.start_date <= date && period.end_date >= date) || null
+
+// Days in closed periods and in weeks whose timesheet was approved are read-only
+export const dayLockOn = (periods: ClosedPeriod[], approvedWeeks: Set<string>, date: string): DayLock | null => {
+  if (closedPeriodOn(periods, date)) return 'closed_period'
+  if (approvedWeeks.has(format(startOfWeek(parseISO(date), { weekStartsOn: 1 }), 'yyyy-MM-dd'))) return 'approved_week'
+  return null
+}
+
+export const dayLockLabel = (lock: DayLock) => lock === 'closed_period' ? 'Period is closed' : 'Week is approved'
+
+export const periodsOverlap = (period: Pick<ClosedPeriod, 'start_date' | 'end_date'>, startDate: string, endDate: string) =>
+  period.start_date <= endDate && period.end_date >= startDate
+
+export const formatClosedPeriod = (period: Pick<ClosedPeriod, 'start_date' | 'end_date'>) =>
+  `${format(parseISO(period.start_date), 'MMM d')} - ${format(parseISO(period.end_date), 'MMM d, yyyy')}`
@@ -0,0 +1,56 @@
+import { format, parseISO } from 'date-fns'
+import type { AppUser, Project, ProjectMember, ProjectStatus } from './api'
+
+export const PROJECT_STATUSES: { value: ProjectStatus; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'on_hold', label: 'On hold' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'archived', label: 'Archived' }
+]
+
+export const projectStatusLabel = (status: ProjectStatus) =>
+  PROJECT_STATUSES.find(option => option.value === status)?.label || status
+
+const statusOrder = (status: ProjectStatus) => PROJECT_STATUSES.findIndex(option => option.value === status)
+
+// Projects offered when logging time: archived ones are left out unless the entry already uses them
+export const projectsForEntry = (projects: Project[], currentProjectId?: string) =>
+  projects
+    .filter(project => project.status !== 'archived' || project.id === currentProjectId)
+    .sort((a, b) => statusOrder(a.status) - statusOrder(b.status) || a.name.localeCompare(b.name))
+
+export const projectOptionLabel = (project: Project) =>
+  [
+    `${project.name} - ${project.client?.name}`,
+    project.status !== 'active' ? `(${projectStatusLabel(project.status).toLowerCase()})` : ''
+  ].filter(Boolean).join(' ')
+
+// Mirrors the time_entries_project_dates trigger so people get the reason before saving
+export const projectDateError = (
+  project: Pick<Project, 'name' | 'status' | 'start_date' | 'end_date'> | undefined,
+  date: string
+) => {
+  if (!project) return null
+
+  if (project.status === 'archived') {
+    return `${project.name} is archived`
+  }
+  if (date < project.start_date) {
+    return `${project.name} starts on ${format(parseISO(project.start_date), 'MMM d, yyyy')}`
+  }
+  if (project.end_date && date > project.end_date) {
+    return `${project.name} ended on ${format(parseISO(project.end_date), 'MMM d, yyyy')}`
+  }
+  return null
+}
+
+// Supervisors and managers can edit every project, everyone else only the ones they lead
+export const canEditProject = (
+  user: Pick<AppUser, 'id' | 'role'> | null,
+  projectId: string,
+  members: ProjectMember[]
+) =>
+  !!user && (
+    user.role !== 'user' ||
+    members.some(member => member.project_id === projectId && member.user_id === user.id && member.role === 'lead')
+  )
@@ -0,0 +1,66 @@
+export type QueryKey = readonly unknown[]
+
+interface CacheEntry<T> {
+  key: QueryKey
+  data?: T
+  updatedAt: number
+  promise?: Promise<T>
+}
+
+const cache = new Map<string, CacheEntry<unknown>>()
+const listeners = new Set<(prefix: QueryKey) => void>()
+
+export const hashKey = (key: QueryKey) => JSON.stringify(key)
+
+export const matchesKey = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => JSON.stringify(part) === JSON.stringify(key[index]))
+
+export const getQueryData = <T>(key: QueryKey): T | undefined =>
+  (cache.get(hashKey(key)) as CacheEntry<T> | undefined)?.data
+
+export const setQueryData = <T>(key: QueryKey, data: T) => {
+  cache.set(hashKey(key), { key, data, updatedAt: Date.now() })
+}
+
+// Returns cached data while it is fresh and shares one request between
+// concurrent callers asking for the same key
+export const fetchQuery = <T>(key: QueryKey, fetcher: () => Promise<T>, staleTime = 0): Promise<T> => {
+  const hash = hashKey(key)
+  const entry = cache.get(hash) as CacheEntry<T> | undefined
+
+  if (entry?.promise) return entry.promise
+  if (entry && entry.data !== undefined && Date.now() - entry.updatedAt < staleTime) {
+    return Promise.resolve(entry.data)
+  }
+
+  const promise = fetcher()
+    .then(data => {
+      cache.set(hash, { key, data, updatedAt: Date.now() })
+      return data
+    })
+    .catch(error => {
+      cache.set(hash, { key, data: entry?.data, updatedAt: entry?.updatedAt || 0 })
+      throw error
+    })
+
+  cache.set(hash, { key, data: entry?.data, updatedAt: entry?.updatedAt || 0, promise })
+  return promise
+}
+
+export const invalidateQueries = (prefix: QueryKey) => {
+  cache.forEach(entry => {
+    if (matchesKey(entry.key, prefix)) entry.updatedAt = 0
+  })
+  listeners.forEach(listener => listener(prefix))
+}
+
+export const subscribeToInvalidation = (listener: (prefix: QueryKey) => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const clearQueryCache = () => {
+  cache.clear()
+}
@@ -0,0 +1,75 @@
+// Minimal history-based router. The path holds the view and an optional
+// record id (/projects/<id>); the query string holds view state such as the
+// visible week, so every screen can be linked to and restored on reload.
+
+export interface Route {
+  view: string
+  id: string | null
+  query: Record<string, string>
+}
+
+export const DEFAULT_VIEW = 'timetracking'
+
+type Listener = (route: Route) => void
+
+const listeners = new Set<Listener>()
+
+const parseLocation = (): Route => {
+  const [view, id] = window.location.pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  return {
+    view: view || DEFAULT_VIEW,
+    id: id || null,
+    query: Object.fromEntries(new URLSearchParams(window.location.search))
+  }
+}
+
+let currentRoute = parseLocation()
+
+export const routeUrl = ({ view, id, query }: Partial<Route> & { view: string }) => {
+  const path = `/${[view, id].filter(Boolean).map(part => encodeURIComponent(part!)).join('/')}`
+  const search = new URLSearchParams(
+    Object.entries(query || {}).filter(([, value]) => value !== undefined && value !== '')
+  ).toString()
+  return search ? `${path}?${search}` : path
+}
+
+const emit = () => {
+  currentRoute = parseLocation()
+  listeners.forEach(listener => listener(currentRoute))
+}
+
+window.addEventListener('popstate', emit)
+
+export const getRoute = () => currentRoute
+
+export const subscribeToRoute = (listener: Listener) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const navigate = (route: Partial<Route> & { view: string }, options: { replace?: boolean } = {}) => {
+  const url = routeUrl(route)
+  if (url === `${window.location.pathname}${window.location.search}`) return
+
+  if (options.replace) {
+    window.history.replaceState(null, '', url)
+  } else {
+    window.history.pushState(null, '', url)
+  }
+  emit()
+}
+
+// Changes query values on the current view; undefined or empty values are removed
+export const updateQuery = (changes: Record<string, string | undefined>, options: { replace?: boolean } = {}) => {
+  const query = { ...currentRoute.query }
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === undefined || value === '') {
+      delete query[key]
+    } else {
+      query[key] = value
+    }
+  })
+  navigate({ view: currentRoute.view, id: currentRoute.id, query }, options)
+}
@@ -5,6 +5,17 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || ''
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
+export type TaskFieldType = 'text' | 'number' | 'select' | 'date' | 'url'
+
+// Custom task field defined on a project; task values live in tasks.metadata[key]
+export interface TaskField {
+  key: string
+  label: string
+  type: TaskFieldType
+  options?: string[]
+  required?: boolean
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -14,6 +25,9 @@ export type Database = {
           email: string
           name: string
           role: 'user' | 'supervisor' | 'manager'
+          contracted_hours: number[]
+          flex_start: string
+          flex_opening_hours: number
           created_at: string
           updated_at: string
         }
@@ -22,6 +36,9 @@ export type Database = {
           email: string
           name: string
           role?: 'user' | 'supervisor' | 'manager'
+          contracted_hours?: number[]
+          flex_start?: string
+          flex_opening_hours?: number
           created_at?: string
           updated_at?: string
         }
@@ -30,6 +47,47 @@ export type Database = {
           email?: string
           name?: string
           role?: 'user' | 'supervisor' | 'manager'
+          contracted_hours?: number[]
+          flex_start?: string
+          flex_opening_hours?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      clients: {
+        Row: {
+          id: string
+          name: string
+          contact_name: string
+          email: string
+          phone: string
+          address: string
+          currency: string
+          notes: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          contact_name?: string
+          email?: string
+          phone?: string
+          address?: string
+          currency?: string
+          notes?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          contact_name?: string
+          email?: string
+          phone?: string
+          address?: string
+          currency?: string
+          notes?: string
           created_at?: string
           updated_at?: string
         }
@@ -38,29 +96,50 @@ export type Database = {
         Row: {
           id: string
           name: string
-          client: string
+          client_id: string
           description: string
           start_date: string
+          end_date: string | null
+          status: 'active' | 'on_hold' | 'completed' | 'archived'
+          hourly_rate: number
+          budget_hours: number | null
+          task_fields: TaskField[]
           created_at: string
           updated_at: string
+          deleted_at: string | null
+          deleted_by: string | null
         }
         Insert: {
           id?: string
           name: string
-          client: string
+          client_id: string
           description: string
           start_date: string
+          end_date?: string | null
+          status?: 'active' | 'on_hold' | 'completed' | 'archived'
+          hourly_rate?: number
+          budget_hours?: number | null
+          task_fields?: TaskField[]
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
         }
         Update: {
           id?: string
           name?: string
-          client?: string
+          client_id?: string
           description?: string
           start_date?: string
+          end_date?: string | null
+          status?: 'active' | 'on_hold' | 'completed' | 'archived'
+          hourly_rate?: number
+          budget_hours?: number | null
+          task_fields?: TaskField[]
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
         }
       }
       tasks: {
@@ -70,8 +149,12 @@ export type Database = {
           name: string
           description: string
           metadata: Record<string, any>
+          hourly_rate: number | null
+          budget_hours: number | null
           created_at: string
           updated_at: string
+          deleted_at: string | null
+          deleted_by: string | null
         }
         Insert: {
           id?: string
@@ -79,8 +162,12 @@ export type Database = {
           name: string
           description?: string
           metadata?: Record<string, any>
+          hourly_rate?: number | null
+          budget_hours?: number | null
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
         }
         Update: {
           id?: string
@@ -88,8 +175,12 @@ export type Database = {
           name?: string
           description?: string
           metadata?: Record<string, any>
+          hourly_rate?: number | null
+          budget_hours?: number | null
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
         }
       }
       time_entries: {
@@ -103,8 +194,14 @@ export type Database = {
           end_time: string
           hours: number
           description: string
+          billable: boolean
+          invoice_id: string | null
+          template_id: string | null
+          edited_by: string | null
           created_at: string
           updated_at: string
+          deleted_at: string | null
+          deleted_by: string | null
         }
         Insert: {
           id?: string
@@ -116,8 +213,14 @@ export type Database = {
           end_time: string
           hours: number
           description?: string
+          billable?: boolean
+          invoice_id?: string | null
+          template_id?: string | null
+          edited_by?: string | null
           created_at?: string
           updated_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
         }
         Update: {
           id?: string
@@ -129,10 +232,484 @@ export type Database = {
           end_time?: string
           hours?: number
           description?: string
+          billable?: boolean
+          invoice_id?: string | null
+          template_id?: string | null
+          edited_by?: string | null
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+      }
+      running_timers: {
+        Row: {
+          user_id: string
+          project_id: string
+          task_id: string | null
+          description: string
+          started_at: string
+        }
+        Insert: {
+          user_id: string
+          project_id: string
+          task_id?: string | null
+          description?: string
+          started_at?: string
+        }
+        Update: {
+          user_id?: string
+          project_id?: string
+          task_id?: string | null
+          description?: string
+          started_at?: string
+        }
+      }
+      timesheets: {
+        Row: {
+          id: string
+          user_id: string
+          week_start: string
+          status: 'draft' | 'submitted' | 'approved' | 'rejected'
+          submitted_at: string | null
+          reviewed_by: string | null
+          reviewed_at: string | null
+          review_comment: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          week_start: string
+          status?: 'draft' | 'submitted' | 'approved' | 'rejected'
+          submitted_at?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_comment?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          week_start?: string
+          status?: 'draft' | 'submitted' | 'approved' | 'rejected'
+          submitted_at?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_comment?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      calendar_rules: {
+        Row: {
+          id: string
+          user_id: string
+          keyword: string
+          project_id: string
+          task_id: string | null
+          billable: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          keyword: string
+          project_id: string
+          task_id?: string | null
+          billable?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          keyword?: string
+          project_id?: string
+          task_id?: string | null
+          billable?: boolean
+          created_at?: string
+        }
+      }
+      calendar_suggestions: {
+        Row: {
+          id: string
+          user_id: string
+          uid: string
+          date: string
+          start_time: string
+          end_time: string
+          summary: string
+          description: string
+          status: 'open' | 'accepted' | 'dismissed'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          uid: string
+          date: string
+          start_time: string
+          end_time: string
+          summary?: string
+          description?: string
+          status?: 'open' | 'accepted' | 'dismissed'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          uid?: string
+          date?: string
+          start_time?: string
+          end_time?: string
+          summary?: string
+          description?: string
+          status?: 'open' | 'accepted' | 'dismissed'
+          created_at?: string
+        }
+      }
+      absence_types: {
+        Row: {
+          id: string
+          name: string
+          color: string
+          paid: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          color?: string
+          paid?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          color?: string
+          paid?: boolean
+          created_at?: string
+        }
+      }
+      absences: {
+        Row: {
+          id: string
+          user_id: string
+          type_id: string
+          start_date: string
+          end_date: string
+          hours: number | null
+          note: string
+          status: 'pending' | 'approved' | 'rejected'
+          reviewed_by: string | null
+          reviewed_at: string | null
+          review_comment: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type_id: string
+          start_date: string
+          end_date: string
+          hours?: number | null
+          note?: string
+          status?: 'pending' | 'approved' | 'rejected'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_comment?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type_id?: string
+          start_date?: string
+          end_date?: string
+          hours?: number | null
+          note?: string
+          status?: 'pending' | 'approved' | 'rejected'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          review_comment?: string
           created_at?: string
           updated_at?: string
         }
       }
+      public_holidays: {
+        Row: {
+          id: string
+          date: string
+          name: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          date: string
+          name: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          date?: string
+          name?: string
+          created_at?: string
+        }
+      }
+      closed_periods: {
+        Row: {
+          id: string
+          start_date: string
+          end_date: string
+          closed_by: string | null
+          closed_at: string
+          reopened_by: string | null
+          reopened_at: string | null
+          reopen_reason: string | null
+        }
+        Insert: {
+          id?: string
+          start_date: string
+          end_date: string
+          closed_by?: string | null
+          closed_at?: string
+          reopened_by?: string | null
+          reopened_at?: string | null
+          reopen_reason?: string | null
+        }
+        Update: {
+          id?: string
+          start_date?: string
+          end_date?: string
+          closed_by?: string | null
+          closed_at?: string
+          reopened_by?: string | null
+          reopened_at?: string | null
+          reopen_reason?: string | null
+        }
+      }
+      project_user_rates: {
+        Row: {
+          project_id: string
+          user_id: string
+          hourly_rate: number
+          created_at: string
+        }
+        Insert: {
+          project_id: string
+          user_id: string
+          hourly_rate: number
+          created_at?: string
+        }
+        Update: {
+          project_id?: string
+          user_id?: string
+          hourly_rate?: number
+          created_at?: string
+        }
+      }
+      project_members: {
+        Row: {
+          project_id: string
+          user_id: string
+          role: 'member' | 'lead'
+          created_at: string
+        }
+        Insert: {
+          project_id: string
+          user_id: string
+          role?: 'member' | 'lead'
+          created_at?: string
+        }
+        Update: {
+          project_id?: string
+          user_id?: string
+          role?: 'member' | 'lead'
+          created_at?: string
+        }
+      }
+      entry_templates: {
+        Row: {
+          id: string
+          user_id: string
+          project_id: string
+          task_id: string | null
+          description: string
+          start_time: string
+          end_time: string
+          weekdays: number[]
+          billable: boolean
+          starts_on: string
+          active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          project_id: string
+          task_id?: string | null
+          description?: string
+          start_time: string
+          end_time: string
+          weekdays: number[]
+          billable?: boolean
+          starts_on?: string
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          project_id?: string
+          task_id?: string | null
+          description?: string
+          start_time?: string
+          end_time?: string
+          weekdays?: number[]
+          billable?: boolean
+          starts_on?: string
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      entry_template_skips: {
+        Row: {
+          template_id: string
+          date: string
+          created_at: string
+        }
+        Insert: {
+          template_id: string
+          date: string
+          created_at?: string
+        }
+        Update: {
+          template_id?: string
+          date?: string
+          created_at?: string
+        }
+      }
+      invoices: {
+        Row: {
+          id: string
+          number: string
+          client_id: string | null
+          client: string
+          currency: string
+          period_start: string
+          period_end: string
+          issue_date: string
+          notes: string
+          total: number
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          number?: string
+          client_id?: string | null
+          client: string
+          currency?: string
+          period_start: string
+          period_end: string
+          issue_date?: string
+          notes?: string
+          total?: number
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          number?: string
+          client_id?: string | null
+          client?: string
+          currency?: string
+          period_start?: string
+          period_end?: string
+          issue_date?: string
+          notes?: string
+          total?: number
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      invoice_lines: {
+        Row: {
+          id: string
+          invoice_id: string
+          project_id: string | null
+          task_id: string | null
+          description: string
+          hours: number
+          rate: number
+          amount: number
+        }
+        Insert: {
+          id?: string
+          invoice_id: string
+          project_id?: string | null
+          task_id?: string | null
+          description: string
+          hours: number
+          rate: number
+          amount: number
+        }
+        Update: {
+          id?: string
+          invoice_id?: string
+          project_id?: string | null
+          task_id?: string | null
+          description?: string
+          hours?: number
+          rate?: number
+          amount?: number
+        }
+      }
+      audit_log: {
+        Row: {
+          id: string
+          table_name: 'time_entries' | 'projects' | 'tasks'
+          record_id: string
+          action: 'insert' | 'update' | 'delete'
+          actor_id: string | null
+          actor_email: string | null
+          old_data: Record<string, unknown> | null
+          new_data: Record<string, unknown> | null
+          changed_fields: string[]
+          changed_at: string
+        }
+        Insert: {
+          id?: string
+          table_name: 'time_entries' | 'projects' | 'tasks'
+          record_id: string
+          action: 'insert' | 'update' | 'delete'
+          actor_id?: string | null
+          actor_email?: string | null
+          old_data?: Record<string, unknown> | null
+          new_data?: Record<string, unknown> | null
+          changed_fields?: string[]
+          changed_at?: string
+        }
+        Update: {
+          id?: string
+          table_name?: 'time_entries' | 'projects' | 'tasks'
+          record_id?: string
+          action?: 'insert' | 'update' | 'delete'
+          actor_id?: string | null
+          actor_email?: string | null
+          old_data?: Record<string, unknown> | null
+          new_data?: Record<string, unknown> | null
+          changed_fields?: string[]
+          changed_at?: string
+        }
+      }
       authorized_emails: {
         Row: {
           id: string
@@ -158,4 +735,10 @@ export type Database = {
       }
     }
   }
-}
\ No newline at end of file
+}
+
+type PublicTables = Database['public']['Tables']
+
+export type Tables<T extends keyof PublicTables> = PublicTables[T]['Row']
+export type TablesInsert<T extends keyof PublicTables> = PublicTables[T]['Insert']
+export type TablesUpdate<T extends keyof PublicTables> = PublicTables[T]['Update']
@@ -0,0 +1,86 @@
+import { format, isValid, parseISO } from 'date-fns'
+import type { Task, TaskField, TaskFieldType } from './api'
+
+export type TaskFieldValue = string | number
+
+export const TASK_FIELD_TYPES: { value: TaskFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'select', label: 'Select' },
+  { value: 'date', label: 'Date' },
+  { value: 'url', label: 'URL' }
+]
+
+// "Cost center" -> "cost_center"; keys stay stable when a field is renamed later
+export const taskFieldKey = (label: string, taken: string[]) => {
+  const base = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'field'
+  let key = base
+  for (let suffix = 2; taken.includes(key); suffix++) {
+    key = `${base}_${suffix}`
+  }
+  return key
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === ''
+
+const isUrl = (value: string) => {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+export const validateTaskField = (field: TaskField, value: unknown): string | null => {
+  if (isEmpty(value)) {
+    return field.required ? `${field.label} is required` : null
+  }
+
+  switch (field.type) {
+    case 'number':
+      return Number.isFinite(Number(value)) ? null : `${field.label} must be a number`
+    case 'select':
+      return field.options?.includes(String(value)) ? null : `${field.label} must be one of the listed options`
+    case 'date':
+      return isValid(parseISO(String(value))) ? null : `${field.label} must be a date`
+    case 'url':
+      return isUrl(String(value)) ? null : `${field.label} must be a web address starting with http:// or https://`
+    default:
+      return null
+  }
+}
+
+// Turns form input into what is stored in tasks.metadata; empty values are dropped
+export const parseTaskFieldValue = (field: TaskField, value: string): TaskFieldValue | undefined => {
+  if (value.trim() === '') return undefined
+  return field.type === 'number' ? Number(value) : value.trim()
+}
+
+export const formatTaskFieldValue = (field: TaskField, value: unknown) => {
+  if (isEmpty(value)) return ''
+  if (field.type === 'date') {
+    const date = parseISO(String(value))
+    return isValid(date) ? format(date, 'MMM d, yyyy') : String(value)
+  }
+  return String(value)
+}
+
+export interface TaskFieldFilter {
+  key: string
+  value: string
+}
+
+// Select fields match exactly, everything else matches on the formatted text
+export const matchesTaskFieldFilter = (task: Task, fields: TaskField[], filter: TaskFieldFilter | undefined) => {
+  if (!filter || !filter.key || filter.value === '') return true
+
+  const field = fields.find(f => f.key === filter.key)
+  if (!field) return true
+
+  const value = task.metadata?.[field.key]
+  if (field.type === 'select' || field.type === 'date') {
+    return String(value ?? '') === filter.value
+  }
+  return String(value ?? '').toLowerCase().includes(filter.value.toLowerCase())
+}
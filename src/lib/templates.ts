@@ -0,0 +1,130 @@
+import { addDays, format, getISODay, parseISO } from 'date-fns'
+import type { CalendarRule, CalendarSuggestion, EntryTemplate, EntryTemplateSkip, Project, TimeEntryWithRelations } from './api'
+import type { TablesInsert } from './supabase'
+import { dayLockLabel } from './periods'
+import type { DayLock } from './periods'
+import { projectDateError } from './projects'
+import { calculateHours, entriesOverlap } from './time'
+import { matchKeywordRule } from './ical'
+
+export const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' }
+]
+
+export const weekdaysLabel = (weekdays: number[]) => {
+  const sorted = [...weekdays].sort()
+  if (sorted.join() === '1,2,3,4,5') return 'Every weekday'
+  if (sorted.length === 7) return 'Every day'
+  return sorted.map(day => WEEKDAYS.find(option => option.value === day)?.label).join(', ')
+}
+
+export interface TemplateDraft {
+  key: string
+  template: EntryTemplate
+  date: string
+}
+
+// Suggestions a template makes for the given days. A day gets no draft before the template
+// starts, once an entry from the template exists there, or after the draft was dismissed.
+export const buildTemplateDrafts = (
+  templates: EntryTemplate[],
+  skips: EntryTemplateSkip[],
+  entries: TimeEntryWithRelations[],
+  projects: Project[],
+  days: string[]
+): TemplateDraft[] =>
+  templates
+    .filter(template => template.active)
+    .flatMap(template =>
+      days
+        .filter(date =>
+          date >= template.starts_on &&
+          template.weekdays.includes(getISODay(parseISO(date))) &&
+          !entries.some(entry => entry.template_id === template.id && entry.date === date) &&
+          !skips.some(skip => skip.template_id === template.id && skip.date === date) &&
+          !projectDateError(projects.find(project => project.id === template.project_id), date)
+        )
+        .map(date => ({ key: `${template.id}|${date}`, template, date }))
+    )
+
+export const draftToEntry = (draft: TemplateDraft, userId: string): TablesInsert<'time_entries'> => ({
+  user_id: userId,
+  project_id: draft.template.project_id,
+  task_id: draft.template.task_id,
+  date: draft.date,
+  start_time: draft.template.start_time,
+  end_time: draft.template.end_time,
+  hours: calculateHours(draft.template.start_time, draft.template.end_time),
+  description: draft.template.description,
+  billable: draft.template.billable,
+  template_id: draft.template.id
+})
+
+export interface SuggestionDraft {
+  suggestion: CalendarSuggestion
+  rule: CalendarRule | null
+}
+
+export const buildSuggestionDrafts = (suggestions: CalendarSuggestion[], rules: CalendarRule[]): SuggestionDraft[] =>
+  suggestions.map(suggestion => ({ suggestion, rule: matchKeywordRule(suggestion, rules) }))
+
+// Only drafts matched by a keyword rule know their project
+export const suggestionToEntry = ({ suggestion, rule }: SuggestionDraft, userId: string): TablesInsert<'time_entries'> | null =>
+  rule && {
+    user_id: userId,
+    project_id: rule.project_id,
+    task_id: rule.task_id,
+    date: suggestion.date,
+    start_time: suggestion.start_time,
+    end_time: suggestion.end_time,
+    hours: calculateHours(suggestion.start_time, suggestion.end_time),
+    description: suggestion.summary,
+    billable: rule.billable
+  }
+
+export interface CopyRow {
+  key: string
+  source: TimeEntryWithRelations
+  entry: TablesInsert<'time_entries'>
+  problem: string | null
+}
+
+// Moves last week's entries seven days ahead and flags the ones that cannot be copied as they are
+export const buildWeekCopy = (
+  sourceEntries: TimeEntryWithRelations[],
+  targetEntries: TimeEntryWithRelations[],
+  projects: Project[],
+  dayLock: (date: string) => DayLock | null
+): CopyRow[] =>
+  sourceEntries
+    .slice()
+    .sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time))
+    .map(source => {
+      const date = format(addDays(parseISO(source.date), 7), 'yyyy-MM-dd')
+      const entry: TablesInsert<'time_entries'> = {
+        user_id: source.user_id,
+        project_id: source.project_id,
+        task_id: source.task_id,
+        date,
+        start_time: source.start_time,
+        end_time: source.end_time,
+        hours: source.hours,
+        description: source.description,
+        billable: source.billable
+      }
+      const overlapping = targetEntries.find(other => entriesOverlap(other, { date, start_time: source.start_time, end_time: source.end_time }))
+
+      const lock = dayLock(date)
+      const problem = lock
+        ? dayLockLabel(lock)
+        : projectDateError(projects.find(project => project.id === source.project_id), date) ||
+          (overlapping ? `Overlaps ${overlapping.project?.name || 'another entry'}` : null)
+
+      return { key: source.id, source, entry, problem }
+    })
@@ -0,0 +1,76 @@
+import { addDays, subDays, format, parse, parseISO, isValid, startOfISOWeek } from 'date-fns'
+
+interface TimeRange {
+  date: string
+  start_time: string
+  end_time: string
+}
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// An end time earlier than the start time means the entry runs past midnight
+export const crossesMidnight = (startTime: string, endTime: string): boolean =>
+  timeToMinutes(endTime) < timeToMinutes(startTime)
+
+export const calculateHours = (startTime: string, endTime: string): number => {
+  let minutes = timeToMinutes(endTime) - timeToMinutes(startTime)
+  if (minutes < 0) minutes += 24 * 60
+  return minutes / 60
+}
+
+export const nextDate = (date: string): string => format(addDays(parseISO(date), 1), 'yyyy-MM-dd')
+
+export const previousDate = (date: string): string => format(subDays(parseISO(date), 1), 'yyyy-MM-dd')
+
+const dayNumber = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number)
+  return Date.UTC(year, month - 1, day) / (24 * 60 * 60 * 1000)
+}
+
+const toInterval = (entry: TimeRange) => {
+  const start = dayNumber(entry.date) * 24 * 60 + timeToMinutes(entry.start_time)
+  return { start, end: start + calculateHours(entry.start_time, entry.end_time) * 60 }
+}
+
+export const entriesOverlap = (a: TimeRange, b: TimeRange): boolean => {
+  const first = toInterval(a)
+  const second = toInterval(b)
+  return first.start < second.end && second.start < first.end
+}
+
+// Hours of an entry that fall on the given date, splitting entries that cross midnight
+export const hoursOnDate = (entry: TimeRange, date: string): number => {
+  const overnight = crossesMidnight(entry.start_time, entry.end_time)
+
+  if (entry.date === date) {
+    return overnight
+      ? (24 * 60 - timeToMinutes(entry.start_time)) / 60
+      : calculateHours(entry.start_time, entry.end_time)
+  }
+
+  if (overnight && nextDate(entry.date) === date) {
+    return timeToMinutes(entry.end_time) / 60
+  }
+
+  return 0
+}
+
+export const formatDuration = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  return [hours, minutes, seconds].map(value => value.toString().padStart(2, '0')).join(':')
+}
+
+// ISO week labels such as 2026-W40, used in links to a week
+export const formatIsoWeek = (date: Date): string => format(date, "RRRR-'W'II")
+
+export const parseIsoWeek = (value: string | undefined): Date | null => {
+  if (!value || !/^\d{4}-W\d{2}$/.test(value)) return null
+  const date = parse(value, "RRRR-'W'II", new Date())
+  return isValid(date) ? startOfISOWeek(date) : null
+}
@@ -0,0 +1,121 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isValid,
+  isWithinInterval,
+  parse,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays
+} from 'date-fns'
+import { formatIsoWeek, parseIsoWeek } from './time'
+
+export type TimeViewMode = 'day' | 'week' | 'month' | 'range'
+
+export interface TimeView {
+  mode: TimeViewMode
+  start: Date
+  end: Date
+}
+
+export const TIME_VIEW_MODES: { value: TimeViewMode; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'range', label: 'Range' }
+]
+
+const parseDate = (value: string | undefined) => {
+  if (!value) return null
+  const date = parseISO(value)
+  return isValid(date) ? startOfDay(date) : null
+}
+
+const parseMonth = (value: string | undefined) => {
+  if (!value || !/^\d{4}-\d{2}$/.test(value)) return null
+  const date = parse(value, 'yyyy-MM', new Date())
+  return isValid(date) ? date : null
+}
+
+// Reads the visible period from the URL query; the week view is the default
+export const resolveTimeView = (query: Record<string, string>, today = new Date()): TimeView => {
+  const mode = TIME_VIEW_MODES.some(option => option.value === query.view) ? (query.view as TimeViewMode) : 'week'
+
+  switch (mode) {
+    case 'day': {
+      const day = parseDate(query.date) || startOfDay(today)
+      return { mode, start: day, end: day }
+    }
+    case 'month': {
+      const month = parseMonth(query.month) || today
+      return { mode, start: startOfMonth(month), end: startOfDay(endOfMonth(month)) }
+    }
+    case 'range': {
+      const from = parseDate(query.from) || startOfMonth(today)
+      const to = parseDate(query.to) || startOfDay(today)
+      return from <= to ? { mode, start: from, end: to } : { mode, start: to, end: from }
+    }
+    default: {
+      const week = parseIsoWeek(query.week) || today
+      return {
+        mode,
+        start: startOfWeek(week, { weekStartsOn: 1 }),
+        end: startOfDay(endOfWeek(week, { weekStartsOn: 1 }))
+      }
+    }
+  }
+}
+
+// Query values that show `date` in the given mode; values of other modes are cleared
+export const timeViewQuery = (mode: TimeViewMode, date: Date, rangeEnd?: Date): Record<string, string | undefined> => ({
+  view: mode === 'week' ? undefined : mode,
+  week: mode === 'week' ? formatIsoWeek(date) : undefined,
+  date: mode === 'day' ? format(date, 'yyyy-MM-dd') : undefined,
+  month: mode === 'month' ? format(date, 'yyyy-MM') : undefined,
+  from: mode === 'range' ? format(date, 'yyyy-MM-dd') : undefined,
+  to: mode === 'range' ? format(rangeEnd || date, 'yyyy-MM-dd') : undefined
+})
+
+// Switching modes keeps today in view when it is visible, otherwise the start of the period
+export const switchTimeView = (view: TimeView, mode: TimeViewMode, today = new Date()) => {
+  if (mode === 'range') return timeViewQuery(mode, view.start, view.end)
+
+  const anchor = isWithinInterval(startOfDay(today), { start: view.start, end: view.end }) ? today : view.start
+  return timeViewQuery(mode, anchor)
+}
+
+export const shiftTimeView = (view: TimeView, direction: 1 | -1) => {
+  switch (view.mode) {
+    case 'day':
+      return timeViewQuery('day', addDays(view.start, direction))
+    case 'month':
+      return timeViewQuery('month', addMonths(view.start, direction))
+    case 'range': {
+      const length = Math.round((view.end.getTime() - view.start.getTime()) / 86400000) + 1
+      return timeViewQuery(
+        'range',
+        direction === 1 ? addDays(view.end, 1) : subDays(view.start, length),
+        direction === 1 ? addDays(view.end, length) : subDays(view.start, 1)
+      )
+    }
+    default:
+      return timeViewQuery('week', addWeeks(view.start, direction))
+  }
+}
+
+export const timeViewLabel = (view: TimeView) => {
+  switch (view.mode) {
+    case 'day':
+      return format(view.start, 'EEEE, MMM d, yyyy')
+    case 'month':
+      return format(view.start, 'MMMM yyyy')
+    default:
+      return `${format(view.start, 'MMM d')} - ${format(view.end, 'MMM d, yyyy')}`
+  }
+}
@@ -0,0 +1,64 @@
+import { eachDayOfInterval, format, getISODay, parseISO } from 'date-fns'
+import type { Absence, AppUser, DailyHours, PublicHoliday } from './api'
+
+export type WorkSchedule = Pick<AppUser, 'id' | 'contracted_hours' | 'flex_start' | 'flex_opening_hours'>
+
+// Approved absences and public holidays, which lower the hours expected on the days they cover
+export interface DaysOff {
+  absences: Absence[]
+  holidays: PublicHoliday[]
+}
+
+const NO_DAYS_OFF: DaysOff = { absences: [], holidays: [] }
+
+export const weeklyContractedHours = (contractedHours: number[]) =>
+  contractedHours.reduce((total, hours) => total + Number(hours), 0)
+
+export const absencesOn = <T extends Absence>(absences: T[], userId: string, date: string) =>
+  absences.filter(absence => absence.user_id === userId && absence.start_date <= date && absence.end_date >= date)
+
+export const contractedHoursOn = (schedule: WorkSchedule, date: string) =>
+  date < schedule.flex_start ? 0 : Number(schedule.contracted_hours[getISODay(parseISO(date)) - 1] || 0)
+
+// Nothing is expected before the flex balance starts, on public holidays, or while on approved leave
+export const targetHours = (schedule: WorkSchedule, date: string, daysOff: DaysOff = NO_DAYS_OFF) => {
+  const contracted = contractedHoursOn(schedule, date)
+  if (contracted === 0 || daysOff.holidays.some(holiday => holiday.date === date)) return 0
+
+  const hoursOff = absencesOn(daysOff.absences, schedule.id, date)
+    .filter(absence => absence.status === 'approved')
+    .reduce((total, absence) => total + (absence.hours === null ? contracted : Number(absence.hours)), 0)
+
+  return Math.max(contracted - hoursOff, 0)
+}
+
+export const workedHours = (schedule: WorkSchedule, dailyHours: DailyHours[], from: string, to: string) =>
+  dailyHours
+    .filter(row => row.user_id === schedule.id && row.date >= from && row.date <= to)
+    .reduce((total, row) => total + row.hours, 0)
+
+export const expectedHours = (schedule: WorkSchedule, from: string, to: string, daysOff: DaysOff = NO_DAYS_OFF) =>
+  from > to
+    ? 0
+    : eachDayOfInterval({ start: parseISO(from), end: parseISO(to) })
+        .reduce((total, day) => total + targetHours(schedule, format(day, 'yyyy-MM-dd'), daysOff), 0)
+
+// Opening balance plus the hours worked over or under target on every day from the flex start up to `until`
+export const flexBalance = (
+  schedule: WorkSchedule,
+  dailyHours: DailyHours[],
+  until: string,
+  daysOff: DaysOff = NO_DAYS_OFF
+) => {
+  const opening = Number(schedule.flex_opening_hours)
+  if (until < schedule.flex_start) return opening
+
+  return opening +
+    workedHours(schedule, dailyHours, schedule.flex_start, until) -
+    expectedHours(schedule, schedule.flex_start, until, daysOff)
+}
+
+export const formatHoursDiff = (hours: number) => {
+  const rounded = Math.round(hours * 10) / 10
+  return `${rounded > 0 ? '+' : rounded < 0 ? '-' : ''}${Math.abs(rounded).toFixed(1)}h`
+}
@@ -0,0 +1,32 @@
+/*
+  # Running timers
+
+  1. New Tables
+    - `running_timers`
+      - `user_id` (uuid, primary key, references users) - one running timer per user
+      - `project_id` (uuid, references projects)
+      - `task_id` (uuid, nullable, references tasks)
+      - `description` (text)
+      - `started_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `running_timers`
+    - Users can only read and manage their own timer
+*/
+
+CREATE TABLE IF NOT EXISTS running_timers (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  task_id uuid REFERENCES tasks(id) ON DELETE SET NULL,
+  description text NOT NULL DEFAULT '',
+  started_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE running_timers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own timer"
+  ON running_timers
+  FOR ALL
+  TO authenticated
+  USING (user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email'))
+  WITH CHECK (user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email'));
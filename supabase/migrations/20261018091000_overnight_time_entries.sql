@@ -0,0 +1,12 @@
+/*
+  # Overnight time entries
+
+  Entries whose end time is earlier than their start time run past midnight.
+  They used to be saved with negative hours; recompute those rows so totals
+  are correct.
+*/
+
+UPDATE time_entries
+SET hours = hours + 24,
+    updated_at = now()
+WHERE hours < 0;
@@ -0,0 +1,155 @@
+/*
+  # Weekly timesheet approval
+
+  1. New Tables
+    - `timesheets`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `week_start` (date) - Monday of the week
+      - `status` (text) - draft, submitted, approved or rejected
+      - `submitted_at` (timestamptz)
+      - `reviewed_by` (uuid, references users)
+      - `reviewed_at` (timestamptz)
+      - `review_comment` (text)
+
+  2. Security
+    - Enable RLS on `timesheets`
+    - Users can read and submit their own timesheets
+    - Supervisors and managers can read every timesheet and approve or reject
+      submitted ones, except their own; a review only sets the status,
+      comment and reviewer
+
+  3. Integrity
+    - Time entries inside an approved week cannot be inserted, changed or deleted
+*/
+
+CREATE TABLE IF NOT EXISTS timesheets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  week_start date NOT NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+  submitted_at timestamptz,
+  reviewed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  review_comment text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, week_start)
+);
+
+ALTER TABLE timesheets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own timesheets"
+  ON timesheets
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email')
+    OR EXISTS (
+      SELECT 1 FROM users
+      WHERE email = auth.jwt() ->> 'email' AND role IN ('supervisor', 'manager')
+    )
+  );
+
+CREATE POLICY "Users can submit their own timesheets"
+  ON timesheets
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email')
+    AND status = 'submitted'
+  );
+
+CREATE POLICY "Users can resubmit their own open timesheets"
+  ON timesheets
+  FOR UPDATE
+  TO authenticated
+  USING (
+    user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email')
+    AND status IN ('draft', 'rejected')
+  )
+  WITH CHECK (
+    user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email')
+    AND status = 'submitted'
+  );
+
+CREATE POLICY "Supervisors and managers can review timesheets"
+  ON timesheets
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE email = auth.jwt() ->> 'email' AND role IN ('supervisor', 'manager')
+    )
+    AND user_id NOT IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email')
+    AND status = 'submitted'
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE email = auth.jwt() ->> 'email' AND role IN ('supervisor', 'manager')
+    )
+    AND user_id NOT IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email')
+    AND status IN ('approved', 'rejected')
+  );
+
+-- A review only records the outcome; the submission itself stays as it was
+CREATE OR REPLACE FUNCTION check_timesheet_review()
+RETURNS trigger AS $$
+DECLARE
+  caller uuid := (SELECT id FROM users WHERE email = auth.jwt() ->> 'email');
+BEGIN
+  IF caller IS NOT NULL AND OLD.user_id <> caller AND (
+    NEW.user_id <> OLD.user_id
+    OR NEW.week_start <> OLD.week_start
+    OR NEW.submitted_at IS DISTINCT FROM OLD.submitted_at
+    OR NEW.created_at <> OLD.created_at
+    OR NEW.reviewed_by IS DISTINCT FROM caller
+  ) THEN
+    RAISE EXCEPTION 'A review can only set the status, comment and reviewer';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER timesheets_review_columns
+  BEFORE UPDATE ON timesheets
+  FOR EACH ROW EXECUTE FUNCTION check_timesheet_review();
+
+CREATE OR REPLACE FUNCTION prevent_approved_week_changes()
+RETURNS trigger AS $$
+DECLARE
+  target time_entries;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target := OLD;
+  ELSE
+    target := NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM timesheets
+    WHERE user_id = target.user_id
+      AND week_start = date_trunc('week', target.date)::date
+      AND status = 'approved'
+  ) OR (TG_OP = 'UPDATE' AND EXISTS (
+    SELECT 1 FROM timesheets
+    WHERE user_id = OLD.user_id
+      AND week_start = date_trunc('week', OLD.date)::date
+      AND status = 'approved'
+  )) THEN
+    RAISE EXCEPTION 'Time entries in an approved week cannot be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER time_entries_approved_week_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON time_entries
+  FOR EACH ROW EXECUTE FUNCTION prevent_approved_week_changes();
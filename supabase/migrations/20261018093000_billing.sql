@@ -0,0 +1,223 @@
+/*
+  # Billing rates and invoices
+
+  1. Changed Tables
+    - `projects`
+      - `hourly_rate` (numeric) - default rate for time on the project
+    - `tasks`
+      - `hourly_rate` (numeric, nullable) - overrides the project rate
+    - `time_entries`
+      - `billable` (boolean) - only billable entries are invoiced
+      - `invoice_id` (uuid, nullable, references invoices) - set once the entry is invoiced
+
+  2. New Tables
+    - `project_user_rates`
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references users)
+      - `hourly_rate` (numeric) - overrides task and project rates for this person
+    - `invoices`
+      - `id` (uuid, primary key)
+      - `number` (text, unique) - INV-<year>-<sequence>, assigned on insert
+      - `client` (text)
+      - `period_start`, `period_end` (date)
+      - `issue_date` (date)
+      - `notes` (text)
+      - `total` (numeric)
+      - `created_by` (uuid, references users)
+    - `invoice_lines`
+      - `invoice_id` (uuid, references invoices)
+      - `project_id`, `task_id` (uuid)
+      - `description` (text)
+      - `hours`, `rate`, `amount` (numeric)
+
+  3. Security
+    - Enable RLS on the new tables
+    - Only managers can read and change per-person rates
+    - Only managers can read and create invoices
+
+  4. Functions
+    - `create_invoice` saves an invoice with its lines and flags the invoiced
+      entries in one transaction, failing if any entry was already invoiced
+    - The approved week lock now lets entries be flagged as invoiced
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS hourly_rate numeric(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS hourly_rate numeric(10,2);
+ALTER TABLE time_entries ADD COLUMN IF NOT EXISTS billable boolean NOT NULL DEFAULT true;
+
+CREATE TABLE IF NOT EXISTS project_user_rates (
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  hourly_rate numeric(10,2) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (project_id, user_id)
+);
+
+CREATE SEQUENCE IF NOT EXISTS invoice_number_seq;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  number text NOT NULL UNIQUE DEFAULT 'INV-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('invoice_number_seq')::text, 4, '0'),
+  client text NOT NULL,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  issue_date date NOT NULL DEFAULT current_date,
+  notes text NOT NULL DEFAULT '',
+  total numeric(12,2) NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  project_id uuid REFERENCES projects(id) ON DELETE SET NULL,
+  task_id uuid REFERENCES tasks(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  hours numeric(10,2) NOT NULL,
+  rate numeric(10,2) NOT NULL,
+  amount numeric(12,2) NOT NULL
+);
+
+ALTER TABLE time_entries ADD COLUMN IF NOT EXISTS invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS time_entries_invoice_id_idx ON time_entries (invoice_id);
+
+ALTER TABLE project_user_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage rates"
+  ON project_user_rates
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE email = auth.jwt() ->> 'email' AND role = 'manager'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE email = auth.jwt() ->> 'email' AND role = 'manager'));
+
+CREATE POLICY "Managers can read invoices"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE email = auth.jwt() ->> 'email' AND role = 'manager'));
+
+CREATE POLICY "Managers can read invoice lines"
+  ON invoice_lines
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE email = auth.jwt() ->> 'email' AND role = 'manager'));
+
+CREATE OR REPLACE FUNCTION create_invoice(
+  p_client text,
+  p_period_start date,
+  p_period_end date,
+  p_notes text,
+  p_lines jsonb,
+  p_entry_ids uuid[]
+)
+RETURNS uuid AS $$
+DECLARE
+  creator uuid;
+  new_invoice_id uuid;
+  flagged integer;
+BEGIN
+  SELECT id INTO creator FROM users
+  WHERE email = auth.jwt() ->> 'email' AND role = 'manager';
+
+  IF creator IS NULL THEN
+    RAISE EXCEPTION 'Only managers can create invoices';
+  END IF;
+
+  INSERT INTO invoices (client, period_start, period_end, notes, total, created_by)
+  VALUES (
+    p_client,
+    p_period_start,
+    p_period_end,
+    coalesce(p_notes, ''),
+    (SELECT coalesce(sum((line ->> 'amount')::numeric), 0) FROM jsonb_array_elements(p_lines) AS line),
+    creator
+  )
+  RETURNING id INTO new_invoice_id;
+
+  INSERT INTO invoice_lines (invoice_id, project_id, task_id, description, hours, rate, amount)
+  SELECT
+    new_invoice_id,
+    (line ->> 'project_id')::uuid,
+    nullif(line ->> 'task_id', '')::uuid,
+    line ->> 'description',
+    (line ->> 'hours')::numeric,
+    (line ->> 'rate')::numeric,
+    (line ->> 'amount')::numeric
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  UPDATE time_entries
+  SET invoice_id = new_invoice_id
+  WHERE id = ANY (p_entry_ids)
+    AND invoice_id IS NULL
+    AND billable;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  IF flagged <> coalesce(array_length(p_entry_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Some time entries were already invoiced or are not billable';
+  END IF;
+
+  RETURN new_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION prevent_approved_week_changes()
+RETURNS trigger AS $$
+DECLARE
+  target time_entries;
+BEGIN
+  -- Flagging an entry as invoiced is not a change to the logged time
+  IF TG_OP = 'UPDATE'
+    AND (to_jsonb(NEW) - 'invoice_id') = (to_jsonb(OLD) - 'invoice_id') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    target := OLD;
+  ELSE
+    target := NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM timesheets
+    WHERE user_id = target.user_id
+      AND week_start = date_trunc('week', target.date)::date
+      AND status = 'approved'
+  ) OR (TG_OP = 'UPDATE' AND EXISTS (
+    SELECT 1 FROM timesheets
+    WHERE user_id = OLD.user_id
+      AND week_start = date_trunc('week', OLD.date)::date
+      AND status = 'approved'
+  )) THEN
+    RAISE EXCEPTION 'Time entries in an approved week cannot be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION prevent_invoiced_entry_changes()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.invoice_id IS NOT NULL AND (
+    TG_OP = 'DELETE'
+    OR (to_jsonb(NEW) - 'invoice_id') <> (to_jsonb(OLD) - 'invoice_id')
+  ) THEN
+    RAISE EXCEPTION 'Invoiced time entries cannot be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER time_entries_invoiced_lock
+  BEFORE UPDATE OR DELETE ON time_entries
+  FOR EACH ROW EXECUTE FUNCTION prevent_invoiced_entry_changes();
@@ -0,0 +1,226 @@
+/*
+  # Clients
+
+  1. New Tables
+    - `clients`
+      - `id` (uuid, primary key)
+      - `name` (text) - unique regardless of case
+      - `contact_name`, `email`, `phone`, `address` (text)
+      - `currency` (text) - ISO 4217 code used when billing the client
+      - `notes` (text)
+
+  2. Changed Tables
+    - `projects`
+      - `client_id` (uuid, references clients) replaces the free-text `client`
+    - `invoices`
+      - `client_id` (uuid, references clients)
+      - `currency` (text) - copied from the client when the invoice is created
+      - `client` is kept as the client name printed on the invoice
+
+  3. Data
+    - Existing `projects.client` strings become clients. Spellings that only
+      differ in case, punctuation or a legal suffix ("Acme", "ACME Inc",
+      "acme") are merged into one client named after the most used spelling.
+
+  4. Security
+    - Enable RLS on `clients`
+    - Authenticated users can read clients; supervisors and managers add,
+      change and delete them
+
+  5. Functions
+    - `get_project_hours` returns the hours logged on each of the given
+      projects. It runs with the caller's rights, so it adds up the same
+      time entries they can read
+*/
+
+CREATE TABLE IF NOT EXISTS clients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  contact_name text NOT NULL DEFAULT '',
+  email text NOT NULL DEFAULT '',
+  phone text NOT NULL DEFAULT '',
+  address text NOT NULL DEFAULT '',
+  currency text NOT NULL DEFAULT 'EUR',
+  notes text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS clients_name_key ON clients (lower(name));
+
+ALTER TABLE clients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read clients"
+  ON clients
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Supervisors and managers can add clients"
+  ON clients
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE email = auth.jwt() ->> 'email' AND role IN ('supervisor', 'manager')
+    )
+  );
+
+CREATE POLICY "Supervisors and managers can update clients"
+  ON clients
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE email = auth.jwt() ->> 'email' AND role IN ('supervisor', 'manager')
+    )
+  );
+
+CREATE POLICY "Supervisors and managers can delete clients"
+  ON clients
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE email = auth.jwt() ->> 'email' AND role IN ('supervisor', 'manager')
+    )
+  );
+
+-- Used only to group the old free-text values
+CREATE OR REPLACE FUNCTION pg_temp.client_merge_key(raw text)
+RETURNS text AS $$
+  SELECT regexp_replace(
+    regexp_replace(lower(trim(raw)), '[^a-z0-9 ]+', ' ', 'g'),
+    '\s+(inc|incorporated|ltd|limited|llc|gmbh|ag|corp|corporation|co|company|plc|sa|bv)\s*$',
+    ''
+  )
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS client_id uuid REFERENCES clients(id) ON DELETE RESTRICT;
+
+WITH spellings AS (
+  SELECT
+    replace(pg_temp.client_merge_key(client), ' ', '') AS merge_key,
+    trim(client) AS name,
+    count(*) AS uses
+  FROM projects
+  WHERE trim(coalesce(client, '')) <> ''
+  GROUP BY 1, 2
+),
+preferred AS (
+  SELECT DISTINCT ON (merge_key) merge_key, name
+  FROM spellings
+  ORDER BY merge_key, uses DESC, length(name) DESC, name
+)
+INSERT INTO clients (name)
+SELECT name FROM preferred
+ON CONFLICT DO NOTHING;
+
+UPDATE projects p
+SET client_id = c.id
+FROM clients c
+WHERE replace(pg_temp.client_merge_key(c.name), ' ', '') = replace(pg_temp.client_merge_key(p.client), ' ', '');
+
+-- Projects that never had a client name get a placeholder so client_id can be required
+INSERT INTO clients (name)
+SELECT 'No client'
+WHERE EXISTS (SELECT 1 FROM projects WHERE client_id IS NULL)
+ON CONFLICT DO NOTHING;
+
+UPDATE projects
+SET client_id = (SELECT id FROM clients WHERE lower(name) = 'no client')
+WHERE client_id IS NULL;
+
+ALTER TABLE projects ALTER COLUMN client_id SET NOT NULL;
+ALTER TABLE projects DROP COLUMN IF EXISTS client;
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS client_id uuid REFERENCES clients(id) ON DELETE SET NULL;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'EUR';
+
+UPDATE invoices i
+SET client_id = c.id
+FROM clients c
+WHERE replace(pg_temp.client_merge_key(c.name), ' ', '') = replace(pg_temp.client_merge_key(i.client), ' ', '');
+
+DROP FUNCTION IF EXISTS create_invoice(text, date, date, text, jsonb, uuid[]);
+
+CREATE OR REPLACE FUNCTION create_invoice(
+  p_client_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_notes text,
+  p_lines jsonb,
+  p_entry_ids uuid[]
+)
+RETURNS uuid AS $$
+DECLARE
+  creator uuid;
+  billed_client clients;
+  new_invoice_id uuid;
+  flagged integer;
+BEGIN
+  SELECT id INTO creator FROM users
+  WHERE email = auth.jwt() ->> 'email' AND role = 'manager';
+
+  IF creator IS NULL THEN
+    RAISE EXCEPTION 'Only managers can create invoices';
+  END IF;
+
+  SELECT * INTO billed_client FROM clients WHERE id = p_client_id;
+  IF billed_client.id IS NULL THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  INSERT INTO invoices (client_id, client, currency, period_start, period_end, notes, total, created_by)
+  VALUES (
+    billed_client.id,
+    billed_client.name,
+    billed_client.currency,
+    p_period_start,
+    p_period_end,
+    coalesce(p_notes, ''),
+    (SELECT coalesce(sum((line ->> 'amount')::numeric), 0) FROM jsonb_array_elements(p_lines) AS line),
+    creator
+  )
+  RETURNING id INTO new_invoice_id;
+
+  INSERT INTO invoice_lines (invoice_id, project_id, task_id, description, hours, rate, amount)
+  SELECT
+    new_invoice_id,
+    (line ->> 'project_id')::uuid,
+    nullif(line ->> 'task_id', '')::uuid,
+    line ->> 'description',
+    (line ->> 'hours')::numeric,
+    (line ->> 'rate')::numeric,
+    (line ->> 'amount')::numeric
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  UPDATE time_entries
+  SET invoice_id = new_invoice_id
+  WHERE id = ANY (p_entry_ids)
+    AND invoice_id IS NULL
+    AND billable
+    AND project_id IN (SELECT id FROM projects WHERE client_id = p_client_id);
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  IF flagged <> coalesce(array_length(p_entry_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Some time entries were already invoiced, are not billable or belong to another client';
+  END IF;
+
+  RETURN new_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Adds up on the server, so totals are not cut short by the API's row limit
+CREATE OR REPLACE FUNCTION get_project_hours(p_project_ids uuid[])
+RETURNS TABLE (project_id uuid, hours numeric) AS $$
+  SELECT te.project_id, sum(te.hours)
+  FROM time_entries te
+  WHERE te.project_id = ANY (p_project_ids)
+  GROUP BY te.project_id
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_project_hours(uuid[]) TO authenticated;
@@ -0,0 +1,29 @@
+/*
+  # Project and task hour budgets
+
+  1. Changed Tables
+    - `projects`
+      - `budget_hours` (numeric, nullable) - hours available for the whole project
+    - `tasks`
+      - `budget_hours` (numeric, nullable) - hours available for the task
+
+  2. Functions
+    - `get_budget_usage` returns hours logged per project, task and day so
+      budgets can be tracked by everyone, including people who can only read
+      their own time entries
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS budget_hours numeric(10,2) CHECK (budget_hours > 0);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS budget_hours numeric(10,2) CHECK (budget_hours > 0);
+
+CREATE OR REPLACE FUNCTION get_budget_usage()
+RETURNS TABLE (project_id uuid, task_id uuid, date date, hours numeric) AS $$
+  SELECT te.project_id, te.task_id, te.date, sum(te.hours)
+  FROM time_entries te
+  JOIN projects p ON p.id = te.project_id
+  LEFT JOIN tasks t ON t.id = te.task_id
+  WHERE p.budget_hours IS NOT NULL OR t.budget_hours IS NOT NULL
+  GROUP BY te.project_id, te.task_id, te.date
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_budget_usage() TO authenticated;
@@ -0,0 +1,48 @@
+/*
+  # Project lifecycle
+
+  1. Changed Tables
+    - `projects`
+      - `status` (text) - active, on_hold, completed or archived
+      - `end_date` (date, nullable) - last day time can be logged
+
+  2. Rules
+    - Time entries can only be logged between a project's start and end date
+    - No new time can be logged to archived projects; their existing entries
+      stay untouched so reports and history keep working
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'active'
+  CHECK (status IN ('active', 'on_hold', 'completed', 'archived'));
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS end_date date;
+
+ALTER TABLE projects ADD CONSTRAINT projects_end_after_start CHECK (end_date IS NULL OR end_date >= start_date);
+
+CREATE OR REPLACE FUNCTION check_time_entry_project_dates()
+RETURNS trigger AS $$
+DECLARE
+  entry_project projects;
+BEGIN
+  -- Only check what is being logged, so old entries can still be corrected
+  IF TG_OP = 'UPDATE' AND NEW.project_id = OLD.project_id AND NEW.date = OLD.date THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO entry_project FROM projects WHERE id = NEW.project_id;
+
+  IF entry_project.status = 'archived' THEN
+    RAISE EXCEPTION 'Project % is archived', entry_project.name;
+  END IF;
+
+  IF NEW.date < entry_project.start_date
+    OR (entry_project.end_date IS NOT NULL AND NEW.date > entry_project.end_date) THEN
+    RAISE EXCEPTION 'Project % does not accept time on %', entry_project.name, NEW.date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER time_entries_project_dates
+  BEFORE INSERT OR UPDATE ON time_entries
+  FOR EACH ROW EXECUTE FUNCTION check_time_entry_project_dates();
@@ -0,0 +1,18 @@
+/*
+  # Custom task fields
+
+  1. Changed Tables
+    - `projects`
+      - `task_fields` (jsonb) - list of custom fields the project's tasks can
+        fill in, each `{ key, label, type, options, required }` where type is
+        text, number, select, date or url
+
+  2. Notes
+    - Values are stored in `tasks.metadata` under the field key. Removing a
+      field from a project leaves existing values in place.
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS task_fields jsonb NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(task_fields) = 'array');
+
+CREATE INDEX IF NOT EXISTS tasks_metadata_idx ON tasks USING gin (metadata);
@@ -0,0 +1,174 @@
+/*
+  # Project membership
+
+  1. New Tables
+    - `project_members`
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references users)
+      - `role` (text) - member or lead
+
+  2. Security
+    - Projects and tasks are only visible to their members, supervisors and
+      managers
+    - Only supervisors and managers can create or delete projects
+    - Leads, supervisors and managers can edit a project, its tasks and its
+      members; only managers can set rates and hour budgets
+    - Time can only be logged to projects the person is a member of
+      (supervisors and managers can log to any project)
+
+  3. Data
+    - Everyone who already logged time on a project becomes a member of it
+*/
+
+CREATE TABLE IF NOT EXISTS project_members (
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'lead')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (project_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS project_members_user_id_idx ON project_members (user_id);
+
+INSERT INTO project_members (project_id, user_id)
+SELECT DISTINCT project_id, user_id FROM time_entries
+ON CONFLICT DO NOTHING;
+
+-- Security definer helpers so policies on project_members do not recurse into themselves
+CREATE OR REPLACE FUNCTION is_supervisor_or_manager()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    WHERE email = auth.jwt() ->> 'email' AND role IN ('supervisor', 'manager')
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_project_member(p_project_id uuid, p_role text DEFAULT NULL)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM project_members pm
+    JOIN users u ON u.id = pm.user_id
+    WHERE pm.project_id = p_project_id
+      AND u.email = auth.jwt() ->> 'email'
+      AND (p_role IS NULL OR pm.role = p_role)
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their project teams"
+  ON project_members
+  FOR SELECT
+  TO authenticated
+  USING (is_supervisor_or_manager() OR is_project_member(project_id));
+
+CREATE POLICY "Leads, supervisors and managers can manage project teams"
+  ON project_members
+  FOR ALL
+  TO authenticated
+  USING (is_supervisor_or_manager() OR is_project_member(project_id, 'lead'))
+  WITH CHECK (is_supervisor_or_manager() OR is_project_member(project_id, 'lead'));
+
+-- Replace the open policies on projects and tasks
+DO $$
+DECLARE
+  existing record;
+BEGIN
+  FOR existing IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public' AND tablename IN ('projects', 'tasks')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I', existing.policyname, existing.tablename);
+  END LOOP;
+END $$;
+
+CREATE POLICY "Members can read their projects"
+  ON projects
+  FOR SELECT
+  TO authenticated
+  USING (is_supervisor_or_manager() OR is_project_member(id));
+
+CREATE POLICY "Supervisors and managers can create projects"
+  ON projects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_supervisor_or_manager());
+
+CREATE POLICY "Leads, supervisors and managers can edit projects"
+  ON projects
+  FOR UPDATE
+  TO authenticated
+  USING (is_supervisor_or_manager() OR is_project_member(id, 'lead'));
+
+CREATE POLICY "Supervisors and managers can delete projects"
+  ON projects
+  FOR DELETE
+  TO authenticated
+  USING (is_supervisor_or_manager());
+
+CREATE POLICY "Members can read their project tasks"
+  ON tasks
+  FOR SELECT
+  TO authenticated
+  USING (is_supervisor_or_manager() OR is_project_member(project_id));
+
+CREATE POLICY "Leads, supervisors and managers can manage tasks"
+  ON tasks
+  FOR ALL
+  TO authenticated
+  USING (is_supervisor_or_manager() OR is_project_member(project_id, 'lead'))
+  WITH CHECK (is_supervisor_or_manager() OR is_project_member(project_id, 'lead'));
+
+CREATE OR REPLACE FUNCTION check_time_entry_membership()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.project_id = OLD.project_id AND NEW.user_id = OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM project_members WHERE project_id = NEW.project_id AND user_id = NEW.user_id
+  ) AND NOT EXISTS (
+    SELECT 1 FROM users WHERE id = NEW.user_id AND role IN ('supervisor', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only project members can log time to this project';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER time_entries_project_membership
+  BEFORE INSERT OR UPDATE ON time_entries
+  FOR EACH ROW EXECUTE FUNCTION check_time_entry_membership();
+
+-- Rates and hour budgets stay with managers, whoever else may edit the project or task
+CREATE OR REPLACE FUNCTION check_billing_fields()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM users WHERE email = auth.jwt() ->> 'email' AND role = 'manager') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.budget_hours IS NOT NULL
+      OR (TG_TABLE_NAME = 'projects' AND NEW.hourly_rate <> 0)
+      OR (TG_TABLE_NAME = 'tasks' AND NEW.hourly_rate IS NOT NULL) THEN
+      RAISE EXCEPTION 'Only managers can set rates and budgets';
+    END IF;
+  ELSIF NEW.hourly_rate IS DISTINCT FROM OLD.hourly_rate
+    OR NEW.budget_hours IS DISTINCT FROM OLD.budget_hours THEN
+    RAISE EXCEPTION 'Only managers can change rates and budgets';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER projects_billing_fields
+  BEFORE INSERT OR UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION check_billing_fields();
+
+CREATE TRIGGER tasks_billing_fields
+  BEFORE INSERT OR UPDATE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION check_billing_fields();
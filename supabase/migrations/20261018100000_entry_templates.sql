@@ -0,0 +1,86 @@
+/*
+  # Recurring time entry templates
+
+  1. New Tables
+    - `entry_templates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `project_id` (uuid, references projects)
+      - `task_id` (uuid, references tasks, nullable)
+      - `description` (text)
+      - `start_time`, `end_time` (time)
+      - `weekdays` (smallint[]) - ISO weekdays the entry repeats on, 1 = Monday
+      - `billable` (boolean)
+      - `starts_on` (date) - first day drafts are suggested for
+      - `active` (boolean) - paused templates suggest nothing
+    - `entry_template_skips`
+      - `template_id` (uuid, references entry_templates)
+      - `date` (date) - a suggested draft the user dismissed
+
+  2. Changed Tables
+    - `time_entries`
+      - `template_id` (uuid, nullable) - template a confirmed draft came from
+
+  3. Security
+    - Enable RLS on both tables
+    - Users manage their own templates and skips
+*/
+
+CREATE TABLE IF NOT EXISTS entry_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  task_id uuid REFERENCES tasks(id) ON DELETE SET NULL,
+  description text NOT NULL DEFAULT '',
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  weekdays smallint[] NOT NULL CHECK (weekdays <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::smallint[] AND cardinality(weekdays) > 0),
+  billable boolean NOT NULL DEFAULT true,
+  starts_on date NOT NULL DEFAULT CURRENT_DATE,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (start_time <> end_time)
+);
+
+CREATE INDEX IF NOT EXISTS entry_templates_user_id_idx ON entry_templates (user_id);
+
+CREATE TABLE IF NOT EXISTS entry_template_skips (
+  template_id uuid NOT NULL REFERENCES entry_templates(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (template_id, date)
+);
+
+ALTER TABLE time_entries ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES entry_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS time_entries_template_id_idx ON time_entries (template_id, date);
+
+ALTER TABLE entry_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE entry_template_skips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own entry templates"
+  ON entry_templates
+  FOR ALL
+  TO authenticated
+  USING (user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email'))
+  WITH CHECK (user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email'));
+
+CREATE POLICY "Users manage skips of their own entry templates"
+  ON entry_template_skips
+  FOR ALL
+  TO authenticated
+  USING (
+    template_id IN (
+      SELECT t.id FROM entry_templates t
+      JOIN users u ON u.id = t.user_id
+      WHERE u.email = auth.jwt() ->> 'email'
+    )
+  )
+  WITH CHECK (
+    template_id IN (
+      SELECT t.id FROM entry_templates t
+      JOIN users u ON u.id = t.user_id
+      WHERE u.email = auth.jwt() ->> 'email'
+    )
+  );
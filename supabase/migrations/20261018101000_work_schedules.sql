@@ -0,0 +1,65 @@
+/*
+  # Contracted hours and flex time
+
+  1. Changed Tables
+    - `users`
+      - `contracted_hours` (numeric[7]) - hours expected on each weekday, Monday first
+      - `flex_start` (date) - first day counted towards the overtime/flex balance
+      - `flex_opening_hours` (numeric) - balance brought in from before `flex_start`
+
+  2. Functions
+    - `get_daily_hours` returns hours logged per user and day between two dates,
+      splitting entries that run past midnight between their two days.
+      It runs with the caller's rights, so everyone sees their own totals and
+      supervisors and managers see the people whose entries they can read
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS contracted_hours numeric(4,2)[] NOT NULL DEFAULT '{8,8,8,8,8,0,0}';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS flex_start date;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS flex_opening_hours numeric(6,2) NOT NULL DEFAULT 0;
+
+UPDATE users SET flex_start = created_at::date WHERE flex_start IS NULL;
+
+ALTER TABLE users ALTER COLUMN flex_start SET DEFAULT CURRENT_DATE;
+ALTER TABLE users ALTER COLUMN flex_start SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'users_contracted_hours_week') THEN
+    ALTER TABLE users ADD CONSTRAINT users_contracted_hours_week CHECK (
+      array_length(contracted_hours, 1) = 7
+      AND 0 <= ALL (contracted_hours)
+      AND 24 >= ALL (contracted_hours)
+    );
+  END IF;
+END $$;
+
+-- Entries that run past midnight are split between their two days, like the day totals in the app
+CREATE OR REPLACE FUNCTION get_daily_hours(p_from date, p_to date, p_user_id uuid DEFAULT NULL)
+RETURNS TABLE (user_id uuid, date date, hours numeric) AS $$
+  SELECT part.user_id, part.date, sum(part.hours)
+  FROM (
+    SELECT
+      te.user_id,
+      te.date,
+      extract(epoch FROM CASE
+        WHEN te.end_time < te.start_time THEN time '24:00' - te.start_time
+        ELSE te.end_time - te.start_time
+      END)::numeric / 3600 AS hours
+    FROM time_entries te
+    WHERE te.date BETWEEN p_from AND p_to
+      AND (p_user_id IS NULL OR te.user_id = p_user_id)
+    UNION ALL
+    SELECT
+      te.user_id,
+      te.date + 1,
+      extract(epoch FROM te.end_time)::numeric / 3600
+    FROM time_entries te
+    WHERE te.end_time < te.start_time
+      AND te.date + 1 BETWEEN p_from AND p_to
+      AND (p_user_id IS NULL OR te.user_id = p_user_id)
+  ) part
+  GROUP BY part.user_id, part.date
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_daily_hours(date, date, uuid) TO authenticated;
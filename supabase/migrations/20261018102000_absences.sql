@@ -0,0 +1,180 @@
+/*
+  # Absences and public holidays
+
+  1. New Tables
+    - `absence_types`
+      - `id` (uuid, primary key)
+      - `name` (text) - e.g. Vacation, Sick leave
+      - `color` (text) - hex colour used in the time tracking grid
+      - `paid` (boolean) - whether the absence counts as time off with pay
+    - `absences`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `type_id` (uuid, references absence_types)
+      - `start_date`, `end_date` (date) - first and last day off
+      - `hours` (numeric, nullable) - hours off per day; empty means whole days
+      - `note` (text)
+      - `status` (text) - pending, approved or rejected
+      - `reviewed_by` (uuid, references users)
+      - `reviewed_at` (timestamptz)
+      - `review_comment` (text)
+    - `public_holidays`
+      - `id` (uuid, primary key)
+      - `date` (date, unique)
+      - `name` (text)
+
+  2. Security
+    - Enable RLS on all three tables
+    - Everyone can read absence types and public holidays; managers maintain them
+    - Users can read their own absences, request new ones and withdraw pending ones
+    - Supervisors and managers can read every absence and approve or reject
+      pending ones, except their own; a review only sets the status, comment
+      and reviewer
+*/
+
+CREATE TABLE IF NOT EXISTS absence_types (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  color text NOT NULL DEFAULT '#0ea5e9',
+  paid boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO absence_types (name, color, paid) VALUES
+  ('Vacation', '#0ea5e9', true),
+  ('Sick leave', '#f97316', true),
+  ('Unpaid leave', '#6b7280', false)
+ON CONFLICT (name) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS absences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type_id uuid NOT NULL REFERENCES absence_types(id),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  hours numeric(4,2) CHECK (hours > 0 AND hours <= 24),
+  note text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  review_comment text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT absences_end_after_start CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS absences_user_dates ON absences (user_id, start_date, end_date);
+
+CREATE TABLE IF NOT EXISTS public_holidays (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  date date NOT NULL UNIQUE,
+  name text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE absence_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE absences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can read absence types"
+  ON absence_types
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can maintain absence types"
+  ON absence_types
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE email = auth.jwt() ->> 'email' AND role = 'manager'
+    )
+  );
+
+CREATE POLICY "Everyone can read public holidays"
+  ON public_holidays
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can maintain public holidays"
+  ON public_holidays
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE email = auth.jwt() ->> 'email' AND role = 'manager'
+    )
+  );
+
+CREATE POLICY "Users can read their own absences"
+  ON absences
+  FOR SELECT
+  TO authenticated
+  USING (
+    user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email')
+    OR is_supervisor_or_manager()
+  );
+
+CREATE POLICY "Users can request absences"
+  ON absences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email')
+    AND status = 'pending'
+  );
+
+CREATE POLICY "Users can withdraw pending absences"
+  ON absences
+  FOR DELETE
+  TO authenticated
+  USING (
+    user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email')
+    AND status = 'pending'
+  );
+
+CREATE POLICY "Supervisors and managers can review absences"
+  ON absences
+  FOR UPDATE
+  TO authenticated
+  USING (
+    is_supervisor_or_manager()
+    AND user_id NOT IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email')
+    AND status = 'pending'
+  )
+  WITH CHECK (
+    is_supervisor_or_manager()
+    AND user_id NOT IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email')
+    AND status IN ('approved', 'rejected')
+  );
+
+-- A review only records the outcome; the requested days stay as they were
+CREATE OR REPLACE FUNCTION check_absence_review()
+RETURNS trigger AS $$
+DECLARE
+  caller uuid := (SELECT id FROM users WHERE email = auth.jwt() ->> 'email');
+BEGIN
+  IF caller IS NOT NULL AND (
+    NEW.user_id <> OLD.user_id
+    OR NEW.type_id <> OLD.type_id
+    OR NEW.start_date <> OLD.start_date
+    OR NEW.end_date <> OLD.end_date
+    OR NEW.hours IS DISTINCT FROM OLD.hours
+    OR NEW.note <> OLD.note
+    OR NEW.created_at <> OLD.created_at
+    OR NEW.reviewed_by IS DISTINCT FROM caller
+  ) THEN
+    RAISE EXCEPTION 'A review can only set the status, comment and reviewer';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER absences_review_columns
+  BEFORE UPDATE ON absences
+  FOR EACH ROW EXECUTE FUNCTION check_absence_review();
@@ -0,0 +1,68 @@
+/*
+  # Calendar import
+
+  1. New Tables
+    - `calendar_rules`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `keyword` (text) - matched against event titles and descriptions
+      - `project_id` (uuid, references projects)
+      - `task_id` (uuid, nullable, references tasks)
+      - `billable` (boolean)
+    - `calendar_suggestions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `uid` (text) - event UID from the imported file
+      - `date` (date), `start_time`, `end_time` (time)
+      - `summary`, `description` (text)
+      - `status` (text) - open, accepted or dismissed
+
+  2. Security
+    - Enable RLS on both tables
+    - Users manage only their own rules and suggestions
+
+  3. Notes
+    - Suggestions are unique per user, event and day, so importing the same
+      file again does not bring back suggestions that were accepted or dismissed
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  keyword text NOT NULL CHECK (length(trim(keyword)) > 0),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  task_id uuid REFERENCES tasks(id) ON DELETE SET NULL,
+  billable boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS calendar_suggestions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  uid text NOT NULL,
+  date date NOT NULL,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  summary text NOT NULL DEFAULT '',
+  description text NOT NULL DEFAULT '',
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'dismissed')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, uid, date)
+);
+
+ALTER TABLE calendar_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own calendar rules"
+  ON calendar_rules
+  FOR ALL
+  TO authenticated
+  USING (user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email'))
+  WITH CHECK (user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email'));
+
+CREATE POLICY "Users manage their own calendar suggestions"
+  ON calendar_suggestions
+  FOR ALL
+  TO authenticated
+  USING (user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email'))
+  WITH CHECK (user_id IN (SELECT id FROM users WHERE email = auth.jwt() ->> 'email'));
@@ -0,0 +1,130 @@
+/*
+  # Audit log
+
+  1. New Tables
+    - `audit_log`
+      - `id` (uuid, primary key)
+      - `table_name` (text) - time_entries, projects or tasks
+      - `record_id` (uuid) - id of the changed row
+      - `action` (text) - insert, update or delete
+      - `actor_id` (uuid) - user who made the change; kept without a foreign
+        key so removing a user never touches the log
+      - `actor_email` (text)
+      - `old_data`, `new_data` (jsonb) - the row before and after the change
+      - `changed_fields` (text[]) - columns that differ on updates
+      - `changed_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `audit_log`; there are no insert, update or delete policies,
+      rows are only written by the triggers below
+    - Supervisors and managers can read the whole log
+    - Users can read the history of their own time entries
+    - Project leads can read the history of their projects and its tasks
+
+  3. Integrity
+    - Triggers on `time_entries`, `projects` and `tasks` record every change
+    - Updates that only touch `updated_at` are not recorded
+    - Rows in `audit_log` can never be updated or deleted
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor_id uuid,
+  actor_email text,
+  old_data jsonb,
+  new_data jsonb,
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_record ON audit_log (table_name, record_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS audit_log_changed_at ON audit_log (changed_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Audit log is readable by staff, owners and project leads"
+  ON audit_log
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_supervisor_or_manager()
+    OR (
+      table_name = 'time_entries'
+      AND (coalesce(new_data, old_data) ->> 'user_id')::uuid IN (
+        SELECT id FROM users WHERE email = auth.jwt() ->> 'email'
+      )
+    )
+    OR (table_name = 'projects' AND is_project_member(record_id, 'lead'))
+    OR (
+      table_name = 'tasks'
+      AND is_project_member((coalesce(new_data, old_data) ->> 'project_id')::uuid, 'lead')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS trigger AS $$
+DECLARE
+  old_row jsonb;
+  new_row jsonb;
+  changed text[] := '{}';
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT coalesce(array_agg(n.key ORDER BY n.key), '{}') INTO changed
+    FROM jsonb_each(new_row) n
+    WHERE n.key <> 'updated_at' AND n.value IS DISTINCT FROM old_row -> n.key;
+
+    IF cardinality(changed) = 0 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (table_name, record_id, action, actor_id, actor_email, old_data, new_data, changed_fields)
+  VALUES (
+    TG_TABLE_NAME,
+    (coalesce(new_row, old_row) ->> 'id')::uuid,
+    lower(TG_OP),
+    (SELECT id FROM users WHERE email = auth.jwt() ->> 'email'),
+    auth.jwt() ->> 'email',
+    old_row,
+    new_row,
+    changed
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER time_entries_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON time_entries
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER projects_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON projects
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER tasks_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
@@ -0,0 +1,296 @@
+/*
+  # Trash for time entries, tasks and projects
+
+  1. Changed Tables
+    - `time_entries`, `tasks`, `projects`
+      - `deleted_at` (timestamptz) - set while the row is in the trash
+      - `deleted_by` (uuid, references users)
+
+  2. Security
+    - Trashed rows are hidden from every read by a restrictive policy
+    - Moving to the trash, restoring and purging go through the functions
+      below, which apply the same rules as deleting did:
+      - people trash their own time entries, supervisors and managers anyone's
+      - project leads, supervisors and managers trash tasks
+      - supervisors and managers trash projects
+
+  3. Functions
+    - `trash_time_entry`, `trash_task`, `trash_project` move a row to the trash.
+      A task takes its time entries along, a project its tasks and entries,
+      all stamped with the same `deleted_at` so restoring brings back exactly
+      what was trashed together. Entries still locked by an approved week or
+      an invoice are left where they are
+    - `restore_from_trash` and `purge_from_trash` act on one trashed row
+    - `get_trash` lists what the caller can restore. Items stay restorable for
+      30 days and are purged after that whenever the trash is read
+*/
+
+ALTER TABLE time_entries ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE time_entries ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS time_entries_deleted_at_idx ON time_entries (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS tasks_deleted_at_idx ON tasks (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS projects_deleted_at_idx ON projects (deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE POLICY "Trashed time entries are hidden"
+  ON time_entries
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Trashed tasks are hidden"
+  ON tasks
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Trashed projects are hidden"
+  ON projects
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (deleted_at IS NULL);
+
+-- Runs with definer rights, so trashed rows have to be left out explicitly
+CREATE OR REPLACE FUNCTION get_budget_usage()
+RETURNS TABLE (project_id uuid, task_id uuid, date date, hours numeric) AS $$
+  SELECT te.project_id, te.task_id, te.date, sum(te.hours)
+  FROM time_entries te
+  JOIN projects p ON p.id = te.project_id
+  LEFT JOIN tasks t ON t.id = te.task_id
+  WHERE te.deleted_at IS NULL
+    AND (p.budget_hours IS NOT NULL OR t.budget_hours IS NOT NULL)
+  GROUP BY te.project_id, te.task_id, te.date
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_app_user_id()
+RETURNS uuid AS $$
+  SELECT id FROM users WHERE email = auth.jwt() ->> 'email'
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_trash(p_table text, p_record_id uuid)
+RETURNS boolean AS $$
+  SELECT is_supervisor_or_manager() OR CASE p_table
+    WHEN 'time_entries' THEN EXISTS (
+      SELECT 1 FROM time_entries WHERE id = p_record_id AND user_id = current_app_user_id()
+    )
+    WHEN 'tasks' THEN EXISTS (
+      SELECT 1 FROM tasks WHERE id = p_record_id AND is_project_member(project_id, 'lead')
+    )
+    ELSE false
+  END
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- True while a lock trigger would refuse to change the entry
+CREATE OR REPLACE FUNCTION time_entry_locked(te time_entries)
+RETURNS boolean AS $$
+  SELECT te.invoice_id IS NOT NULL OR EXISTS (
+    SELECT 1 FROM timesheets
+    WHERE user_id = te.user_id
+      AND week_start = date_trunc('week', te.date)::date
+      AND status = 'approved'
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION trash_time_entry(p_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT can_trash('time_entries', p_id) THEN
+    RAISE EXCEPTION 'You cannot delete this time entry';
+  END IF;
+
+  UPDATE time_entries
+  SET deleted_at = now(), deleted_by = current_app_user_id()
+  WHERE id = p_id AND deleted_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION trash_task(p_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT can_trash('tasks', p_id) THEN
+    RAISE EXCEPTION 'You cannot delete this task';
+  END IF;
+
+  UPDATE tasks
+  SET deleted_at = now(), deleted_by = current_app_user_id()
+  WHERE id = p_id AND deleted_at IS NULL;
+
+  UPDATE time_entries te
+  SET deleted_at = now(), deleted_by = current_app_user_id()
+  WHERE te.task_id = p_id AND te.deleted_at IS NULL AND NOT time_entry_locked(te);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION trash_project(p_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT can_trash('projects', p_id) THEN
+    RAISE EXCEPTION 'You cannot delete this project';
+  END IF;
+
+  UPDATE projects
+  SET deleted_at = now(), deleted_by = current_app_user_id()
+  WHERE id = p_id AND deleted_at IS NULL;
+
+  UPDATE tasks
+  SET deleted_at = now(), deleted_by = current_app_user_id()
+  WHERE project_id = p_id AND deleted_at IS NULL;
+
+  UPDATE time_entries te
+  SET deleted_at = now(), deleted_by = current_app_user_id()
+  WHERE te.project_id = p_id AND te.deleted_at IS NULL AND NOT time_entry_locked(te);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION restore_from_trash(p_table text, p_id uuid)
+RETURNS void AS $$
+DECLARE
+  trashed_at timestamptz;
+BEGIN
+  IF NOT can_trash(p_table, p_id) THEN
+    RAISE EXCEPTION 'You cannot restore this item';
+  END IF;
+
+  IF p_table = 'time_entries' THEN
+    SELECT te.deleted_at INTO trashed_at FROM time_entries te WHERE te.id = p_id;
+
+    IF EXISTS (
+      SELECT 1 FROM time_entries te
+      LEFT JOIN tasks t ON t.id = te.task_id
+      JOIN projects p ON p.id = te.project_id
+      WHERE te.id = p_id AND (t.deleted_at IS NOT NULL OR p.deleted_at IS NOT NULL)
+    ) THEN
+      RAISE EXCEPTION 'Restore the task or project of this time entry first';
+    END IF;
+  ELSIF p_table = 'tasks' THEN
+    SELECT t.deleted_at INTO trashed_at FROM tasks t WHERE t.id = p_id;
+
+    IF EXISTS (
+      SELECT 1 FROM tasks t JOIN projects p ON p.id = t.project_id
+      WHERE t.id = p_id AND p.deleted_at IS NOT NULL
+    ) THEN
+      RAISE EXCEPTION 'Restore the project of this task first';
+    END IF;
+  ELSIF p_table = 'projects' THEN
+    SELECT p.deleted_at INTO trashed_at FROM projects p WHERE p.id = p_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown table %', p_table;
+  END IF;
+
+  IF trashed_at IS NULL THEN
+    RETURN;
+  END IF;
+  IF trashed_at < now() - interval '30 days' THEN
+    RAISE EXCEPTION 'Items can only be restored within 30 days';
+  END IF;
+
+  IF p_table = 'projects' THEN
+    UPDATE projects SET deleted_at = NULL, deleted_by = NULL WHERE id = p_id;
+    UPDATE tasks SET deleted_at = NULL, deleted_by = NULL
+    WHERE project_id = p_id AND deleted_at = trashed_at;
+    UPDATE time_entries SET deleted_at = NULL, deleted_by = NULL
+    WHERE project_id = p_id AND deleted_at = trashed_at;
+  ELSIF p_table = 'tasks' THEN
+    UPDATE tasks SET deleted_at = NULL, deleted_by = NULL WHERE id = p_id;
+    UPDATE time_entries SET deleted_at = NULL, deleted_by = NULL
+    WHERE task_id = p_id AND deleted_at = trashed_at;
+  ELSE
+    UPDATE time_entries SET deleted_at = NULL, deleted_by = NULL WHERE id = p_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deleting a task or project removes its time entries through the foreign keys
+CREATE OR REPLACE FUNCTION purge_from_trash(p_table text, p_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT can_trash(p_table, p_id) THEN
+    RAISE EXCEPTION 'You cannot delete this item';
+  END IF;
+
+  IF p_table = 'projects' THEN
+    DELETE FROM projects WHERE id = p_id AND deleted_at IS NOT NULL;
+  ELSIF p_table = 'tasks' THEN
+    DELETE FROM tasks WHERE id = p_id AND deleted_at IS NOT NULL;
+  ELSIF p_table = 'time_entries' THEN
+    DELETE FROM time_entries WHERE id = p_id AND deleted_at IS NOT NULL;
+  ELSE
+    RAISE EXCEPTION 'Unknown table %', p_table;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Rows a lock still protects (an approved week, an invoice) stay until the lock is lifted
+CREATE OR REPLACE FUNCTION purge_expired_trash()
+RETURNS void AS $$
+DECLARE
+  expired record;
+BEGIN
+  FOR expired IN
+    SELECT 'projects' AS table_name, id FROM projects WHERE deleted_at < now() - interval '30 days'
+    UNION ALL
+    SELECT 'tasks', id FROM tasks WHERE deleted_at < now() - interval '30 days'
+    UNION ALL
+    SELECT 'time_entries', id FROM time_entries WHERE deleted_at < now() - interval '30 days'
+  LOOP
+    BEGIN
+      EXECUTE format('DELETE FROM %I WHERE id = $1', expired.table_name) USING expired.id;
+    EXCEPTION WHEN others THEN
+      NULL;
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Entries and tasks trashed along with their task or project are listed under it
+CREATE OR REPLACE FUNCTION get_trash()
+RETURNS TABLE (
+  table_name text,
+  record_id uuid,
+  data jsonb,
+  deleted_at timestamptz,
+  deleted_by uuid,
+  expires_at timestamptz,
+  contents integer
+) AS $$
+BEGIN
+  PERFORM purge_expired_trash();
+
+  RETURN QUERY
+  SELECT 'projects', p.id, to_jsonb(p), p.deleted_at, p.deleted_by, p.deleted_at + interval '30 days',
+    ((SELECT count(*) FROM tasks t WHERE t.project_id = p.id AND t.deleted_at = p.deleted_at)
+      + (SELECT count(*) FROM time_entries te WHERE te.project_id = p.id AND te.deleted_at = p.deleted_at))::integer
+  FROM projects p
+  WHERE p.deleted_at IS NOT NULL AND can_trash('projects', p.id)
+  UNION ALL
+  SELECT 'tasks', t.id, to_jsonb(t), t.deleted_at, t.deleted_by, t.deleted_at + interval '30 days',
+    (SELECT count(*) FROM time_entries te WHERE te.task_id = t.id AND te.deleted_at = t.deleted_at)::integer
+  FROM tasks t
+  JOIN projects p ON p.id = t.project_id
+  WHERE t.deleted_at IS NOT NULL AND p.deleted_at IS NULL AND can_trash('tasks', t.id)
+  UNION ALL
+  SELECT 'time_entries', te.id, to_jsonb(te), te.deleted_at, te.deleted_by, te.deleted_at + interval '30 days', 0
+  FROM time_entries te
+  JOIN projects p ON p.id = te.project_id
+  LEFT JOIN tasks t ON t.id = te.task_id
+  WHERE te.deleted_at IS NOT NULL
+    AND p.deleted_at IS NULL
+    AND t.deleted_at IS NULL
+    AND can_trash('time_entries', te.id)
+  ORDER BY 4 DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION trash_time_entry(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION trash_task(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION trash_project(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION restore_from_trash(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION purge_from_trash(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_trash() TO authenticated;
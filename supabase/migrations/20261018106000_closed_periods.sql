@@ -0,0 +1,129 @@
+/*
+  # Closed payroll periods
+
+  1. New Tables
+    - `closed_periods`
+      - `id` (uuid, primary key)
+      - `start_date`, `end_date` (date) - first and last day of the period
+      - `closed_by` (uuid, references users), `closed_at` (timestamptz)
+      - `reopened_by` (uuid, references users), `reopened_at` (timestamptz)
+      - `reopen_reason` (text) - required when a period is reopened
+
+  2. Security
+    - Enable RLS on `closed_periods`
+    - Everyone can read closed periods, so locked days can be shown
+    - Managers can close periods and reopen them; a reopened period cannot be
+      closed again, closing the same days again adds a new period
+    - Closed periods are never deleted, so every reopen stays on record
+
+  3. Integrity
+    - Time entries dated inside a period that is closed and not reopened can
+      not be created, changed, moved, trashed or deleted; they can still be
+      invoiced. Trashing a task or project leaves them where they are
+*/
+
+CREATE TABLE IF NOT EXISTS closed_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  closed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  closed_at timestamptz NOT NULL DEFAULT now(),
+  reopened_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  reopened_at timestamptz,
+  reopen_reason text,
+  CHECK (end_date >= start_date),
+  CHECK (reopened_at IS NULL OR length(trim(coalesce(reopen_reason, ''))) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS closed_periods_dates_idx ON closed_periods (start_date, end_date) WHERE reopened_at IS NULL;
+
+ALTER TABLE closed_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can read closed periods"
+  ON closed_periods
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Managers can close periods"
+  ON closed_periods
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE email = auth.jwt() ->> 'email' AND role = 'manager')
+    AND reopened_at IS NULL
+  );
+
+CREATE POLICY "Managers can reopen closed periods"
+  ON closed_periods
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM users WHERE email = auth.jwt() ->> 'email' AND role = 'manager')
+    AND reopened_at IS NULL
+  )
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE email = auth.jwt() ->> 'email' AND role = 'manager'));
+
+-- Only the reopen columns may change, and only once
+CREATE OR REPLACE FUNCTION check_closed_period_reopen()
+RETURNS trigger AS $$
+BEGIN
+  IF OLD.reopened_at IS NOT NULL
+    OR NEW.start_date <> OLD.start_date
+    OR NEW.end_date <> OLD.end_date
+    OR NEW.closed_by IS DISTINCT FROM OLD.closed_by
+    OR NEW.closed_at <> OLD.closed_at
+    OR NEW.reopened_at IS NULL THEN
+    RAISE EXCEPTION 'A closed period can only be reopened, once, with a reason';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER closed_periods_reopen_only
+  BEFORE UPDATE ON closed_periods
+  FOR EACH ROW EXECUTE FUNCTION check_closed_period_reopen();
+
+CREATE OR REPLACE FUNCTION prevent_closed_period_changes()
+RETURNS trigger AS $$
+BEGIN
+  -- Flagging an entry as invoiced is not a change to the logged time
+  IF TG_OP = 'UPDATE'
+    AND (to_jsonb(NEW) - 'invoice_id') = (to_jsonb(OLD) - 'invoice_id') THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP <> 'DELETE' AND EXISTS (
+    SELECT 1 FROM closed_periods
+    WHERE reopened_at IS NULL AND NEW.date BETWEEN start_date AND end_date
+  )) OR (TG_OP <> 'INSERT' AND EXISTS (
+    SELECT 1 FROM closed_periods
+    WHERE reopened_at IS NULL AND OLD.date BETWEEN start_date AND end_date
+  )) THEN
+    RAISE EXCEPTION 'Time entries in a closed period cannot be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER time_entries_closed_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON time_entries
+  FOR EACH ROW EXECUTE FUNCTION prevent_closed_period_changes();
+
+CREATE OR REPLACE FUNCTION time_entry_locked(te time_entries)
+RETURNS boolean AS $$
+  SELECT te.invoice_id IS NOT NULL OR EXISTS (
+    SELECT 1 FROM timesheets
+    WHERE user_id = te.user_id
+      AND week_start = date_trunc('week', te.date)::date
+      AND status = 'approved'
+  ) OR EXISTS (
+    SELECT 1 FROM closed_periods
+    WHERE reopened_at IS NULL AND te.date BETWEEN start_date AND end_date
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,64 @@
+/*
+  # Editing time entries on someone's behalf
+
+  1. Changed Tables
+    - `time_entries`
+      - `edited_by` (uuid, references users) - supervisor or manager who last
+        created or changed the entry for its owner; NULL when only the owner
+        did. Set by a trigger, so it cannot be forged or cleared, and the
+        owner's own later changes keep it
+
+  2. Security
+    - Supervisors and managers can read, add and change everyone's time
+      entries. Approved weeks, closed periods and invoices still apply, and
+      every change is recorded in the audit log under their name. They
+      delete entries through the trash, never directly
+*/
+
+ALTER TABLE time_entries ADD COLUMN IF NOT EXISTS edited_by uuid REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE POLICY "Supervisors and managers can read everyone's time entries"
+  ON time_entries
+  FOR SELECT
+  TO authenticated
+  USING (is_supervisor_or_manager());
+
+CREATE POLICY "Supervisors and managers can add everyone's time entries"
+  ON time_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_supervisor_or_manager());
+
+CREATE POLICY "Supervisors and managers can change everyone's time entries"
+  ON time_entries
+  FOR UPDATE
+  TO authenticated
+  USING (is_supervisor_or_manager())
+  WITH CHECK (is_supervisor_or_manager());
+
+-- Records who changed an entry on its owner's behalf; invoicing and moving an
+-- entry to or from the trash are not edits
+CREATE OR REPLACE FUNCTION set_time_entry_edited_by()
+RETURNS trigger AS $$
+DECLARE
+  editor uuid := current_app_user_id();
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND (to_jsonb(NEW) - ARRAY['invoice_id', 'deleted_at', 'deleted_by', 'edited_by', 'updated_at'])
+      = (to_jsonb(OLD) - ARRAY['invoice_id', 'deleted_at', 'deleted_by', 'edited_by', 'updated_at']) THEN
+    NEW.edited_by := OLD.edited_by;
+  ELSIF editor IS NOT NULL AND editor <> NEW.user_id THEN
+    NEW.edited_by := editor;
+  ELSIF TG_OP = 'UPDATE' THEN
+    NEW.edited_by := OLD.edited_by;
+  ELSE
+    NEW.edited_by := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER time_entries_set_edited_by
+  BEFORE INSERT OR UPDATE ON time_entries
+  FOR EACH ROW EXECUTE FUNCTION set_time_entry_edited_by();
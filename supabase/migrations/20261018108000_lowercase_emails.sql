@@ -0,0 +1,47 @@
+/*
+  # Lowercase email addresses
+
+  1. Changed Tables
+    - `authorized_emails`
+      - Existing addresses are stored in lowercase, keeping one row when the
+        same address was authorized more than once in different case
+      - New addresses must be lowercase, as sign-in, role changes and the
+        revocation check all look them up that way
+    - `users`
+      - Existing addresses are stored in lowercase, and new ones must be too
+      - Profiles whose addresses only differ in case each own their time
+        entries and history, so they are not merged here: the migration stops
+        and lists them, to be merged by hand before running it again
+*/
+
+-- Keeps one row per address, preferring one that is already lowercase
+DELETE FROM authorized_emails a
+USING authorized_emails b
+WHERE lower(a.email) = lower(b.email)
+  AND a.id <> b.id
+  AND (b.email = lower(b.email), b.id) > (a.email = lower(a.email), a.id);
+
+UPDATE authorized_emails SET email = lower(email) WHERE email <> lower(email);
+
+ALTER TABLE authorized_emails
+  ADD CONSTRAINT authorized_emails_email_lowercase CHECK (email = lower(email));
+
+DO $$
+DECLARE
+  clashes text;
+BEGIN
+  SELECT string_agg(address, ', ') INTO clashes
+  FROM (
+    SELECT lower(email) AS address FROM users GROUP BY lower(email) HAVING count(*) > 1
+  ) clashing;
+
+  IF clashes IS NOT NULL THEN
+    RAISE EXCEPTION 'Users share an email address in different case: %', clashes
+      USING HINT = 'Merge these profiles into one before lowercasing email addresses';
+  END IF;
+END $$;
+
+UPDATE users SET email = lower(email) WHERE email <> lower(email);
+
+ALTER TABLE users
+  ADD CONSTRAINT users_email_lowercase CHECK (email = lower(email));